@@ -1,14 +1,16 @@
 import type {
+  AuthenticationPollOptions,
   AuthenticationRequestParams,
   AuthenticationResponse,
   AuthenticationSubmissionParams,
   FaceBiometricOptions,
+  LogoutOptions,
   OtpOptions,
   SmartCredentialOptions,
   SoftTokenOptions,
 } from "./models";
 import type { RbaClient } from "./RbaClient";
-import { browserSupportsPasskey } from "./utils/browser";
+import { assertBrowser, browserSupportsPasskey } from "./utils/browser";
 
 /**
  * Convenience authentication client for fixed authentication methods.
@@ -40,6 +42,7 @@ export class AuthClient {
   }
 
   async #importOnfidoSdk() {
+    assertBrowser("Onfido face authentication");
     try {
       const { Onfido } = await import("onfido-sdk-ui");
       return Onfido;
@@ -103,6 +106,7 @@ export class AuthClient {
    * @param options Soft token authentication options
    * @param options.push Determines if push authentication (true) or standard token authentication (false) should be used. Default false.
    * @param options.mutualChallenge Enables mutual challenge for push. Only valid if push is true. Default false.
+   * @param pollOptions The interval, backoff, timeout, abort signal, and status callback of polling plain TOKENPUSH.
    * @returns AuthenticationResponse:
    *   - Final result (success/failure) for plain TOKENPUSH (no mutual challenge).
    *   - Initial challenge response for TOKENPUSH with mutual challenge (requires poll).
@@ -112,6 +116,7 @@ export class AuthClient {
   public async softToken(
     userId: string,
     { mutualChallenge, push }: SoftTokenOptions = {},
+    pollOptions?: AuthenticationPollOptions,
   ): Promise<AuthenticationResponse> {
     if (push && !mutualChallenge) {
       await this.#rbaClient.requestChallenge({
@@ -120,7 +125,7 @@ export class AuthClient {
         preferredAuthenticationMethod: "TOKENPUSH",
       });
 
-      return await this.#rbaClient.poll();
+      return await this.#rbaClient.poll(pollOptions);
     }
 
     if (push && mutualChallenge) {
@@ -290,16 +295,17 @@ export class AuthClient {
    * Requests a MAGICLINK challenge, then immediately starts polling for completion.
    *
    * @param userId The user ID to authenticate.
+   * @param pollOptions The interval, backoff, timeout, abort signal, and status callback of polling.
    * @returns AuthenticationResponse containing information regarding the authentication request. Includes the authenticationCompleted flag to indicate successful authentication.
    */
-  public async magicLink(userId: string): Promise<AuthenticationResponse> {
+  public async magicLink(userId: string, pollOptions?: AuthenticationPollOptions): Promise<AuthenticationResponse> {
     await this.#rbaClient.requestChallenge({
       userId,
       strict: true,
       preferredAuthenticationMethod: "MAGICLINK",
     });
 
-    return await this.#rbaClient.poll();
+    return await this.#rbaClient.poll(pollOptions);
   }
 
   /**
@@ -310,11 +316,13 @@ export class AuthClient {
    * @param options Smart credential authentication options
    * @param options.summary The summary to display in the push notification.
    * @param options.pushMessageIdentifier The identifier to retrieve customized SDK push message configuration.
+   * @param pollOptions The interval, backoff, timeout, abort signal, and status callback of polling.
    * @returns AuthenticationResponse containing information regarding the authentication request. Includes the authenticationCompleted flag to indicate successful authentication.
    */
   public async smartCredential(
     userId: string,
     { summary, pushMessageIdentifier }: SmartCredentialOptions = {},
+    pollOptions?: AuthenticationPollOptions,
   ): Promise<AuthenticationResponse> {
     await this.#rbaClient.requestChallenge({
       userId,
@@ -326,7 +334,7 @@ export class AuthClient {
       },
     });
 
-    return await this.#rbaClient.poll();
+    return await this.#rbaClient.poll(pollOptions);
   }
 
   /**
@@ -346,12 +354,14 @@ export class AuthClient {
    *
    * @param userId The user ID to authenticate.
    * @param mutualChallenge Determines if the user must answer a mutual challenge for and FACE authenticator.
+   * @param pollOptions The interval, backoff, timeout, abort signal, and status callback of polling.
    * @returns AuthenticationResponse containing information regarding the authentication request. Includes the authenticationCompleted flag to indicate successful authentication.
    * @throws If faceChallenge is missing, Onfido initialization fails, or polling fails.
    */
   public async faceBiometric(
     userId: string,
     { mutualChallenge }: FaceBiometricOptions = {},
+    pollOptions?: AuthenticationPollOptions,
   ): Promise<AuthenticationResponse> {
     const challengeResponse = await this.#rbaClient.requestChallenge({
       userId,
@@ -365,7 +375,7 @@ export class AuthClient {
     }
 
     if (challengeResponse.faceChallenge.device !== "WEB") {
-      return mutualChallenge ? challengeResponse : await this.#rbaClient.poll();
+      return mutualChallenge ? challengeResponse : await this.#rbaClient.poll(pollOptions);
     }
 
     const Onfido = await this.#importOnfidoSdk();
@@ -377,9 +387,13 @@ export class AuthClient {
           workflowRunId: challengeResponse.faceChallenge?.workflowRunId,
           containerId: "onfido-mount",
           onComplete: async () => {
-            const authenticationPollResponse = await this.#rbaClient.poll();
-            resolve(authenticationPollResponse);
-            instance.tearDown();
+            try {
+              resolve(await this.#rbaClient.poll(pollOptions));
+            } catch (error) {
+              reject(error);
+            } finally {
+              instance.tearDown();
+            }
           },
           onError: (error) => {
             reject(error);
@@ -413,18 +427,23 @@ export class AuthClient {
     });
   }
 
-  public async logout(): Promise<void> {
-    return await this.#rbaClient.logout();
+  /**
+   * Logs the user out, revoking stored refresh tokens and clearing the local session.
+   * @param options Logout options
+   */
+  public async logout(options: LogoutOptions = {}): Promise<void> {
+    return await this.#rbaClient.logout(options);
   }
 
   /**
    * Polls the authentication provider to check for completion of an ongoing authentication process.
    * Useful for authentication flows that may complete asynchronously (e.g., token push authentication).
    *
+   * @param options The interval, backoff, timeout, abort signal, and status callback of polling.
    * @returns AuthenticationResponse containing information regarding the authentication request. Includes the authenticationCompleted flag to indicate successful authentication.
    */
-  public async poll(): Promise<AuthenticationResponse> {
-    return await this.#rbaClient.poll();
+  public async poll(options?: AuthenticationPollOptions): Promise<AuthenticationResponse> {
+    return await this.#rbaClient.poll(options);
   }
 
   /**
@@ -7,8 +7,10 @@ import {
   requestToken,
   submitAuthChallenge,
 } from "./api";
+import { TimeoutError, TokenValidationError, TransactionStateError } from "./errors";
 import type { IdaasContext } from "./IdaasContext";
 import type {
+  AuthenticationPollOptions,
   AuthenticationRequestParams,
   AuthenticationResponse,
   AuthenticationSubmissionParams,
@@ -18,6 +20,7 @@ import type {
 } from "./models";
 import type {
   AuthenticatedResponse,
+  FidoChallenge,
   FidoResponse,
   KbaChallenge,
   UserAuthenticateParameters,
@@ -26,8 +29,13 @@ import type {
 } from "./models/openapi-ts";
 import { calculateEpochExpiry } from "./utils/format";
 import { buildFidoResponse, buildPubKeyRequestOptions } from "./utils/passkey";
+import { reportError } from "./utils/reportError";
 import { generateAuthorizationUrl } from "./utils/url";
 
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_POLL_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_POLL_INTERVAL_MS = 30 * 1000;
+
 interface AuthenticationDetails {
   method?: IdaasAuthenticationMethod;
   secondFactor?: IdaasAuthenticationMethod;
@@ -40,6 +48,7 @@ interface AuthenticationDetails {
   audience?: string;
   maxAge?: number;
   acr?: string;
+  resource?: string[];
   dpopBound?: boolean;
   dpopKeyRef?: string;
 }
@@ -48,6 +57,26 @@ interface RequiredDetails {
   authRequestKey: string;
   applicationId: string;
   codeVerifier: string;
+  resource: string[];
+}
+
+/**
+ * The serializable state of a transaction that is waiting for the user, see `toState()` and `fromState()`.
+ * The password of `PASSWORD_AND_SECONDFACTOR` and the answers to KBA questions are never included.
+ */
+export interface AuthenticationTransactionState {
+  authenticationRequestParams?: Omit<AuthenticationRequestParams, "password">;
+  tokenOptions: TokenOptions;
+  method?: IdaasAuthenticationMethod;
+  secondFactor?: IdaasAuthenticationMethod;
+  nonce?: string;
+  scope?: string;
+  isSecondFactor: boolean;
+  requiredDetails?: RequiredDetails;
+  token?: string;
+  kbaChallenge?: KbaChallenge;
+  fidoChallenge?: FidoChallenge;
+  dpopKeyRef?: string;
 }
 
 export class AuthenticationTransaction {
@@ -62,11 +91,13 @@ export class AuthenticationTransaction {
   #continuePolling = false;
   #isSecondFactor = false;
 
+  #fidoChallenge?: FidoChallenge;
   #fidoResponse?: FidoResponse;
   #kbaChallenge?: KbaChallenge;
   #publicKeyCredentialRequestOptions?: PublicKeyCredentialRequestOptions;
   #requiredDetails?: RequiredDetails;
   #token?: string;
+  #dpopKeyRef?: string;
   #abortController?: AbortController;
 
   constructor({
@@ -89,17 +120,82 @@ export class AuthenticationTransaction {
     this.#oidcConfig = oidcConfig;
   }
 
+  /**
+   * Restores a transaction from the state returned by `toState()`, e.g. after the page was reloaded.
+   */
+  public static fromState({
+    state,
+    ...options
+  }: Omit<AuthenticationTransactionOptions, "authenticationRequestParams" | "tokenOptions"> & {
+    state: AuthenticationTransactionState;
+  }): AuthenticationTransaction {
+    const transaction = new AuthenticationTransaction({
+      ...options,
+      authenticationRequestParams: state.authenticationRequestParams,
+      tokenOptions: state.tokenOptions,
+    });
+
+    transaction.#authenticationDetails = {
+      method: state.method,
+      secondFactor: state.secondFactor,
+      nonce: state.nonce,
+      scope: state.scope,
+    };
+    transaction.#isSecondFactor = state.isSecondFactor;
+    transaction.#requiredDetails = state.requiredDetails;
+    transaction.#token = state.token;
+    transaction.#kbaChallenge = state.kbaChallenge;
+    transaction.#fidoChallenge = state.fidoChallenge;
+    transaction.#dpopKeyRef = state.dpopKeyRef;
+
+    return transaction;
+  }
+
+  /**
+   * Serializes the transaction so it can be stored and resumed with `fromState()`.
+   * The DPoP key the authorization request was bound to is persisted, so the token request can still be proven.
+   */
+  public async toState(): Promise<AuthenticationTransactionState> {
+    const { method, secondFactor, nonce, scope } = this.#authenticationDetails;
+
+    const effectiveDpop = this.#context.getEffectiveDpopOptions(this.#tokenOptions.dpop);
+    if (effectiveDpop?.includeJkt && !this.#dpopKeyRef) {
+      this.#dpopKeyRef = await this.#context.persistDpopKeyMaterialForAlg(effectiveDpop.alg);
+    }
+
+    const { password: _password, ...authenticationRequestParams } = this.#authenticationRequestParams ?? {};
+
+    return {
+      authenticationRequestParams,
+      tokenOptions: this.#tokenOptions,
+      method,
+      secondFactor,
+      nonce,
+      scope,
+      isSecondFactor: this.#isSecondFactor,
+      requiredDetails: this.#requiredDetails,
+      token: this.#token,
+      kbaChallenge: this.#kbaChallenge && {
+        ...this.#kbaChallenge,
+        userQuestions: this.#kbaChallenge.userQuestions.map(({ answer: _answer, ...userQuestion }) => userQuestion),
+      },
+      fidoChallenge: this.#fidoChallenge,
+      dpopKeyRef: this.#dpopKeyRef,
+    };
+  }
+
   /**
    * Requests an authentication challenge from the IDaaS Authentication API.
    */
   public async requestAuthChallenge(): Promise<AuthenticationResponse> {
     // 1. Generate /authorizejwt URL and fetch OIDC details
     const dpopJkt = await this.#context.getDpopJkt(this.#tokenOptions.dpop);
-    const { url, codeVerifier, nonce } = await generateAuthorizationUrl({
+    const { url, codeVerifier, nonce, usedResource } = await generateAuthorizationUrl({
       baseUrl: `${this.#oidcConfig.issuer}/authorizejwt`,
       clientId: this.#clientId,
       tokenOptions: this.#tokenOptions,
       dpopJkt,
+      crypto: this.#context.crypto,
     });
 
     this.#authenticationDetails.nonce = nonce;
@@ -110,6 +206,7 @@ export class AuthenticationTransaction {
       authRequestKey,
       applicationId,
       codeVerifier,
+      resource: usedResource,
     };
 
     // 2. Get authentication method and second factor method
@@ -142,8 +239,9 @@ export class AuthenticationTransaction {
 
     if (method === "PASSKEY" || method === "FIDO") {
       if (!(token && method && fidoChallenge)) {
-        throw new Error("Failed to retrieve required values");
+        throw new TransactionStateError("Failed to retrieve required values");
       }
+      this.#fidoChallenge = fidoChallenge;
       this.#publicKeyCredentialRequestOptions = buildPubKeyRequestOptions(fidoChallenge);
     }
 
@@ -163,7 +261,7 @@ export class AuthenticationTransaction {
     availableSecondFactor: IdaasAuthenticationMethod[] | undefined;
   }> {
     if (!this.#requiredDetails) {
-      throw new Error("Jwt params not initialized");
+      throw new TransactionStateError("Jwt params not initialized");
     }
 
     const queryUserAuthResponse: UserAuthenticateQueryResponse = await queryUserAuthOptions(
@@ -172,7 +270,7 @@ export class AuthenticationTransaction {
         userId: this.#authenticationRequestParams?.userId || "",
         authRequestKey: this.#requiredDetails.authRequestKey,
         applicationId: this.#requiredDetails.applicationId,
-        origin: window.location.origin,
+        origin: this.#context.getOrigin(),
       },
       this.#issuerOrigin,
     );
@@ -292,7 +390,7 @@ export class AuthenticationTransaction {
     const { method } = this.#authenticationDetails;
     const token = this.#token;
     if (!(method && token)) {
-      throw new Error("Error parsing authentication params");
+      throw new TransactionStateError("Error parsing authentication params");
     }
 
     if (passkeyResponse) {
@@ -320,12 +418,12 @@ export class AuthenticationTransaction {
 
   #handleSuccessfulAuthentication = async () => {
     if (!this.#requiredDetails) {
-      throw new Error("Jwt parameters not initialized");
+      throw new TransactionStateError("Jwt parameters not initialized");
     }
-    const { authRequestKey, codeVerifier } = this.#requiredDetails;
+    const { authRequestKey, codeVerifier, resource } = this.#requiredDetails;
 
     if (!this.#token) {
-      throw new Error("IDaaS token not stored");
+      throw new TransactionStateError("IDaaS token not stored");
     }
 
     const requestBody: JwtIdaasTokenRequest = {
@@ -336,11 +434,22 @@ export class AuthenticationTransaction {
       jwt: this.#token,
     };
 
-    const dpopJwt = await this.#context.createDpopProof({
-      method: "POST",
-      uri: this.#oidcConfig.token_endpoint,
-      dpopOptions: this.#tokenOptions.dpop,
-    });
+    if (resource.length > 0) {
+      requestBody.resource = resource;
+    }
+
+    // A resumed transaction proves possession of the key its authorization request was bound to
+    const dpopJwt = this.#dpopKeyRef
+      ? await this.#context.createDpopProofForKeyRef({
+          method: "POST",
+          uri: this.#oidcConfig.token_endpoint,
+          dpopKeyRef: this.#dpopKeyRef,
+        })
+      : await this.#context.createDpopProof({
+          method: "POST",
+          uri: this.#oidcConfig.token_endpoint,
+          dpopOptions: this.#tokenOptions.dpop,
+        });
 
     const tokenResponse = await requestToken(this.#oidcConfig.token_endpoint, requestBody, dpopJwt);
     const { id_token, access_token, expires_in, refresh_token } = tokenResponse;
@@ -348,22 +457,27 @@ export class AuthenticationTransaction {
     // If includeOpenidScope is false, do not require id_token
     const requireIdToken = this.#tokenOptions.includeOpenidScope !== false;
     if ((requireIdToken && !(id_token && access_token)) || (!requireIdToken && !access_token)) {
-      throw new Error("failed to fetch required tokens from IDaaS");
+      throw new TokenValidationError("failed to fetch required tokens from IDaaS");
     }
 
     if (this.#tokenOptions.useRefreshToken && !refresh_token) {
-      throw new Error("failed to fetch refresh token from IDaaS");
+      throw new TokenValidationError("failed to fetch refresh token from IDaaS");
     }
 
     const dpopBound = tokenResponse.token_type.toLowerCase() === "dpop";
-    let dpopKeyRef: string | undefined;
+    let dpopKeyRef = this.#dpopKeyRef;
     if (dpopBound) {
       const effectiveDpop = this.#context.getEffectiveDpopOptions(this.#tokenOptions.dpop);
       if (!effectiveDpop) {
         throw new Error("DPoP-bound token response received without DPoP key material");
       }
 
-      dpopKeyRef = await this.#context.persistCurrentDpopKeyMaterialForAlg(effectiveDpop.alg);
+      if (!dpopKeyRef) {
+        dpopKeyRef = await this.#context.persistCurrentDpopKeyMaterialForAlg(effectiveDpop.alg);
+      }
+    } else if (dpopKeyRef) {
+      await this.#context.clearDpopKeyMaterial(dpopKeyRef);
+      dpopKeyRef = undefined;
     }
 
     this.#authenticationDetails = {
@@ -375,6 +489,7 @@ export class AuthenticationTransaction {
       audience: this.#tokenOptions.audience,
       maxAge: this.#tokenOptions.maxAge,
       acr: this.#tokenOptions.acrValues,
+      resource: resource.length > 0 ? resource : undefined,
       dpopBound,
       dpopKeyRef,
     };
@@ -385,7 +500,7 @@ export class AuthenticationTransaction {
 
     const secondFactor = this.#authenticationDetails.secondFactor;
     if (!secondFactor) {
-      throw new Error("error parsing authentication params");
+      throw new TransactionStateError("error parsing authentication params");
     }
 
     const secondFactorRequest = await this.#requestSecondFactorAuth();
@@ -396,8 +511,9 @@ export class AuthenticationTransaction {
 
     if (secondFactor === "FIDO" || secondFactor === "PASSKEY") {
       if (!(this.#token && fidoChallenge)) {
-        throw new Error("Failed to retrieve required values");
+        throw new TransactionStateError("Failed to retrieve required values");
       }
+      this.#fidoChallenge = fidoChallenge;
       this.#publicKeyCredentialRequestOptions = buildPubKeyRequestOptions(fidoChallenge);
     }
 
@@ -415,7 +531,7 @@ export class AuthenticationTransaction {
     const token = this.#token;
 
     if (!(token && method)) {
-      throw new Error("Error parsing authentication params");
+      throw new TransactionStateError("Error parsing authentication params");
     }
     const requestBody = this.#constructUserAuthenticateParams();
 
@@ -424,34 +540,72 @@ export class AuthenticationTransaction {
 
   /**
    * Polls the IDaaS Authentication API to determine if the user has completed authentication.
+   * @throws {Error} If `intervalMs` is not positive or `backoff` is less than 1
+   * @throws {TimeoutError} If the user does not respond within `timeoutMs`
    */
-  public async pollForAuthCompletion(): Promise<AuthenticationResponse> {
-    // set polling
+  public async pollForAuthCompletion({
+    intervalMs = DEFAULT_POLL_INTERVAL_MS,
+    backoff = 1,
+    timeoutMs = DEFAULT_POLL_TIMEOUT_MS,
+    signal,
+    onStatus,
+  }: AuthenticationPollOptions = {}): Promise<AuthenticationResponse> {
+    // Both would poll in a tight loop
+    if (!(intervalMs > 0)) {
+      throw new Error(`intervalMs must be a positive number: ${intervalMs}`);
+    }
+    if (!(backoff >= 1)) {
+      throw new Error(`backoff must be at least 1: ${backoff}`);
+    }
+    signal?.throwIfAborted();
+
+    // set polling, cancelAuthChallenge() ends it without an error
     this.#continuePolling = true;
+    this.#abortController = new AbortController();
+    const deadline = Date.now() + timeoutMs;
+    let interval = Math.min(intervalMs, MAX_POLL_INTERVAL_MS);
     let authResponse: AuthenticatedResponse = {};
 
     while (this.#continuePolling) {
       authResponse = await this.#poll();
+      signal?.throwIfAborted();
+
       const { status } = authResponse;
 
-      switch (status) {
-        // Should never happen, IDaaS would throw before this is reached
-        case undefined: {
-          throw new Error("The method of authentication requires a user response.");
-        }
-        // Continue polling, wait for user to authenticate
-        case "NO_RESPONSE": {
-          break;
-        }
-        // Stop polling, return the api response
-        default: {
+      // Should never happen, IDaaS would throw before this is reached
+      if (status === undefined) {
+        throw new Error("The method of authentication requires a user response.");
+      }
+
+      try {
+        onStatus?.(status);
+      } catch (error) {
+        reportError(error);
+      }
+
+      // Stop polling, return the api response
+      if (status !== "NO_RESPONSE") {
+        this.#continuePolling = false;
+        break;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        this.#continuePolling = false;
+        throw new TimeoutError("The user did not respond to the authentication challenge in time");
+      }
+
+      // Wait for the user to authenticate
+      try {
+        await this.#wait(Math.min(interval, remaining), signal);
+      } catch (error) {
+        if (signal?.aborted) {
           this.#continuePolling = false;
-          break;
+          throw error;
         }
+        break;
       }
-
-      // wait 1 second between requests
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      interval = Math.min(interval * backoff, MAX_POLL_INTERVAL_MS);
     }
 
     if (authResponse.authenticationCompleted) {
@@ -462,6 +616,39 @@ export class AuthenticationTransaction {
     return authResponse;
   }
 
+  /**
+   * Waits between two polls, rejects with the abort reason once polling is aborted or cancelled.
+   */
+  #wait(ms: number, signal?: AbortSignal): Promise<void> {
+    const signals = [signal, this.#abortController?.signal].filter((s): s is AbortSignal => s !== undefined);
+
+    return new Promise((resolve, reject) => {
+      const aborted = signals.find((s) => s.aborted);
+      if (aborted) {
+        reject(aborted.reason);
+        return;
+      }
+
+      const settle = (abortedSignal?: AbortSignal) => {
+        clearTimeout(timeout);
+        for (const s of signals) {
+          s.removeEventListener("abort", onAbort);
+        }
+        if (abortedSignal) {
+          reject(abortedSignal.reason);
+        } else {
+          resolve();
+        }
+      };
+      const onAbort = (event: Event) => settle(event.target as AbortSignal);
+      const timeout = setTimeout(() => settle(), ms);
+
+      for (const s of signals) {
+        s.addEventListener("abort", onAbort);
+      }
+    });
+  }
+
   /**
    * Cancels an authentication challenge received from the IDaaS Authentication API.
    */
@@ -470,7 +657,7 @@ export class AuthenticationTransaction {
     const token = this.#token;
 
     if (!(token && method)) {
-      throw new Error("error parsing authentication params");
+      throw new TransactionStateError("error parsing authentication params");
     }
 
     if (this.#abortController) {
@@ -502,11 +689,11 @@ export class AuthenticationTransaction {
     const { method, secondFactor } = this.#authenticationDetails;
     const token = this.#token;
     if (!this.#requiredDetails) {
-      throw new Error("Jwt params not initialized");
+      throw new TransactionStateError("Jwt params not initialized");
     }
 
     if (!method) {
-      throw new Error("error parsing authentication params");
+      throw new TransactionStateError("error parsing authentication params");
     }
 
     const requestBody: UserChallengeParameters = {
@@ -518,7 +705,7 @@ export class AuthenticationTransaction {
 
     if (this.#isSecondFactor) {
       if (!(secondFactor && token)) {
-        throw new Error("Error parsing authentication params");
+        throw new TransactionStateError("Error parsing authentication params");
       }
 
       requestBody.secondFactorAuthenticator = secondFactor;
@@ -534,7 +721,7 @@ export class AuthenticationTransaction {
         break;
       case "FIDO":
       case "PASSKEY":
-        requestBody.rpId = window.location.hostname;
+        requestBody.rpId = this.#context.getRpId();
         break;
       case "TOKENPUSH":
         requestBody.pushMutualChallengeEnabled =
@@ -560,7 +747,7 @@ export class AuthenticationTransaction {
   ): UserAuthenticateParameters => {
     const { secondFactor } = this.#authenticationDetails;
     if (!this.#requiredDetails) {
-      throw new Error("Required details not initialized");
+      throw new TransactionStateError("Required details not initialized");
     }
 
     const requestBody: UserAuthenticateParameters = {
@@ -572,7 +759,7 @@ export class AuthenticationTransaction {
 
     if (this.#isSecondFactor) {
       if (!secondFactor) {
-        throw new Error("Error parsing authentication params");
+        throw new TransactionStateError("Error parsing authentication params");
       }
       requestBody.secondFactorAuthenticator = secondFactor;
     }
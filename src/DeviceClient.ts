@@ -0,0 +1,270 @@
+import { type DeviceCodeTokenRequest, requestDeviceAuthorization, requestToken, type TokenResponse } from "./api";
+import { DiscoveryError, OAuthError, TimeoutError, TransactionStateError } from "./errors";
+import type { IdaasContext } from "./IdaasContext";
+import type { DeviceAuthorization, DeviceLoginResult, TokenOptions, UserClaims } from "./models";
+import { type AccessToken, type StorageManager, type TokenParams, toTokenDetails } from "./storage/StorageManager";
+import { calculateEpochExpiry, toResourceList } from "./utils/format";
+import { readAccessToken, validateIdToken } from "./utils/jwt";
+import { toRequestedScope } from "./utils/url";
+
+// RFC 8628: clients poll every 5 seconds unless the OP says otherwise, and 5 seconds slower after each slow_down
+const DEFAULT_POLLING_INTERVAL_SECONDS = 5;
+const SLOW_DOWN_INTERVAL_INCREMENT_SECONDS = 5;
+
+interface DeviceAuthorizationTransaction {
+  deviceCode: string;
+  expiresAt: number;
+  interval: number;
+  tokenParams: TokenParams;
+  // Aborted once the authorization is cancelled or replaced, ends the wait of a pending poll()
+  abortController: AbortController;
+}
+
+/**
+ * OAuth 2.0 Device Authorization Grant (RFC 8628) client for input-constrained devices.
+ *
+ * Use it on devices that cannot show the hosted login page or use WebAuthn, such as smart TVs and kiosks. The device
+ * displays a code, the user approves the login on another device, and the tokens are stored like those of any other
+ * login.
+ *
+ * Main methods:
+ * - `requestAuthorization()`: Start a device authorization and receive the code to display
+ * - `poll()`: Wait for the user to approve the authorization and store the tokens
+ * - `cancel()`: Stop the device authorization in progress
+ *
+ * @see {@link https://github.com/EntrustCorporation/idaas-auth-js/blob/main/docs/guides/device.md Device Authorization Guide}
+ */
+export class DeviceClient {
+  readonly #context: IdaasContext;
+  readonly #storageManager: StorageManager;
+  #transaction?: DeviceAuthorizationTransaction;
+
+  constructor(context: IdaasContext, storageManager: StorageManager) {
+    this.#context = context;
+    this.#storageManager = storageManager;
+  }
+
+  /**
+   * Starts a device authorization at the OP's `device_authorization_endpoint`.
+   *
+   * Display the returned `userCode` and `verificationUri` (or `verificationUriComplete`, e.g. as a QR code) to the
+   * user, then call `poll()` to wait for them to approve the login. Starting a new authorization replaces the one in
+   * progress.
+   *
+   * @param tokenOptions Token request options (audience, scope, ACR values, resource)
+   * @returns The codes and URIs to display to the user
+   * @throws {DiscoveryError} If the OP does not advertise a `device_authorization_endpoint`
+   * @throws {OAuthError} If the OP rejects the device authorization request
+   * @see {@link https://github.com/EntrustCorporation/idaas-auth-js/blob/main/docs/guides/device.md Device Authorization Guide}
+   */
+  public async requestAuthorization(tokenOptions: TokenOptions = {}): Promise<DeviceAuthorization> {
+    await this.#storageManager.ready();
+
+    const { device_authorization_endpoint } = await this.#context.getConfig();
+    if (!device_authorization_endpoint) {
+      throw new DiscoveryError("OpenID provider metadata is missing the device_authorization_endpoint");
+    }
+
+    const effectiveTokenOptions = { ...this.#context.tokenOptions, ...tokenOptions };
+    const scope = toRequestedScope(effectiveTokenOptions);
+    const resource = toResourceList(effectiveTokenOptions.resource);
+    const acrValues = (tokenOptions.acrValues ?? this.#context.tokenOptions.acrValues).trim() || undefined;
+    const audience = tokenOptions.audience ?? this.#context.tokenOptions.audience;
+
+    const { device_code, user_code, verification_uri, verification_uri_complete, expires_in, interval } =
+      await requestDeviceAuthorization(device_authorization_endpoint, {
+        client_id: this.#context.clientId,
+        scope,
+        audience,
+        acr_values: acrValues,
+        resource: resource.length > 0 ? resource : undefined,
+      });
+
+    const expiresAt = Math.floor(Date.now() / 1000) + expires_in;
+    this.cancel();
+    this.#transaction = {
+      deviceCode: device_code,
+      expiresAt,
+      interval: interval ?? DEFAULT_POLLING_INTERVAL_SECONDS,
+      tokenParams: {
+        audience,
+        scope,
+        requireIdToken: (tokenOptions.includeOpenidScope ?? this.#context.tokenOptions.includeOpenidScope) !== false,
+        acrValues,
+        resource: resource.length > 0 ? resource : undefined,
+        dpop: this.#context.getEffectiveDpopOptions(tokenOptions.dpop),
+      },
+      abortController: new AbortController(),
+    };
+
+    return {
+      userCode: user_code,
+      verificationUri: verification_uri,
+      verificationUriComplete: verification_uri_complete,
+      expiresAt,
+    };
+  }
+
+  /**
+   * Polls the token endpoint until the user approves the device authorization, then stores the tokens.
+   *
+   * Requests are sent at the `interval` returned by the OP, which is increased whenever the OP asks the client to
+   * `slow_down`. After a network error, call `poll()` again to resume polling the same authorization.
+   *
+   * @returns The new tokens' details
+   * @throws {TransactionStateError} If no device authorization is in progress or it was cancelled
+   * @throws {OAuthError} If the user denies the authorization (`access_denied`) or the OP rejects it
+   * @throws {TimeoutError} If the authorization expires before the user approves it
+   * @throws {TokenValidationError} If token validation fails
+   * @see {@link https://github.com/EntrustCorporation/idaas-auth-js/blob/main/docs/guides/device.md Device Authorization Guide}
+   */
+  public async poll(): Promise<DeviceLoginResult> {
+    const transaction = this.#transaction;
+    if (!transaction) {
+      throw new TransactionStateError("No device authorization in progress!");
+    }
+
+    const { token_endpoint } = await this.#context.getConfig();
+
+    while (true) {
+      await this.#wait(transaction.interval * 1000, transaction.abortController.signal);
+
+      if (this.#transaction !== transaction) {
+        throw new TransactionStateError("The device authorization was cancelled");
+      }
+
+      if (Math.floor(Date.now() / 1000) >= transaction.expiresAt) {
+        this.#transaction = undefined;
+        throw new TimeoutError("The device authorization expired before the user approved it");
+      }
+
+      let tokenResponse: TokenResponse;
+      try {
+        tokenResponse = await this.#requestToken(token_endpoint, transaction);
+      } catch (error) {
+        if (error instanceof OAuthError && error.error === "authorization_pending") {
+          continue;
+        }
+        if (error instanceof OAuthError && error.error === "slow_down") {
+          transaction.interval += SLOW_DOWN_INTERVAL_INCREMENT_SECONDS;
+          continue;
+        }
+        // A new authorization may have been requested while the token request was pending, keep it
+        if (error instanceof OAuthError && this.#transaction === transaction) {
+          this.#transaction = undefined;
+        }
+        throw error;
+      }
+
+      // The authorization may have been cancelled or replaced while the token request was pending
+      if (this.#transaction !== transaction) {
+        throw new TransactionStateError("The device authorization was cancelled");
+      }
+
+      this.#transaction = undefined;
+      return await this.#parseAndSaveTokenResponse(tokenResponse, transaction.tokenParams);
+    }
+  }
+
+  /**
+   * Cancels the device authorization in progress, a pending `poll()` rejects right away with a `TransactionStateError`.
+   */
+  public cancel(): void {
+    this.#transaction?.abortController.abort(new TransactionStateError("The device authorization was cancelled"));
+    this.#transaction = undefined;
+  }
+
+  /**
+   * Waits between two token requests, rejects with the abort reason once the authorization is cancelled or replaced.
+   */
+  #wait(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timeout);
+        reject(signal.reason);
+      };
+      const timeout = setTimeout(() => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  async #requestToken(tokenEndpoint: string, { deviceCode, tokenParams }: DeviceAuthorizationTransaction) {
+    const tokenRequest: DeviceCodeTokenRequest = {
+      grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+      device_code: deviceCode,
+      client_id: this.#context.clientId,
+      resource: tokenParams.resource,
+    };
+
+    const dpopJwt = await this.#context.createDpopProof({
+      method: "POST",
+      uri: tokenEndpoint,
+      dpopOptions: tokenParams.dpop,
+    });
+
+    return await requestToken(tokenEndpoint, tokenRequest, dpopJwt);
+  }
+
+  /**
+   * Validates the ID token of the token response, if any, and stores the tokens.
+   */
+  async #parseAndSaveTokenResponse(tokenResponse: TokenResponse, tokenParams: TokenParams): Promise<DeviceLoginResult> {
+    const { access_token, refresh_token, expires_in, id_token, token_type } = tokenResponse;
+    const { audience, scope, dpop, resource, acrValues, requireIdToken } = tokenParams;
+
+    let idTokenClaims: UserClaims | null = null;
+    if (id_token || requireIdToken) {
+      const { id_token_signing_alg_values_supported, acr_values_supported } = await this.#context.getConfig();
+      const { idToken, decodedJwt } = await validateIdToken({
+        idToken: id_token,
+        issuer: this.#context.issuerUrl,
+        clientId: this.#context.clientId,
+        idTokenSigningAlgValuesSupported: id_token_signing_alg_values_supported,
+        allowedIdTokenSigningAlgorithms: this.#context.allowedIdTokenSigningAlgorithms,
+        acrValuesSupported: acr_values_supported,
+        jwks: this.#context.getJwks(),
+        requestedAcrValues: acrValues?.split(" ").filter(Boolean),
+      });
+      this.#storageManager.saveIdToken({ encoded: idToken, decoded: decodedJwt });
+      idTokenClaims = decodedJwt as UserClaims;
+    }
+
+    const authTime = readAccessToken(access_token)?.auth_time;
+    const isDpopBound = token_type.toLowerCase() === "dpop";
+    if (isDpopBound && !dpop?.alg) {
+      throw new Error("DPoP-bound token response received without DPoP key material");
+    }
+
+    const newAccessToken: AccessToken = {
+      refreshToken: refresh_token,
+      accessToken: access_token,
+      expiresAt: calculateEpochExpiry(expires_in, authTime),
+      audience,
+      scope,
+      acr: readAccessToken(access_token)?.acr ?? undefined,
+      dpopBound: isDpopBound,
+      dpopKeyRef: isDpopBound && dpop ? await this.#context.persistCurrentDpopKeyMaterialForAlg(dpop.alg) : undefined,
+      resource,
+      grantedResources: resource,
+    };
+    this.#storageManager.saveAccessToken(newAccessToken);
+    this.#storageManager.broadcastSessionChange("login");
+
+    this.#context.events.emit("login", { flow: "device", token: toTokenDetails(newAccessToken) });
+
+    return {
+      idTokenClaims,
+      scope: tokenResponse.scope ?? scope,
+      accessToken: access_token,
+    };
+  }
+}
@@ -1,16 +1,37 @@
 import type { JWTPayload } from "jose";
 import { AuthClient } from "./AuthClient";
 import { getUserInfo, type RefreshTokenRequest, requestToken, type TokenResponse } from "./api";
+import { DeviceClient } from "./DeviceClient";
+import { TokenValidationError, TransactionStateError } from "./errors";
 import { IdaasContext, type NormalizedTokenOptions } from "./IdaasContext";
-import type { DpopHeadersOptions, IdaasClientOptions, TokenOptions, UserClaims } from "./models";
+import type {
+  DpopHeadersOptions,
+  IdaasClientOptions,
+  IdaasEvent,
+  IdaasEventMap,
+  RevokeTokensOptions,
+  SessionChangeType,
+  TokenDetails,
+  TokenExchangeOptions,
+  TokenOptions,
+  TokenRefreshOptions,
+  TokenSelector,
+  UserClaims,
+} from "./models";
 import { OidcClient } from "./OidcClient";
 import { RbaClient } from "./RbaClient";
-import { type AccessToken, StorageManager } from "./storage/StorageManager";
+import { type AccessToken, StorageManager, toTokenDetails } from "./storage/StorageManager";
+import { TokenRefreshScheduler } from "./TokenRefreshScheduler";
 import { cleanupPersistedDpopKeyMaterialBestEffort } from "./utils/dpopCleanup";
-import { calculateEpochExpiry } from "./utils/format";
+import { calculateEpochExpiry, toResourceList } from "./utils/format";
 import { readAccessToken, validateUserInfoToken } from "./utils/jwt";
+import { withLock } from "./utils/locks";
+import { revokeStoredTokens } from "./utils/revocation";
 import { parseStepUpChallenge } from "./utils/wwwAuthenticate";
 
+// RFC 8693: the default type of the subject and actor tokens of a token exchange
+const ACCESS_TOKEN_TYPE = "urn:ietf:params:oauth:token-type:access_token";
+
 /**
  * A validated token response, contains the TokenResponse as well as the decoded and encoded id token.
  */
@@ -32,6 +53,12 @@ export class IdaasClient {
   readonly #oidcClient: OidcClient;
   readonly #rbaClient: RbaClient;
   readonly #authClient: AuthClient;
+  readonly #deviceClient: DeviceClient;
+  #tokenRefreshScheduler?: TokenRefreshScheduler;
+  // In-flight refreshes keyed by the stored access token they refresh or mint from, followed by the requested resources
+  readonly #inFlightRefreshes = new Map<string, Promise<string>>();
+  // Refreshes of every tab sharing this client's storage are serialized with this Web Lock
+  readonly #refreshLockName: string;
 
   /**
    * Creates a new IdaasClient instance for handling OIDC authentication flows.
@@ -40,10 +67,30 @@ export class IdaasClient {
    * @param tokenOptions Default token options including audience, scope, and refresh token settings
    */
   constructor(
-    { issuerUrl, clientId, storageType = "memory", allowedIdTokenSigningAlgorithms }: IdaasClientOptions,
+    {
+      issuerUrl,
+      clientId,
+      storageType = "memory",
+      storage,
+      storageNamespace = clientId,
+      encryptStorage = false,
+      allowedIdTokenSigningAlgorithms,
+      metadata,
+      discoveryCacheTtl,
+      jwks,
+      jwksCacheTtl,
+      environment,
+    }: IdaasClientOptions,
     tokenOptions: TokenOptions = {},
   ) {
-    this.#storageManager = new StorageManager(clientId, storageType);
+    this.#storageManager = new StorageManager(
+      storageNamespace,
+      storageType,
+      storage,
+      encryptStorage,
+      environment?.crypto,
+    );
+    this.#refreshLockName = `idaas-auth-js.${storageNamespace}.refresh`;
 
     // Normalize token options with defaults (audience remains optional per OIDC spec)
     const normalizedTokenOptions: NormalizedTokenOptions = {
@@ -52,7 +99,9 @@ export class IdaasClient {
       useRefreshToken: tokenOptions.useRefreshToken ?? false,
       maxAge: tokenOptions.maxAge,
       acrValues: tokenOptions.acrValues ?? "",
+      resource: tokenOptions.resource,
       includeOpenidScope: tokenOptions.includeOpenidScope ?? true,
+      requirePushedAuthorizationRequests: tokenOptions.requirePushedAuthorizationRequests ?? false,
       dpop: tokenOptions.dpop
         ? {
             alg: tokenOptions.dpop.alg,
@@ -66,12 +115,26 @@ export class IdaasClient {
       clientId,
       tokenOptions: normalizedTokenOptions,
       allowedIdTokenSigningAlgorithms,
+      metadata,
+      discoveryCacheTtl,
+      jwks,
+      jwksCacheTtl,
+      environment,
+      storageManager: this.#storageManager,
     });
 
     // Initialize clients with this.#context instance as the context provider
     this.#oidcClient = new OidcClient(this.#context, this.#storageManager);
     this.#rbaClient = new RbaClient(this.#context, this.#storageManager);
     this.#authClient = new AuthClient(this.#rbaClient);
+    this.#deviceClient = new DeviceClient(this.#context, this.#storageManager);
+
+    this.#storageManager.onSessionChange((type) => {
+      if (type === "logout") {
+        // Key material cached for this tab belongs to the session that was just ended
+        void this.#context.clearDpopKeyMaterial();
+      }
+    });
   }
 
   // Public API exposing the client instances
@@ -86,6 +149,7 @@ export class IdaasClient {
    * - `login(options?, tokenOptions?)` - Initiate login via redirect or popup
    * - `logout(options?)` - Log user out with optional redirect
    * - `handleRedirect()` - Process OAuth callback after redirect
+   * - `handleLogoutRedirect()` - Validate the return from a logout redirect
    *
    * @see {@link https://github.com/EntrustCorporation/idaas-auth-js/blob/main/docs/guides/oidc.md OIDC Guide}
    */
@@ -145,6 +209,23 @@ export class IdaasClient {
     return this.#authClient;
   }
 
+  /**
+   * Provides access to OAuth 2.0 Device Authorization Grant (RFC 8628) methods.
+   *
+   * Use this on input-constrained devices, such as smart TVs and kiosks, that cannot show the hosted login page. The
+   * user approves the login on another device by entering the code displayed by your application.
+   *
+   * Available methods:
+   * - `requestAuthorization(tokenOptions?)` - Start a device authorization and get the code to display
+   * - `poll()` - Wait for the user to approve the authorization and store the tokens
+   * - `cancel()` - Cancel the device authorization in progress
+   *
+   * @see {@link https://github.com/EntrustCorporation/idaas-auth-js/blob/main/docs/guides/device.md Device Authorization Guide}
+   */
+  public get device() {
+    return this.#deviceClient;
+  }
+
   /**
    * @private used to access the storage manager for testing purposes.
    */
@@ -152,6 +233,19 @@ export class IdaasClient {
     return this.#storageManager;
   }
 
+  /**
+   * Resolves once stored tokens have been loaded.
+   *
+   * Only needed with asynchronous storage (`storageType: "indexeddb"`, `encryptStorage`, or an asynchronous custom
+   * `storage` adapter), which is read in the background after the client is created. Await this before calling synchronous methods such as
+   * `isAuthenticated()` or `getIdTokenClaims()`; asynchronous methods wait for it on their own.
+   *
+   * @throws Error if the storage could not be read
+   */
+  public async ready(): Promise<void> {
+    await this.#storageManager.ready();
+  }
+
   /**
    * Checks if the user is currently authenticated by verifying the presence of a valid ID token.
    *
@@ -161,6 +255,48 @@ export class IdaasClient {
     return !!this.#storageManager.getIdToken();
   }
 
+  /**
+   * Registers a listener for an SDK event, for example to keep UI state in sync without polling `isAuthenticated()`.
+   *
+   * ```typescript
+   * idaas.on("login", ({ token }) => showSignedIn(token.scope));
+   * idaas.on("refreshFailed", ({ error }) => console.warn(error));
+   * ```
+   *
+   * A listener that throws is reported as an uncaught error, or logged where the runtime has no `reportError`, and does
+   * not affect the operation that emitted the event.
+   *
+   * @param event The event to listen for, see {@link IdaasEventMap} for all events and their payloads
+   * @param listener Called with the event payload
+   * @returns A function that removes the listener
+   */
+  public on<E extends IdaasEvent>(event: E, listener: (payload: IdaasEventMap[E]) => void): () => void {
+    return this.#context.events.on(event, listener);
+  }
+
+  /**
+   * Removes a listener registered with `on()`.
+   *
+   * @param event The event the listener was registered for
+   * @param listener The listener to remove
+   */
+  public off<E extends IdaasEvent>(event: E, listener: (payload: IdaasEventMap[E]) => void): void {
+    this.#context.events.off(event, listener);
+  }
+
+  /**
+   * Registers a listener that is notified when another tab logs in, refreshes a token, or logs out.
+   *
+   * Only applies to `storageType: "localstorage"` and `"indexeddb"`, where tabs share one session. Use it to keep UI state
+   * in sync, for example by returning to a signed-out view when another tab logs out.
+   *
+   * @param listener Called with the type of change made by the other tab
+   * @returns A function that removes the listener
+   */
+  public onSessionChange(listener: (type: SessionChangeType) => void): () => void {
+    return this.#storageManager.onSessionChange(listener);
+  }
+
   /**
    * Retrieves decoded ID token claims containing user information.
    *
@@ -182,25 +318,35 @@ export class IdaasClient {
    * Retrieves a cached access token matching the specified criteria.
    *
    * If the token is expired and a refresh token is available (subject to tenant configuration),
-   * the SDK automatically performs a token refresh.
+   * the SDK automatically performs a token refresh. Concurrent calls that need the same refresh share a single
+   * token request, and tabs sharing `localstorage` or `indexeddb` storage never redeem the same refresh token twice.
    *
-   * @param options Token options to match (audience, scope, acrValues)
-   * @returns Access token string, or `null` when no matching session exists
+   * When `resource` is given and no stored token was issued for it, a token for the resource is minted with the
+   * refresh token of a login that was granted it (RFC 8707) and stored next to the login's token.
+   *
+   * @param options Token options to match (audience, scope, acrValues, resource)
+   * @returns Access token string
+   * @throws {TransactionStateError} If no stored token matches the options and none can be minted for `resource`
    * @throws Error if the refresh/token exchange fails
    */
   public async getAccessToken({
     audience = this.#context.tokenOptions.audience,
     scope = this.#context.tokenOptions.scope,
     acrValues = "",
+    resource = this.#context.tokenOptions.resource,
     dpop,
-  }: TokenOptions = {}): Promise<string | null> {
+  }: TokenOptions = {}): Promise<string> {
+    await this.#storageManager.ready();
     const effectiveDpopOptions = this.#context.getEffectiveDpopOptions(dpop);
+    const requestedResources = toResourceList(resource);
 
     // 1. Remove tokens that are no longer valid and clean up orphaned DPoP keys
+    const tokensBeforeCleanup = this.#storageManager.getAccessTokens();
     const orphanedDpopKeyRefs = this.#storageManager.removeExpiredTokens();
     for (const dpopKeyRef of orphanedDpopKeyRefs) {
       await cleanupPersistedDpopKeyMaterialBestEffort(dpopKeyRef);
     }
+    this.#emitExpiredTokens(tokensBeforeCleanup);
 
     let accessTokens = this.#storageManager.getAccessTokens();
     const requestedScopes = scope.split(" ");
@@ -220,6 +366,7 @@ export class IdaasClient {
 
       if (acrValues.trim().length > 0) {
         const requestedAcrValues = acrValues.split(" ").filter(Boolean);
+        const hasTokensForAudienceAndScope = accessTokens.length > 0;
 
         // Tokens that have the required audience, all scopes, and a requested acr
         accessTokens = accessTokens.filter((token) => {
@@ -229,90 +376,263 @@ export class IdaasClient {
 
           return false;
         });
+
+        // The user is signed in for this audience and scope, but has to authenticate more strongly
+        if (hasTokensForAudienceAndScope && accessTokens.length === 0) {
+          this.#context.events.emit("stepUpRequired", { tokenOptions: { audience, scope, acrValues } });
+        }
       }
 
       // Sorts tokens by number of scopes in ascending order
       accessTokens.sort((token1, token2) => token1.scope.split(" ").length - token2.scope.split(" ").length);
 
+      // Tokens that were issued for all requested resources
+      const tokensForOtherResources = accessTokens;
+      accessTokens = accessTokens.filter((token) =>
+        requestedResources.every((requestedResource) => token.resource?.includes(requestedResource)),
+      );
+
+      // No token was issued for the requested resources, mint one with the refresh token of a login granted them
+      if (!accessTokens[0] && requestedResources.length > 0) {
+        const sourceToken = tokensForOtherResources.find(
+          (token) =>
+            !!token.refreshToken &&
+            requestedResources.every((requestedResource) => token.grantedResources?.includes(requestedResource)),
+        );
+
+        if (sourceToken) {
+          return await this.#mintResourceAccessToken(sourceToken, requestedResources, dpop);
+        }
+      }
+
       // 3. Taking the token with the fewest number of scopes:
       // - If the token is not expired, return it
       // - If the token is expired but refreshable, refresh it, remove it from storage, store the refreshed token, then return the refreshed token
       if (accessTokens[0]) {
         const requestedToken = accessTokens[0];
-        const { refreshToken, accessToken, expiresAt, scope, audience, acr } = requestedToken;
-        const expDate = (expiresAt - buffer) * 1000;
+        const expDate = (requestedToken.expiresAt - buffer) * 1000;
 
         // Token not expired
         if (expDate > now) {
-          return accessToken;
+          return requestedToken.accessToken;
         }
 
-        if (!refreshToken) {
+        if (!requestedToken.refreshToken) {
           throw new Error("Token that is not valid was not removed");
         }
 
-        let refreshDpopKeyRef: string | undefined;
-        if (requestedToken.dpopBound) {
-          if (!requestedToken.dpopKeyRef) {
-            throw new Error("DPoP-bound token refresh requires stored DPoP key material reference.");
-          }
-          refreshDpopKeyRef = requestedToken.dpopKeyRef;
-        }
+        return await this.#refreshAccessToken(requestedToken, dpop);
+      }
+    }
 
-        const {
-          refresh_token: newRefreshToken,
-          access_token: newEncodedAccessToken,
-          expires_in,
-          token_type,
-        } = await this.#requestTokenUsingRefreshToken(
-          refreshToken,
-          {
-            dpop: requestedToken.dpopBound ? undefined : effectiveDpopOptions,
-          },
-          refreshDpopKeyRef,
-        );
+    throw new TransactionStateError("Requested token not found");
+  }
 
-        const newDpopBound = token_type.toLowerCase() === "dpop";
-        let newDpopKeyRef: string | undefined;
-        if (newDpopBound) {
-          newDpopKeyRef = requestedToken.dpopKeyRef;
+  /**
+   * Exchanges a token for a token scoped to another service, e.g. a downstream API called by your gateway, at the
+   * OP's token endpoint (RFC 8693).
+   *
+   * The stored access token of your default `TokenOptions` is exchanged unless a `subjectToken` is given. The token
+   * request is sent with a DPoP proof when the exchanged token is a DPoP-bound stored token. When the OP issues an
+   * access token, it is stored under `audience` and can then be retrieved with `getAccessToken({ audience, scope })`.
+   * Other issued token types, e.g. a JWT or an ID token, are only returned.
+   *
+   * @param options The token to exchange and the audience, scope, and type of the requested token
+   * @returns The new encoded token
+   * @throws {TransactionStateError} If no `subjectToken` is given and no access token is stored, or the stored
+   * DPoP-bound token has no DPoP key material
+   * @throws {OAuthError} If the OP rejects the token exchange
+   * @throws {TokenValidationError} If the OP issues a DPoP-bound token for a subject token that is not DPoP-bound
+   * @see {@link https://datatracker.ietf.org/doc/html/rfc8693 RFC 8693}
+   */
+  public async exchangeToken({
+    subjectToken,
+    subjectTokenType = ACCESS_TOKEN_TYPE,
+    audience,
+    scope,
+    requestedTokenType,
+    actorToken,
+    actorTokenType = ACCESS_TOKEN_TYPE,
+  }: TokenExchangeOptions): Promise<string> {
+    await this.#storageManager.ready();
 
-          if (!newDpopKeyRef) {
-            const effectiveDpopOptions = this.#context.getEffectiveDpopOptions(dpop);
-            if (!effectiveDpopOptions) {
-              throw new Error("DPoP-bound token response received without DPoP key material");
-            }
+    const effectiveSubjectToken = subjectToken ?? (await this.getAccessToken());
+    if (!effectiveSubjectToken) {
+      throw new TransactionStateError("Requested token not found");
+    }
 
-            newDpopKeyRef = await this.#context.persistCurrentDpopKeyMaterialForAlg(effectiveDpopOptions.alg);
-          }
-        }
+    // A DPoP-bound subject token is exchanged with a proof of its own key
+    const subjectAccessToken = this.#storageManager
+      .getAccessTokens()
+      .find((token) => token.accessToken === effectiveSubjectToken);
+    const dpopKeyRef = subjectAccessToken?.dpopBound ? subjectAccessToken.dpopKeyRef : undefined;
+    if (subjectAccessToken?.dpopBound && !dpopKeyRef) {
+      throw new TransactionStateError("DPoP-bound token exchange requires stored DPoP key material reference.");
+    }
 
-        const authTime = readAccessToken(newEncodedAccessToken)?.auth_time;
-        const newExpiration = calculateEpochExpiry(expires_in, authTime);
-
-        // the refreshed access token to be stored, maintaining expired token's scope, audience, and DPoP binding
-        const newAccessToken: AccessToken = {
-          accessToken: newEncodedAccessToken,
-          refreshToken: newRefreshToken,
-          expiresAt: newExpiration,
-          audience,
-          scope,
-          acr,
-          dpopBound: newDpopBound,
-          dpopKeyRef: newDpopKeyRef,
-        };
-
-        const orphanedDpopKeyRef = this.#storageManager.removeAccessToken(requestedToken);
-        if (orphanedDpopKeyRef && orphanedDpopKeyRef !== newDpopKeyRef) {
-          await cleanupPersistedDpopKeyMaterialBestEffort(orphanedDpopKeyRef);
-        }
+    const { token_endpoint } = await this.#context.getConfig();
+    const dpopJwt = dpopKeyRef
+      ? await this.#context.createDpopProofForKeyRef({ method: "POST", uri: token_endpoint, dpopKeyRef })
+      : undefined;
 
-        this.#storageManager.saveAccessToken(newAccessToken);
-        return newEncodedAccessToken;
-      }
+    const {
+      access_token,
+      refresh_token,
+      expires_in,
+      token_type,
+      scope: grantedScope,
+      issued_token_type,
+    } = await requestToken(
+      token_endpoint,
+      {
+        grant_type: "urn:ietf:params:oauth:grant-type:token-exchange",
+        client_id: this.#context.clientId,
+        subject_token: effectiveSubjectToken,
+        subject_token_type: subjectTokenType,
+        audience,
+        scope,
+        requested_token_type: requestedTokenType,
+        actor_token: actorToken,
+        actor_token_type: actorToken ? actorTokenType : undefined,
+      },
+      dpopJwt,
+    );
+
+    const dpopBound = token_type.toLowerCase() === "dpop";
+    if (dpopBound && !dpopKeyRef) {
+      throw new TokenValidationError("DPoP-bound token response received without DPoP key material");
+    }
+
+    // Only access tokens can be used, and so stored, like the tokens of a login
+    if (issued_token_type !== ACCESS_TOKEN_TYPE) {
+      return access_token;
+    }
+
+    const decodedAccessToken = readAccessToken(access_token);
+    const exchangedToken: AccessToken = {
+      accessToken: access_token,
+      refreshToken: refresh_token,
+      expiresAt: calculateEpochExpiry(expires_in, decodedAccessToken?.auth_time),
+      audience,
+      scope: grantedScope ?? scope ?? "",
+      maxAgeExpiry: subjectAccessToken?.maxAgeExpiry,
+      acr: decodedAccessToken?.acr ?? subjectAccessToken?.acr,
+      dpopBound,
+      dpopKeyRef: dpopBound ? dpopKeyRef : undefined,
+    };
+    this.#storageManager.saveAccessToken(exchangedToken);
+    this.#storageManager.broadcastSessionChange("refresh");
+
+    return access_token;
+  }
+
+  /**
+   * Starts refreshing stored access tokens in the background, ahead of their expiry.
+   *
+   * Every stored token that has a refresh token is refreshed `leadTimeSeconds` before it expires, so API calls
+   * made with the result of `getAccessToken()` are not sent with a token that expires mid-flight. Refreshes are
+   * paused while the page is hidden and any overdue refreshes run as soon as the page becomes visible again or the
+   * browser comes back online.
+   *
+   * Calling this method while the scheduler is running restarts it with the new options.
+   *
+   * @param options Lead time, jitter, and error handling for background refreshes
+   */
+  public startTokenRefresh(options: TokenRefreshOptions = {}): void {
+    this.stopTokenRefresh();
+
+    this.#tokenRefreshScheduler = new TokenRefreshScheduler({
+      ...options,
+      storageManager: this.#storageManager,
+      refresh: async (token) => await this.#refreshAccessToken(token),
+    });
+    this.#tokenRefreshScheduler.start();
+  }
+
+  /**
+   * Stops the background token refresh started with `startTokenRefresh()`.
+   * Tokens are still refreshed on demand by `getAccessToken()`.
+   */
+  public stopTokenRefresh(): void {
+    this.#tokenRefreshScheduler?.stop();
+    this.#tokenRefreshScheduler = undefined;
+  }
+
+  /**
+   * Releases a client that is no longer used: stops the background token refresh, stops listening to session changes
+   * of other tabs, and removes every event listener. The stored session is kept.
+   */
+  public dispose(): void {
+    this.stopTokenRefresh();
+    this.#storageManager.dispose();
+    this.#context.events.clear();
+  }
+
+  /**
+   * Revokes the stored tokens issued for an audience and removes them from storage, for example when the user
+   * disconnects an API from their account. Other tokens and the login session are left untouched.
+   *
+   * Refresh tokens, and by default access tokens, are revoked at the OP's `revocation_endpoint` (RFC 7009). If any
+   * revocation fails nothing is removed, so the call can be retried.
+   *
+   * @param options The audience of the tokens to revoke and whether to revoke access tokens as well
+   * @throws Error if the OP does not advertise a `revocation_endpoint` or a revocation request fails
+   * @see {@link https://datatracker.ietf.org/doc/html/rfc7009 RFC 7009}
+   */
+  public async revokeTokens({
+    audience = this.#context.tokenOptions.audience,
+    revokeAccessTokens = true,
+  }: RevokeTokensOptions = {}): Promise<void> {
+    await this.#storageManager.ready();
+
+    const tokens = this.#storageManager.getAccessTokens().filter((token) => token.audience === audience);
+    await revokeStoredTokens(this.#context, tokens, { revokeAccessTokens });
+
+    for (const token of tokens) {
+      const orphanedDpopKeyRef = this.#storageManager.removeAccessToken(token);
+      await cleanupPersistedDpopKeyMaterialBestEffort(orphanedDpopKeyRef);
     }
+  }
 
-    throw new Error("Requested token not found");
+  /**
+   * Lists every stored access token, including expired ones that have not been cleaned up yet.
+   *
+   * The details describe each token (audience, scope, acr, expiry, DPoP binding, and whether it can be refreshed)
+   * without exposing the token itself.
+   *
+   * @returns The details of each stored token
+   */
+  public async getTokens(): Promise<TokenDetails[]> {
+    await this.#storageManager.ready();
+
+    return this.#storageManager.getAccessTokens().map(toTokenDetails);
+  }
+
+  /**
+   * Lists the stored access tokens matching the selector, see `getTokens()`.
+   *
+   * @param selector The audience, scopes, and acr values of the tokens to describe
+   * @returns The details of each matching token
+   */
+  public async getTokenDetails(selector: TokenSelector = {}): Promise<TokenDetails[]> {
+    await this.#storageManager.ready();
+
+    return this.#selectStoredTokens(selector).map(toTokenDetails);
+  }
+
+  /**
+   * Removes the stored access tokens matching the selector, along with their refresh tokens and any DPoP key
+   * material no other token uses. The tokens are not revoked at the OP, use `revokeTokens()` for that.
+   *
+   * @param selector The audience, scopes, and acr values of the tokens to remove
+   */
+  public async removeToken(selector: TokenSelector = {}): Promise<void> {
+    await this.#storageManager.ready();
+
+    for (const token of this.#selectStoredTokens(selector)) {
+      const orphanedDpopKeyRef = this.#storageManager.removeAccessToken(token);
+      await cleanupPersistedDpopKeyMaterialBestEffort(orphanedDpopKeyRef);
+    }
   }
 
   /**
@@ -325,9 +645,10 @@ export class IdaasClient {
    * returned from the userinfo endpoint. If not provided, the access token with default scopes and
    * audience will be used if available.
    * @returns User claims from the OpenID Provider, or `null` if unavailable
+   * @throws {OAuthError} If the OP rejects the access token, e.g. with `invalid_token`
    */
   public async getUserInfo(accessToken?: string, tokenOptions: TokenOptions = {}): Promise<UserClaims | null> {
-    const { userinfo_endpoint, issuer, jwks_uri } = await this.#context.getConfig();
+    const { userinfo_endpoint, issuer } = await this.#context.getConfig();
 
     const userInfoAccessToken = accessToken ?? (await this.getAccessToken(tokenOptions));
 
@@ -335,6 +656,7 @@ export class IdaasClient {
       throw new Error("Client is not authorized to access the UserInfo endpoint");
     }
 
+    await this.#storageManager.ready();
     const matchedStoredToken = this.#storageManager
       .getAccessTokens()
       .find((storedToken) => storedToken.accessToken === userInfoAccessToken);
@@ -382,7 +704,7 @@ export class IdaasClient {
     claims = await validateUserInfoToken({
       userInfoToken: userInfo,
       clientId: this.#context.clientId,
-      jwksEndpoint: jwks_uri,
+      jwks: this.#context.getJwks(),
       issuer,
     });
 
@@ -431,6 +753,7 @@ export class IdaasClient {
       throw new Error("Client is not authorized to access the protected resource");
     }
 
+    await this.#storageManager.ready();
     const matchedStoredToken = this.#storageManager
       .getAccessTokens()
       .find((storedToken) => storedToken.accessToken === selectedAccessToken);
@@ -489,7 +812,261 @@ export class IdaasClient {
       throw new Error("Response does not contain a WWW-Authenticate header");
     }
 
-    return parseStepUpChallenge(wwwAuthenticate);
+    const tokenOptions = parseStepUpChallenge(wwwAuthenticate);
+    this.#context.events.emit("stepUpRequired", { tokenOptions });
+    return tokenOptions;
+  }
+
+  /**
+   * Exchanges the refresh token of a stored access token for a new access token, replacing the stored entry.
+   * The refreshed token keeps the scope, audience, and acr of the token it replaces.
+   *
+   * Concurrent refreshes of the same stored token share a single request. Tokens minted for other resources share
+   * the refresh token of their source token, so refreshes are serialized with a Web Lock, within and across tabs, and
+   * always redeem the refresh token currently stored for the entry. A rotated refresh token is never redeemed twice.
+   * @returns The new encoded access token
+   */
+  async #refreshAccessToken(requestedToken: AccessToken, dpop?: TokenOptions["dpop"]): Promise<string> {
+    if (!requestedToken.refreshToken) {
+      throw new Error("Token is not refreshable");
+    }
+
+    const inFlightKey = `${requestedToken.accessToken} ${(requestedToken.resource ?? []).join(" ")}`;
+    const inFlightRefresh = this.#inFlightRefreshes.get(inFlightKey);
+    if (inFlightRefresh) {
+      return await inFlightRefresh;
+    }
+
+    const refresh = withLock(this.#refreshLockName, async () => {
+      // Another refresh, here or in another tab, may have replaced the entry or rotated its refresh token while we
+      // waited for the lock
+      await this.#storageManager.reloadAccessTokens();
+      const storedToken = this.#storageManager
+        .getAccessTokens()
+        .find((token) => token.accessToken === requestedToken.accessToken && token.refreshToken);
+
+      if (!storedToken) {
+        const replacement = this.#findRefreshedToken(requestedToken);
+        if (!replacement) {
+          throw new TransactionStateError("Refresh token was already redeemed and no refreshed token was stored");
+        }
+        return replacement.accessToken;
+      }
+
+      try {
+        return await this.#redeemRefreshToken(storedToken, dpop);
+      } finally {
+        // The next tab to take the lock reads the store, the rotated refresh token has to be written first
+        await this.#storageManager.settled();
+      }
+    })
+      .catch((error) => {
+        this.#context.events.emit("refreshFailed", { token: toTokenDetails(requestedToken), error });
+        throw error;
+      })
+      .finally(() => {
+        this.#inFlightRefreshes.delete(inFlightKey);
+      });
+
+    this.#inFlightRefreshes.set(inFlightKey, refresh);
+    return await refresh;
+  }
+
+  /**
+   * Uses the refresh token of a stored access token to obtain a token for other resources granted to it (RFC 8707).
+   * The minted token is stored as its own entry and the source token is kept.
+   *
+   * Minting is serialized with refreshes through the same Web Lock, so a rotated refresh token is never redeemed twice.
+   * A failure is reported with `refreshFailed` for the source token, like a failed refresh.
+   * @returns The new encoded access token
+   */
+  async #mintResourceAccessToken(
+    sourceToken: AccessToken,
+    resource: string[],
+    dpop?: TokenOptions["dpop"],
+  ): Promise<string> {
+    const inFlightKey = `${sourceToken.accessToken} ${resource.join(" ")}`;
+    const inFlightMint = this.#inFlightRefreshes.get(inFlightKey);
+    if (inFlightMint) {
+      return await inFlightMint;
+    }
+
+    const mint = withLock(this.#refreshLockName, async () => {
+      // Another tab may have minted a token for the resources while we waited for the lock
+      await this.#storageManager.reloadAccessTokens();
+      const mintedToken = this.#findRefreshedToken(sourceToken, resource);
+      if (mintedToken) {
+        return mintedToken.accessToken;
+      }
+
+      // Another tab may have rotated the refresh token while we waited for the lock
+      const currentSourceToken =
+        this.#storageManager.getAccessTokens().find((token) => token.accessToken === sourceToken.accessToken) ??
+        this.#findRefreshedToken(sourceToken, []);
+      if (!currentSourceToken?.refreshToken) {
+        throw new TransactionStateError("Refresh token was already redeemed and no refreshed token was stored");
+      }
+
+      try {
+        return await this.#redeemRefreshToken(currentSourceToken, dpop, resource);
+      } finally {
+        await this.#storageManager.settled();
+      }
+    })
+      .catch((error) => {
+        // The refresh token of the source token could not be redeemed
+        this.#context.events.emit("refreshFailed", { token: toTokenDetails(sourceToken), error });
+        throw error;
+      })
+      .finally(() => {
+        this.#inFlightRefreshes.delete(inFlightKey);
+      });
+
+    this.#inFlightRefreshes.set(inFlightKey, mint);
+    return await mint;
+  }
+
+  /**
+   * Finds the stored token that replaced the given token after it was refreshed elsewhere, or that was minted from it
+   * for `resource`.
+   */
+  #findRefreshedToken(replacedToken: AccessToken, resource = replacedToken.resource ?? []): AccessToken | undefined {
+    const now = Math.floor(Date.now() / 1000);
+    // buffer (in seconds) matches getAccessToken, ensures an expired token is not returned
+    const buffer = 15;
+
+    return this.#storageManager
+      .getAccessTokens()
+      .find(
+        (token) =>
+          token.audience === replacedToken.audience &&
+          token.scope === replacedToken.scope &&
+          token.acr === replacedToken.acr &&
+          !!token.dpopBound === !!replacedToken.dpopBound &&
+          resource.every((requestedResource) => token.resource?.includes(requestedResource)) &&
+          token.expiresAt - buffer > now,
+      );
+  }
+
+  /**
+   * Redeems the refresh token of a stored access token. The new token replaces the stored one, unless it is minted
+   * for `mintedResource`, in which case it is stored next to it.
+   */
+  async #redeemRefreshToken(
+    requestedToken: AccessToken,
+    dpop?: TokenOptions["dpop"],
+    mintedResource?: string[],
+  ): Promise<string> {
+    const { refreshToken, scope, audience, acr, grantedResources } = requestedToken;
+    const resource = mintedResource ?? requestedToken.resource;
+    if (!refreshToken) {
+      throw new Error("Token is not refreshable");
+    }
+
+    const effectiveDpopOptions = this.#context.getEffectiveDpopOptions(dpop);
+
+    let refreshDpopKeyRef: string | undefined;
+    if (requestedToken.dpopBound) {
+      if (!requestedToken.dpopKeyRef) {
+        throw new Error("DPoP-bound token refresh requires stored DPoP key material reference.");
+      }
+      refreshDpopKeyRef = requestedToken.dpopKeyRef;
+    }
+
+    const {
+      refresh_token: newRefreshToken,
+      access_token: newEncodedAccessToken,
+      expires_in,
+      token_type,
+    } = await this.#requestTokenUsingRefreshToken(
+      refreshToken,
+      {
+        dpop: requestedToken.dpopBound ? undefined : effectiveDpopOptions,
+        resource,
+      },
+      refreshDpopKeyRef,
+    );
+
+    const newDpopBound = token_type.toLowerCase() === "dpop";
+    let newDpopKeyRef: string | undefined;
+    if (newDpopBound) {
+      newDpopKeyRef = requestedToken.dpopKeyRef;
+
+      if (!newDpopKeyRef) {
+        if (!effectiveDpopOptions) {
+          throw new Error("DPoP-bound token response received without DPoP key material");
+        }
+
+        newDpopKeyRef = await this.#context.persistCurrentDpopKeyMaterialForAlg(effectiveDpopOptions.alg);
+      }
+    }
+
+    const authTime = readAccessToken(newEncodedAccessToken)?.auth_time;
+    const newExpiration = calculateEpochExpiry(expires_in, authTime);
+
+    // the refreshed access token to be stored, maintaining expired token's scope, audience, and DPoP binding
+    const newAccessToken: AccessToken = {
+      accessToken: newEncodedAccessToken,
+      refreshToken: newRefreshToken,
+      expiresAt: newExpiration,
+      audience,
+      scope,
+      acr,
+      dpopBound: newDpopBound,
+      dpopKeyRef: newDpopKeyRef,
+      resource,
+      grantedResources,
+    };
+
+    if (!mintedResource) {
+      const orphanedDpopKeyRef = this.#storageManager.removeAccessToken(requestedToken);
+      if (orphanedDpopKeyRef && orphanedDpopKeyRef !== newDpopKeyRef) {
+        await cleanupPersistedDpopKeyMaterialBestEffort(orphanedDpopKeyRef);
+      }
+    }
+
+    this.#storageManager.saveAccessToken(newAccessToken);
+    // Tokens minted for other resources share the refresh token, keep them refreshable after rotation
+    if (newRefreshToken && newRefreshToken !== refreshToken) {
+      this.#storageManager.replaceRefreshToken(refreshToken, newRefreshToken);
+    }
+    this.#storageManager.broadcastSessionChange("refresh");
+    if (!mintedResource) {
+      this.#context.events.emit("tokenRefreshed", { token: toTokenDetails(newAccessToken) });
+    }
+    return newEncodedAccessToken;
+  }
+
+  /**
+   * Finds the stored tokens for the selector's audience that have all of its scopes and one of its acr values.
+   */
+  #selectStoredTokens({
+    audience = this.#context.tokenOptions.audience,
+    scope = "",
+    acrValues = "",
+  }: TokenSelector): AccessToken[] {
+    const requestedScopes = scope.split(" ").filter(Boolean);
+    const requestedAcrValues = acrValues.split(" ").filter(Boolean);
+
+    return this.#storageManager.getAccessTokens().filter((token) => {
+      const tokenScopes = token.scope.split(" ");
+      const hasScopes = requestedScopes.every((requestedScope) => tokenScopes.includes(requestedScope));
+      const hasAcr = requestedAcrValues.length === 0 || (!!token.acr && requestedAcrValues.includes(token.acr));
+
+      return token.audience === audience && hasScopes && hasAcr;
+    });
+  }
+
+  /**
+   * Emits `sessionExpired` for every token of `tokensBeforeCleanup` that is no longer stored.
+   */
+  #emitExpiredTokens(tokensBeforeCleanup: AccessToken[]) {
+    const remaining = new Set(this.#storageManager.getAccessTokens().map((token) => token.accessToken));
+    for (const token of tokensBeforeCleanup) {
+      if (!remaining.has(token.accessToken)) {
+        this.#context.events.emit("sessionExpired", { token: toTokenDetails(token) });
+      }
+    }
   }
 
   // Service methods for OidcClient and RbaClient
@@ -506,6 +1083,11 @@ export class IdaasClient {
       refresh_token: refreshToken,
     };
 
+    const resource = toResourceList(tokenOptions.resource);
+    if (resource.length > 0) {
+      tokenRequest.resource = resource;
+    }
+
     let dpopJwt: string | undefined;
     if (dpopKeyRef) {
       try {
@@ -1,5 +1,9 @@
-import { fetchOpenidConfiguration, type OidcConfig } from "./api";
-import type { TokenOptions } from "./models";
+import { createLocalJWKSet, errors, type JSONWebKeySet, type JWTVerifyGetKey } from "jose";
+import { fetchJwks, fetchOpenidConfiguration, type OidcConfig, validateOidcConfig } from "./api";
+import { IdaasEventEmitter } from "./IdaasEventEmitter";
+import type { IdaasEnvironment, TokenOptions } from "./models";
+import type { StorageManager } from "./storage/StorageManager";
+import { getCrypto } from "./utils/crypto";
 import { type DPoPAlg, type DPoPKeyMaterial, generateDpopKeyMaterial, generateDpopProofJwt } from "./utils/dpop";
 import { cleanupPersistedDpopKeyMaterialBestEffort } from "./utils/dpopCleanup";
 import { persistDpopKeyMaterial, retrievePersistedDpopKeyMaterial } from "./utils/dpopKeyStore";
@@ -11,13 +15,16 @@ export interface NormalizedDpopOptions {
 
 /**
  * Normalized token options with defaults applied.
- * All properties except audience & maxAge are required.
+ * All properties except audience, maxAge & resource are required.
  */
-export type NormalizedTokenOptions = Required<Omit<TokenOptions, "audience" | "maxAge" | "dpop">> &
-  Pick<TokenOptions, "audience" | "maxAge" | "dpop"> & {
+export type NormalizedTokenOptions = Required<Omit<TokenOptions, "audience" | "maxAge" | "resource" | "dpop">> &
+  Pick<TokenOptions, "audience" | "maxAge" | "resource" | "dpop"> & {
     dpop?: NormalizedDpopOptions;
   };
 
+// The minimum time between two fetches of the OP's JWKS triggered by tokens signed with an unknown key
+const JWKS_REFETCH_COOLDOWN_SECONDS = 30;
+
 /**
  * Services class to provide shared functionality to OIDC and RBA clients
  * without exposing the entire IdaasClient implementation
@@ -27,8 +34,18 @@ export class IdaasContext {
   readonly #clientId: string;
   readonly #tokenOptions: NormalizedTokenOptions;
   readonly #allowedIdTokenSigningAlgorithms?: string[];
-
-  #config?: OidcConfig;
+  readonly #metadata?: OidcConfig;
+  readonly #discoveryCacheTtl: number;
+  readonly #pinnedJwks?: JSONWebKeySet;
+  readonly #jwksCacheTtl: number;
+  readonly #environment?: IdaasEnvironment;
+  readonly #storageManager?: StorageManager;
+
+  readonly #events = new IdaasEventEmitter();
+
+  #config?: Promise<OidcConfig>;
+  #jwks?: Promise<JWTVerifyGetKey>;
+  #jwksFetchedAt = 0;
   readonly #dpopKeyMaterialByAlg = new Map<DPoPAlg, DPoPKeyMaterial>();
 
   constructor({
@@ -36,14 +53,32 @@ export class IdaasContext {
     clientId,
     tokenOptions,
     allowedIdTokenSigningAlgorithms,
+    metadata,
+    discoveryCacheTtl = 0,
+    jwks,
+    jwksCacheTtl = 0,
+    environment,
+    storageManager,
   }: {
     issuerUrl: string;
     clientId: string;
     tokenOptions: NormalizedTokenOptions;
     allowedIdTokenSigningAlgorithms?: string[];
+    metadata?: OidcConfig;
+    discoveryCacheTtl?: number;
+    jwks?: JSONWebKeySet;
+    jwksCacheTtl?: number;
+    environment?: IdaasEnvironment;
+    storageManager?: StorageManager;
   }) {
     this.#tokenOptions = tokenOptions;
     this.#allowedIdTokenSigningAlgorithms = allowedIdTokenSigningAlgorithms;
+    this.#metadata = metadata;
+    this.#discoveryCacheTtl = discoveryCacheTtl;
+    this.#pinnedJwks = jwks;
+    this.#jwksCacheTtl = jwksCacheTtl;
+    this.#environment = environment;
+    this.#storageManager = storageManager;
     this.#issuerUrl = issuerUrl;
     this.#clientId = clientId;
   }
@@ -64,6 +99,55 @@ export class IdaasContext {
     return this.#allowedIdTokenSigningAlgorithms;
   }
 
+  /**
+   * Emits the events that applications subscribe to with `IdaasClient.on()`.
+   */
+  get events() {
+    return this.#events;
+  }
+
+  /**
+   * Returns the Web Crypto implementation of this client, from `environment.crypto` or the runtime's global `crypto`.
+   * @throws Error when neither is available
+   */
+  public get crypto(): Crypto {
+    return getCrypto(this.#environment?.crypto);
+  }
+
+  /**
+   * Returns the origin of the application, from `environment.getOrigin` or the current page.
+   * @throws Error outside the browser when no `environment.getOrigin` is provided
+   */
+  public getOrigin(): string {
+    if (this.#environment?.getOrigin) {
+      return this.#environment.getOrigin();
+    }
+
+    if (typeof window === "undefined") {
+      throw new Error("The origin is unknown outside the browser, provide it with `environment.getOrigin`.");
+    }
+    return window.location.origin;
+  }
+
+  /**
+   * Returns the WebAuthn relying party ID, from `environment.getRpId`, the hostname of the origin, or the current page.
+   * @throws Error outside the browser when neither `environment.getRpId` nor `environment.getOrigin` is provided
+   */
+  public getRpId(): string {
+    if (this.#environment?.getRpId) {
+      return this.#environment.getRpId();
+    }
+
+    if (this.#environment?.getOrigin) {
+      return new URL(this.#environment.getOrigin()).hostname;
+    }
+
+    if (typeof window === "undefined") {
+      throw new Error("The RP ID is unknown outside the browser, provide it with `environment.getRpId`.");
+    }
+    return window.location.hostname;
+  }
+
   public getEffectiveDpopOptions(dpopOptions?: TokenOptions["dpop"]): NormalizedDpopOptions | undefined {
     if (!dpopOptions) {
       return this.#tokenOptions.dpop;
@@ -112,6 +196,7 @@ export class IdaasContext {
       htm: method,
       htu: uri,
       accessToken,
+      crypto: this.crypto,
     });
   }
 
@@ -138,18 +223,22 @@ export class IdaasContext {
       htm: method,
       htu: uri,
       accessToken,
+      crypto: this.crypto,
     });
   }
 
   public async persistDpopKeyMaterialForAlg(alg: DPoPAlg): Promise<string> {
     const keyMaterial = await this.#getDpopKeyMaterial(alg);
 
-    return await persistDpopKeyMaterial({
-      alg,
-      privateKey: keyMaterial.privateKey,
-      publicJwk: keyMaterial.publicJwk,
-      jkt: keyMaterial.jkt,
-    });
+    return await persistDpopKeyMaterial(
+      {
+        alg,
+        privateKey: keyMaterial.privateKey,
+        publicJwk: keyMaterial.publicJwk,
+        jkt: keyMaterial.jkt,
+      },
+      this.crypto,
+    );
   }
 
   public async persistCurrentDpopKeyMaterialForAlg(alg: DPoPAlg): Promise<string> {
@@ -158,12 +247,15 @@ export class IdaasContext {
       throw new Error("DPoP-bound token response received before DPoP key material was created");
     }
 
-    return await persistDpopKeyMaterial({
-      alg,
-      privateKey: keyMaterial.privateKey,
-      publicJwk: keyMaterial.publicJwk,
-      jkt: keyMaterial.jkt,
-    });
+    return await persistDpopKeyMaterial(
+      {
+        alg,
+        privateKey: keyMaterial.privateKey,
+        publicJwk: keyMaterial.publicJwk,
+        jkt: keyMaterial.jkt,
+      },
+      this.crypto,
+    );
   }
 
   public async restoreDpopKeyMaterialByRef(dpopKeyRef: string): Promise<DPoPAlg> {
@@ -196,19 +288,114 @@ export class IdaasContext {
       return cachedKeyMaterial;
     }
 
-    const keyMaterial = await generateDpopKeyMaterial(alg);
+    const keyMaterial = await generateDpopKeyMaterial(alg, this.crypto);
     this.#dpopKeyMaterialByAlg.set(alg, keyMaterial);
 
     return keyMaterial;
   }
 
   /**
-   * Get the OpenID configuration for the provider
+   * Get the OpenID configuration for the provider, from the static `metadata`, the discovery cache, or discovery.
+   * @throws {DiscoveryError} If the configuration cannot be discovered or is invalid
    */
   public async getConfig(): Promise<OidcConfig> {
     if (!this.#config) {
-      this.#config = await fetchOpenidConfiguration(this.issuerUrl);
+      const config = this.#loadConfig();
+      this.#config = config;
+      // Let the next call retry a failed discovery
+      config.catch(() => {
+        if (this.#config === config) {
+          this.#config = undefined;
+        }
+      });
+    }
+    return await this.#config;
+  }
+
+  async #loadConfig(): Promise<OidcConfig> {
+    if (this.#metadata) {
+      return validateOidcConfig(this.#metadata, this.#issuerUrl);
     }
-    return this.#config;
+
+    const cacheStorage = this.#discoveryCacheTtl > 0 ? this.#storageManager : undefined;
+    if (cacheStorage) {
+      await cacheStorage.ready();
+      const cachedConfig = cacheStorage.getOidcConfig(this.#issuerUrl);
+      if (cachedConfig) {
+        return cachedConfig;
+      }
+    }
+
+    const config = await fetchOpenidConfiguration(this.#issuerUrl);
+    cacheStorage?.saveOidcConfig(this.#issuerUrl, config, this.#discoveryCacheTtl);
+    return config;
+  }
+
+  /**
+   * Get the key resolver that verifies the signatures of tokens issued by the OP, shared by every token validation.
+   *
+   * Resolves the pinned `jwks` if given, otherwise the OP's JWKS from memory, the JWKS cache, or `jwks_uri`. A token
+   * signed with an unknown key fetches the JWKS again, at most once every {@link JWKS_REFETCH_COOLDOWN_SECONDS}, to
+   * pick up rotated keys.
+   */
+  public getJwks(): JWTVerifyGetKey {
+    return async (protectedHeader, token) => {
+      const jwks = this.#getJwksResolver();
+      try {
+        return await (await jwks)(protectedHeader, token);
+      } catch (error) {
+        if (!(error instanceof errors.JWKSNoMatchingKey) || this.#pinnedJwks) {
+          throw error;
+        }
+
+        // Unless a concurrent validation already did, fetch the key set again
+        if (this.#jwks === jwks) {
+          if (Date.now() - this.#jwksFetchedAt < JWKS_REFETCH_COOLDOWN_SECONDS * 1000) {
+            throw error;
+          }
+          this.#getJwksResolver(true);
+        }
+      }
+
+      return await (await this.#getJwksResolver())(protectedHeader, token);
+    };
+  }
+
+  #getJwksResolver(refetch = false): Promise<JWTVerifyGetKey> {
+    if (this.#jwks && !refetch) {
+      return this.#jwks;
+    }
+
+    const jwks = this.#loadJwks(refetch);
+    this.#jwks = jwks;
+    // Let the next validation retry a failed fetch
+    jwks.catch(() => {
+      if (this.#jwks === jwks) {
+        this.#jwks = undefined;
+      }
+    });
+    return jwks;
+  }
+
+  async #loadJwks(refetch: boolean): Promise<JWTVerifyGetKey> {
+    if (this.#pinnedJwks) {
+      return createLocalJWKSet(this.#pinnedJwks);
+    }
+
+    const { jwks_uri } = await this.getConfig();
+
+    const cacheStorage = this.#jwksCacheTtl > 0 ? this.#storageManager : undefined;
+    if (cacheStorage && !refetch) {
+      await cacheStorage.ready();
+      const cachedJwks = cacheStorage.getJwks(jwks_uri);
+      if (cachedJwks) {
+        return createLocalJWKSet(cachedJwks);
+      }
+    }
+
+    this.#jwksFetchedAt = Date.now();
+    const jwks = await fetchJwks(jwks_uri);
+    cacheStorage?.saveJwks(jwks_uri, jwks, this.#jwksCacheTtl);
+    return createLocalJWKSet(jwks);
   }
 }
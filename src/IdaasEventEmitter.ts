@@ -0,0 +1,48 @@
+import type { IdaasEvent, IdaasEventMap } from "./models";
+import { reportError } from "./utils/reportError";
+
+type Listener<E extends IdaasEvent> = (payload: IdaasEventMap[E]) => void;
+
+/**
+ * Dispatches typed SDK events to the listeners registered through `IdaasClient.on()`.
+ *
+ * A listener that throws is reported as an uncaught error and does not stop other listeners or the SDK operation that
+ * emitted the event.
+ */
+export class IdaasEventEmitter {
+  readonly #listeners = new Map<IdaasEvent, Set<Listener<never>>>();
+
+  public on<E extends IdaasEvent>(event: E, listener: Listener<E>): () => void {
+    let listeners = this.#listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.#listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  public off<E extends IdaasEvent>(event: E, listener: Listener<E>): void {
+    this.#listeners.get(event)?.delete(listener);
+  }
+
+  public clear(): void {
+    this.#listeners.clear();
+  }
+
+  public emit<E extends IdaasEvent>(event: E, payload: IdaasEventMap[E]): void {
+    const listeners = this.#listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+
+    for (const listener of [...listeners]) {
+      try {
+        (listener as Listener<E>)(payload);
+      } catch (error) {
+        reportError(error);
+      }
+    }
+  }
+}
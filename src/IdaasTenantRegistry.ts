@@ -0,0 +1,219 @@
+import { IdaasClient } from "./IdaasClient";
+import type {
+  IdaasClientOptions,
+  IdaasTenantRegistryOptions,
+  OidcLogoutOptions,
+  TenantSelector,
+  TokenOptions,
+} from "./models";
+import { LocalStore, MemoryStore, SessionStore, type SyncStore } from "./storage/stores";
+import { reportError } from "./utils/reportError";
+
+const ACTIVE_TENANT_STORAGE_KEY = "entrust.activeTenant";
+
+const createActiveTenantStore = (storageType: NonNullable<IdaasTenantRegistryOptions["storageType"]>): SyncStore => {
+  switch (storageType) {
+    case "localstorage":
+      return new LocalStore();
+    case "sessionstorage":
+      return new SessionStore();
+    default:
+      return new MemoryStore();
+  }
+};
+
+/**
+ * The storage namespace of a tenant. Both parts are URI-encoded, so the `|` separator cannot occur in either and
+ * distinct issuer and client ID pairs never share a namespace.
+ */
+const toTenantNamespace = ({ issuerUrl, clientId }: IdaasClientOptions): string =>
+  `${encodeURIComponent(issuerUrl)}|${encodeURIComponent(clientId)}`;
+
+/**
+ * Serves several IDaaS tenants from one application, each with its own `IdaasClient`.
+ *
+ * Every tenant's storage is namespaced by issuer and client ID and its OP metadata is discovered once, so tenants
+ * never see each other's sessions. One tenant is active at a time, e.g. the organization the user picked at login,
+ * and calls without a `tenantId` go to it.
+ *
+ * ```typescript
+ * const tenants = new IdaasTenantRegistry({
+ *   storageType: "sessionstorage",
+ *   tenants: {
+ *     acme: { options: { issuerUrl: "https://acme.trustedauth.com/api/oidc", clientId: "acme-client-id" } },
+ *     globex: { options: { issuerUrl: "https://globex.trustedauth.com/api/oidc", clientId: "globex-client-id" } },
+ *   },
+ * });
+ *
+ * await tenants.switchTenant("acme").oidc.login();
+ * ```
+ *
+ * @see {@link https://github.com/EntrustCorporation/idaas-auth-js/blob/main/docs/guides/multi-tenant.md Multi-Tenant Guide}
+ */
+export class IdaasTenantRegistry {
+  readonly #clients = new Map<string, IdaasClient>();
+  readonly #activeTenantStore: SyncStore;
+  readonly #tenantChangeListeners = new Set<(tenantId: string | undefined) => void>();
+
+  /**
+   * @param options The tenants to register and where the active tenant is remembered
+   */
+  constructor({ tenants = {}, storageType = "memory" }: IdaasTenantRegistryOptions = {}) {
+    this.#activeTenantStore = createActiveTenantStore(storageType);
+
+    for (const [tenantId, { options, tokenOptions }] of Object.entries(tenants)) {
+      this.register(tenantId, options, tokenOptions);
+    }
+  }
+
+  /**
+   * Registers a tenant and creates its client.
+   *
+   * @param tenantId The ID the tenant is selected by, e.g. the organization's slug
+   * @param options The options of the tenant's client
+   * @param tokenOptions The default token options of the tenant's client
+   * @returns The tenant's client
+   * @throws Error if a tenant with the same ID is already registered
+   */
+  public register(tenantId: string, options: IdaasClientOptions, tokenOptions?: TokenOptions): IdaasClient {
+    if (this.#clients.has(tenantId)) {
+      throw new Error(`Tenant ${tenantId} is already registered`);
+    }
+
+    const client = new IdaasClient(
+      { ...options, storageNamespace: options.storageNamespace ?? toTenantNamespace(options) },
+      tokenOptions,
+    );
+    this.#clients.set(tenantId, client);
+    return client;
+  }
+
+  /**
+   * Removes a tenant and disposes its client, see `IdaasClient.dispose()`. Its stored session is kept, so registering
+   * it again restores it. Removing the active tenant leaves no tenant active.
+   *
+   * @param tenantId The ID of the tenant to remove
+   */
+  public unregister(tenantId: string): void {
+    const client = this.#clients.get(tenantId);
+    if (!client) {
+      return;
+    }
+
+    client.dispose();
+    this.#clients.delete(tenantId);
+
+    if (this.#activeTenantStore.get(ACTIVE_TENANT_STORAGE_KEY) === tenantId) {
+      this.#activeTenantStore.delete(ACTIVE_TENANT_STORAGE_KEY);
+      this.#notifyTenantChange(undefined);
+    }
+  }
+
+  /**
+   * The IDs of the registered tenants, in the order they were registered.
+   */
+  public get tenantIds(): string[] {
+    return [...this.#clients.keys()];
+  }
+
+  /**
+   * The ID of the active tenant, or `undefined` when no registered tenant is active.
+   */
+  public get activeTenantId(): string | undefined {
+    const tenantId = this.#activeTenantStore.get(ACTIVE_TENANT_STORAGE_KEY);
+    return tenantId !== null && this.#clients.has(tenantId) ? tenantId : undefined;
+  }
+
+  /**
+   * The client of the active tenant.
+   *
+   * @throws Error if no tenant is active
+   */
+  public get client(): IdaasClient {
+    return this.getClient();
+  }
+
+  /**
+   * Returns the client of a tenant.
+   *
+   * @param tenantId The ID of the tenant, the active tenant when not set
+   * @returns The tenant's client
+   * @throws Error if the tenant is not registered, or no tenant is active
+   */
+  public getClient(tenantId?: string): IdaasClient {
+    const id = tenantId ?? this.activeTenantId;
+    if (id === undefined) {
+      throw new Error("No tenant is active, call switchTenant() first");
+    }
+
+    const client = this.#clients.get(id);
+    if (!client) {
+      throw new Error(`Tenant ${id} is not registered`);
+    }
+    return client;
+  }
+
+  /**
+   * Makes a tenant the active one, e.g. once the user picked their organization. The sessions of the other tenants
+   * are kept, switching back to one of them restores its session.
+   *
+   * @param tenantId The ID of the tenant to activate
+   * @returns The tenant's client
+   * @throws Error if the tenant is not registered
+   */
+  public switchTenant(tenantId: string): IdaasClient {
+    const client = this.getClient(tenantId);
+
+    if (this.activeTenantId !== tenantId) {
+      this.#activeTenantStore.save(ACTIVE_TENANT_STORAGE_KEY, tenantId);
+      this.#notifyTenantChange(tenantId);
+    }
+    return client;
+  }
+
+  /**
+   * Registers a listener that is called with the ID of the newly active tenant whenever it changes, or `undefined`
+   * when the active tenant was removed.
+   *
+   * @param listener The callback to invoke
+   * @returns A function that removes the listener
+   */
+  public onTenantChange(listener: (tenantId: string | undefined) => void): () => void {
+    this.#tenantChangeListeners.add(listener);
+    return () => {
+      this.#tenantChangeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Returns an access token of a tenant, see `IdaasClient.getAccessToken()`.
+   *
+   * @param options The tenant and the token options to match
+   * @returns Access token string
+   * @throws Error if the tenant is not registered, or no tenant is active
+   * @throws {TransactionStateError} If the tenant has no matching session
+   */
+  public async getAccessToken({ tenantId, ...tokenOptions }: TokenOptions & TenantSelector = {}): Promise<string> {
+    return await this.getClient(tenantId).getAccessToken(tokenOptions);
+  }
+
+  /**
+   * Logs the user out of a tenant, see `IdaasClient.oidc.logout()`. The sessions of the other tenants are kept.
+   *
+   * @param options The tenant and the logout options
+   * @throws Error if the tenant is not registered, or no tenant is active
+   */
+  public async logout({ tenantId, ...logoutOptions }: OidcLogoutOptions & TenantSelector = {}): Promise<void> {
+    await this.getClient(tenantId).oidc.logout(logoutOptions);
+  }
+
+  #notifyTenantChange(tenantId: string | undefined) {
+    for (const listener of this.#tenantChangeListeners) {
+      try {
+        listener(tenantId);
+      } catch (error) {
+        reportError(error);
+      }
+    }
+  }
+}
@@ -1,21 +1,71 @@
-import { type AccessTokenRequest, requestToken } from "./api";
+import { type AccessTokenRequest, pushAuthorizationRequest, requestToken } from "./api";
+import { InteractionRequiredError, TransactionStateError, toOAuthError } from "./errors";
 import type { ValidatedTokenResponse } from "./IdaasClient";
 import type { IdaasContext } from "./IdaasContext";
-import type { AuthorizeResponse, OidcLoginOptions, OidcLogoutOptions, TokenOptions } from "./models";
-import type { AccessToken, StorageManager, TokenParams } from "./storage/StorageManager";
-import { listenToAuthorizePopup, openPopup } from "./utils/browser";
+import type {
+  AuthorizationParams,
+  AuthorizeResponse,
+  HandleRedirectOptions,
+  OidcLoginOptions,
+  OidcLogoutOptions,
+  RedirectLoginResult,
+  SilentAuthOptions,
+  TokenOptions,
+  UserClaims,
+} from "./models";
+import { type AccessToken, type StorageManager, type TokenParams, toTokenDetails } from "./storage/StorageManager";
+import {
+  listenToAuthorizeIframe,
+  listenToAuthorizePopup,
+  listenToLogoutPopup,
+  openHiddenIframe,
+  openPopup,
+} from "./utils/browser";
+import { base64UrlStringEncode, createRandomString } from "./utils/crypto";
 import { clearStoredDpopKeyMaterialBestEffort } from "./utils/dpopCleanup";
 import { calculateEpochExpiry, formatUrl, sanitizeUri } from "./utils/format";
 import { readAccessToken, validateIdToken } from "./utils/jwt";
+import { revokeStoredTokensBestEffort } from "./utils/revocation";
 import { generateAuthorizationUrl } from "./utils/url";
 
+const DEFAULT_SILENT_AUTH_TIMEOUT_SECONDS = 60;
+
+// The parameters of an authorization response, removed from the address bar once the response is read
+const AUTHORIZATION_RESPONSE_PARAMS = [
+  "code",
+  "state",
+  "error",
+  "error_description",
+  "error_uri",
+  "iss",
+  "session_state",
+];
+
+interface LogoutUrlParams {
+  redirectUri?: string;
+  state?: string;
+  idTokenHint?: string;
+  logoutHint?: string;
+  uiLocales?: string;
+}
+
+interface WebMessageAuthorizationRequest {
+  url: string;
+  nonce: string;
+  state: string;
+  codeVerifier: string;
+  redirectUri: string;
+  tokenParams: TokenParams;
+}
+
 /**
  * This class handles authorization for OIDC flows using both popup
  * and redirect authentication patterns. It manages the entire OIDC ceremony
  * including authorization URL generation, token exchange, validation, and processing
  * redirect callbacks.
  *
- * Contains three main methods: login, logout, and handleRedirect.
+ * Contains three main methods: login, logout, and handleRedirect, plus getAccessTokenSilently and checkSession for
+ * silent authentication.
  */
 
 export class OidcClient {
@@ -41,15 +91,17 @@ export class OidcClient {
    * - ID token (always)
    * - Refresh token (optional, if `useRefreshToken: true`)
    *
-   * @param options Login options including popup mode and redirect URI
+   * @param options Login options including popup mode, redirect URI, and authorization request parameters
    * @param tokenOptions Token request options (audience, scope, refresh token, ACR values)
    * @returns The access token if using popup mode, otherwise `null`
    * @see {@link https://github.com/EntrustCorporation/idaas-auth-js/blob/main/docs/guides/oidc.md OIDC Guide}
    * */
   public async login(
-    { redirectUri, popup }: OidcLoginOptions = {},
+    { redirectUri, popup, appState, responseMode, ...authorizationParams }: OidcLoginOptions = {},
     tokenOptions: TokenOptions = {},
   ): Promise<string | null> {
+    await this.#storageManager.ready();
+
     if (popup) {
       const popupWindow = openPopup("");
       const { response_modes_supported } = await this.#context.getConfig();
@@ -58,10 +110,10 @@ export class OidcClient {
         popupWindow.close();
         throw new Error("Attempted to use popup but web_message is not supported by OpenID provider.");
       }
-      return await this.#loginWithPopup({ redirectUri }, tokenOptions);
+      return await this.#loginWithPopup({ redirectUri, ...authorizationParams }, tokenOptions);
     }
 
-    await this.#loginWithRedirect({ redirectUri }, tokenOptions);
+    await this.#loginWithRedirect({ redirectUri, appState, responseMode, ...authorizationParams }, tokenOptions);
 
     return null;
   }
@@ -70,29 +122,131 @@ export class OidcClient {
    * Logs the user out by clearing the local session and redirecting to the identity provider's logout endpoint.
    *
    * This method:
-   * 1. Removes all stored tokens (access, ID, and refresh) from local storage
-   * 2. Redirects the browser to the identity provider's `end_session_endpoint`
-   * 3. Optionally redirects back to your application after logout completes
+   * 1. Revokes stored refresh tokens (and access tokens with `revokeAccessTokens`) at the `revocation_endpoint`
+   * 2. Removes all stored tokens (access, ID, and refresh) from local storage
+   * 3. Redirects the browser, or a popup with `popup: true`, to the identity provider's `end_session_endpoint`
+   * 4. Optionally redirects back to your application after logout completes
+   *
+   * Revocation is skipped when the identity provider does not advertise a `revocation_endpoint`, and a failed
+   * revocation does not prevent logout. With `localOnly: true` the method stops after step 2.
    *
    * After logout, the user's session with the identity provider is terminated. If `redirectUri` is provided,
-   * the identity provider will redirect the user back to that URI after logout.
+   * the identity provider will redirect the user back to that URI after logout, where `handleLogoutRedirect()`
+   * validates the returned state.
    *
-   * @param options Logout options with optional redirect URI
+   * @param options Logout options with optional redirect URI, hints for the OP, and the logout mode
+   * @throws {PopupError} If the logout popup is blocked, or does not return to `redirectUri` in time
+   * @throws {TransactionStateError} If the logout popup returns to `redirectUri` with an unexpected state
    * @see {@link https://github.com/EntrustCorporation/idaas-auth-js/blob/main/docs/guides/oidc.md OIDC Guide}
    */
-  public async logout({ redirectUri }: OidcLogoutOptions = {}): Promise<void> {
-    await clearStoredDpopKeyMaterialBestEffort(this.#context, this.#storageManager);
+  public async logout({
+    redirectUri,
+    revokeAccessTokens,
+    idTokenHint = true,
+    logoutHint,
+    uiLocales,
+    localOnly,
+    popup,
+  }: OidcLogoutOptions = {}): Promise<void> {
+    // Opened before anything is awaited, browsers block popups that are not opened by a user action
+    const popupWindow = popup && !localOnly ? openPopup("") : undefined;
 
-    this.#storageManager.remove();
+    try {
+      await this.#storageManager.ready();
+      const idToken = this.#storageManager.getIdToken();
+      await revokeStoredTokensBestEffort(this.#context, this.#storageManager, { revokeAccessTokens });
+      await clearStoredDpopKeyMaterialBestEffort(this.#context, this.#storageManager);
+
+      this.#storageManager.remove();
+      this.#storageManager.broadcastSessionChange("logout");
+      this.#context.events.emit("logout", { flow: "oidc" });
+
+      if (localOnly) {
+        await this.#storageManager.flush();
+        return;
+      }
 
-    window.location.href = await this.#generateLogoutUrl(redirectUri);
+      const state = redirectUri ? base64UrlStringEncode(createRandomString(this.#context.crypto)) : undefined;
+      const logoutUrl = await this.#generateLogoutUrl({
+        redirectUri,
+        state,
+        idTokenHint: idTokenHint ? idToken?.encoded : undefined,
+        logoutHint,
+        uiLocales,
+      });
+
+      if (popupWindow) {
+        await this.#storageManager.flush();
+        const logoutPopup = openPopup(logoutUrl);
+        // Without a redirectUri the OP never returns to the application, its logout page stays up until closed
+        if (!redirectUri) {
+          return;
+        }
+
+        const returnUrl = await listenToLogoutPopup(logoutPopup, redirectUri);
+        if (returnUrl) {
+          this.#validateLogoutState(new URL(returnUrl), state);
+        }
+        return;
+      }
+
+      if (state) {
+        this.#storageManager.saveLogoutState(state);
+      }
+      await this.#storageManager.flush();
+      window.location.href = logoutUrl;
+    } catch (error) {
+      popupWindow?.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Completes a logout redirect by validating the `state` returned by the identity provider.
+   *
+   * Call this method at the `redirectUri` passed to `logout()`. Only required when using redirect mode, popup
+   * logouts validate the state automatically.
+   *
+   * @param url The URL the identity provider redirected to, defaults to the current page's URL
+   * @param options Whether to remove the `state` from the address bar
+   * @returns `true` if the logout redirect was validated, `false` if no logout is in progress or the URL is not a
+   * logout callback, e.g. a login callback
+   * @throws {TransactionStateError} If the state does not match the logout in progress
+   * @see {@link https://github.com/EntrustCorporation/idaas-auth-js/blob/main/docs/guides/oidc.md OIDC Guide}
+   */
+  public async handleLogoutRedirect(
+    url?: string,
+    { cleanUrl = url === undefined }: HandleRedirectOptions = {},
+  ): Promise<boolean> {
+    const returnUrl = new URL(url ?? window.location.href);
+    const { searchParams } = returnUrl;
+    // Login callbacks also carry a state, they are left to handleRedirect()
+    if (!searchParams.has("state") || searchParams.has("code") || searchParams.has("error")) {
+      return false;
+    }
+
+    await this.#storageManager.ready();
+    const expectedState = this.#storageManager.getLogoutState();
+    if (!expectedState) {
+      return false;
+    }
+    this.#storageManager.removeLogoutState();
+
+    if (cleanUrl) {
+      const currentUrl = new URL(window.location.href);
+      currentUrl.searchParams.delete("state");
+      window.history.replaceState(window.history.state, document.title, currentUrl.toString());
+    }
+
+    this.#validateLogoutState(returnUrl, expectedState);
+    return true;
   }
 
   /**
    * Completes the OIDC authorization code flow after redirect from the identity provider.
    *
    * Call this method at your application's `redirectUri` to:
-   * 1. Parse the authorization code from the URL query parameters
+   * 1. Parse the authorization code from the query or, for `responseMode: "fragment"`, the fragment of the URL
    * 2. Exchange the code for tokens (access, ID, and optionally refresh)
    * 3. Validate and store the tokens
    *
@@ -102,29 +256,49 @@ export class OidcClient {
    * **Important**: Only required when using redirect mode (`popup: false` in `login()`).
    * Popup mode handles the callback automatically.
    *
-   * @returns `null` after processing the redirect, or `null` if current URL is not an OAuth callback
-   * @throws {Error} If client state cannot be recovered from storage
-   * @throws {Error} If authorization response contains an error
-   * @throws {Error} If token validation fails
+   * Pass the callback `url` when it is not the current page's URL, e.g. the URL of a custom-scheme deep link received
+   * by a Capacitor or Cordova app.
+   *
+   * ```typescript
+   * const result = await idaas.oidc.handleRedirect<{ returnTo: string }>();
+   * if (result) {
+   *   router.navigate(result.appState?.returnTo ?? "/");
+   * }
+   * ```
+   *
+   * @param url The callback URL to handle, defaults to the current page's URL
+   * @param options Whether to remove the authorization response from the address bar
+   * @returns The `appState` passed to `login()` with the new tokens' details, or `null` if the URL is not an OAuth
+   * callback
+   * @throws {TransactionStateError} If client state cannot be recovered from storage or the state does not match
+   * @throws {OAuthError} If the authorization response or the token endpoint returns an error
+   * @throws {TokenValidationError} If token validation fails
    * @see {@link https://github.com/EntrustCorporation/idaas-auth-js/blob/main/docs/guides/oidc.md OIDC Guide}
    */
-  public async handleRedirect(): Promise<null> {
-    const { authorizeResponse } = this.#parseRedirect();
+  public async handleRedirect<TAppState = unknown>(
+    url?: string,
+    { cleanUrl = url === undefined }: HandleRedirectOptions = {},
+  ): Promise<RedirectLoginResult<TAppState> | null> {
+    const authorizeResponse = this.#parseRedirect(new URL(url ?? window.location.href));
 
-    // The current url is not an authorized callback url
+    // The url is not an authorized callback url
     if (!authorizeResponse) {
       return null;
     }
 
-    const clientParams = this.#storageManager.getClientParams();
-    if (!clientParams) {
-      throw new Error("Failed to recover IDaaS client state from local storage");
+    if (cleanUrl) {
+      this.#removeAuthorizationResponseFromUrl();
     }
-    const { codeVerifier, redirectUri, state, nonce } = clientParams;
-    const tokenParams = this.#storageManager.getTokenParams();
-    if (!tokenParams) {
-      throw new Error("No token params stored, unable to parse");
+
+    await this.#storageManager.ready();
+    const pendingAuthorization = this.#storageManager.getPendingAuthorization(authorizeResponse.state);
+    if (!pendingAuthorization) {
+      throw new TransactionStateError(
+        "Failed to recover IDaaS client state from storage, the login has expired or its state does not match",
+      );
     }
+    const { clientParams, tokenParams } = pendingAuthorization;
+    const { codeVerifier, redirectUri, state, nonce, appState } = clientParams;
 
     try {
       const authorizeCode = this.#validateAuthorizeResponse(authorizeResponse, state);
@@ -134,12 +308,16 @@ export class OidcClient {
         codeVerifier,
         redirectUri,
         nonce,
-        tokenParams.requireIdToken ?? true,
-        tokenParams.acrValues?.split(" ").filter(Boolean),
-        tokenParams.dpop,
-        tokenParams.dpopKeyRef,
+        tokenParams,
       );
-      await this.#parseAndSaveTokenResponse(validatedTokenResponse, tokenParams);
+      const { accessToken, scope } = await this.#parseAndSaveTokenResponse(validatedTokenResponse, tokenParams);
+
+      return {
+        appState: appState as TAppState | undefined,
+        idTokenClaims: (validatedTokenResponse.decodedIdToken as UserClaims | undefined) ?? null,
+        scope: validatedTokenResponse.tokenResponse.scope ?? scope,
+        accessToken,
+      };
     } catch (error) {
       // On error, clean up any restored DPoP key material to prevent orphaned keys in IndexedDB
       if (tokenParams.dpopKeyRef) {
@@ -147,30 +325,89 @@ export class OidcClient {
       }
       throw error;
     } finally {
-      this.#storageManager.removeTokenParams();
+      this.#storageManager.removePendingAuthorization(state);
     }
-
-    return null;
   }
 
-  #parseRedirect() {
-    const url = new URL(window.location.href);
-    const searchParams = url.searchParams;
+  /**
+   * Obtains a new access token without user interaction, using the user's existing session at the identity provider.
+   *
+   * The authorization code flow runs with `prompt=none` in a hidden iframe, so nothing is shown to the user. Use it to
+   * restore a session after a page reload when tokens are not persisted (`storageType: "memory"`) or refresh tokens
+   * are not enabled.
+   *
+   * Requires the identity provider to support `response_mode=web_message` and to allow being framed by your
+   * application, and third-party cookies to be available to the iframe.
+   *
+   * @param options Silent authentication options including the redirect URI, timeout, and authorization request
+   * parameters
+   * @param tokenOptions Token request options (audience, scope, refresh token, ACR values)
+   * @returns The new access token
+   * @throws {LoginRequiredError} If the user has no session at the identity provider
+   * @throws {ConsentRequiredError} If the user has not consented to the requested scopes
+   * @throws {InteractionRequiredError} If the identity provider requires any other user interaction
+   * @throws {TimeoutError} If the identity provider does not respond within `timeoutSeconds`
+   * @see {@link https://github.com/EntrustCorporation/idaas-auth-js/blob/main/docs/guides/oidc.md OIDC Guide}
+   */
+  public async getAccessTokenSilently(
+    {
+      redirectUri,
+      timeoutSeconds = DEFAULT_SILENT_AUTH_TIMEOUT_SECONDS,
+      ...authorizationParams
+    }: SilentAuthOptions = {},
+    tokenOptions: TokenOptions = {},
+  ): Promise<string> {
+    await this.#storageManager.ready();
 
-    if (searchParams.toString() === "") {
-      return {
-        authorizeResponse: null,
-      };
+    const { response_modes_supported } = await this.#context.getConfig();
+    if (!response_modes_supported?.includes("web_message")) {
+      throw new Error("Attempted to use silent authentication but web_message is not supported by OpenID provider.");
     }
 
-    const authorizeResponse = this.#parseLoginRedirect(searchParams);
+    const request = await this.#createWebMessageAuthorizationRequest(redirectUri, tokenOptions, {
+      ...authorizationParams,
+      prompt: "none",
+    });
 
-    return {
-      authorizeResponse,
-    };
+    const iframe = openHiddenIframe(request.url);
+    const authorizeResponse = await listenToAuthorizeIframe(iframe, request.url, timeoutSeconds);
+
+    return await this.#completeWebMessageAuthorization(authorizeResponse, request);
   }
 
-  #parseLoginRedirect(searchParams: URLSearchParams): AuthorizeResponse | null {
+  /**
+   * Checks whether the user still has a session at the identity provider and, if so, stores fresh tokens for it.
+   *
+   * Same as `getAccessTokenSilently()`, but resolves to `false` instead of throwing when user interaction is required,
+   * so the application can fall back to `login()`.
+   *
+   * @param options Silent authentication options including the redirect URI and timeout
+   * @param tokenOptions Token request options (audience, scope, refresh token, ACR values)
+   * @returns `true` if new tokens were stored, `false` if the user has to log in interactively
+   * @see {@link https://github.com/EntrustCorporation/idaas-auth-js/blob/main/docs/guides/oidc.md OIDC Guide}
+   */
+  public async checkSession(options: SilentAuthOptions = {}, tokenOptions: TokenOptions = {}): Promise<boolean> {
+    try {
+      await this.getAccessTokenSilently(options, tokenOptions);
+      return true;
+    } catch (error) {
+      if (error instanceof InteractionRequiredError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the authorization response from the query of a callback URL or, for `response_mode=fragment`, its fragment.
+   */
+  #parseRedirect(url: URL): (AuthorizeResponse & { state: string }) | null {
+    return (
+      this.#parseLoginRedirect(url.searchParams) ?? this.#parseLoginRedirect(new URLSearchParams(url.hash.slice(1)))
+    );
+  }
+
+  #parseLoginRedirect(searchParams: URLSearchParams): (AuthorizeResponse & { state: string }) | null {
     const state = searchParams.get("state");
     const code = searchParams.get("code");
     const error = searchParams.get("error");
@@ -186,10 +423,6 @@ export class OidcClient {
       return null;
     }
 
-    const url = new URL(window.location.href);
-    url.search = "";
-    window.history.replaceState(null, document.title, url.toString());
-
     return {
       state,
       code,
@@ -198,22 +431,40 @@ export class OidcClient {
     };
   }
 
+  /**
+   * Removes the authorization response from the query and fragment of the current page's URL, keeping everything else.
+   */
+  #removeAuthorizationResponseFromUrl() {
+    const url = new URL(window.location.href);
+    for (const param of AUTHORIZATION_RESPONSE_PARAMS) {
+      url.searchParams.delete(param);
+    }
+
+    const fragmentParams = new URLSearchParams(url.hash.slice(1));
+    if (fragmentParams.has("state")) {
+      for (const param of AUTHORIZATION_RESPONSE_PARAMS) {
+        fragmentParams.delete(param);
+      }
+      url.hash = fragmentParams.toString();
+    }
+
+    window.history.replaceState(window.history.state, document.title, url.toString());
+  }
+
   #validateAuthorizeResponse(
     { state, code, error, error_description }: AuthorizeResponse,
     expectedState: string,
   ): string {
     if (error) {
-      throw new Error("Error during authorization", {
-        cause: error_description,
-      });
+      throw toOAuthError({ error, error_description });
     }
 
     if (!(code && state)) {
-      throw new Error("URL must contain state and code for the authorization flow");
+      throw new TransactionStateError("URL must contain state and code for the authorization flow");
     }
 
     if (expectedState !== state) {
-      throw new Error(
+      throw new TransactionStateError(
         "State received during redirect does not match the state from the beginning of the OIDC ceremony",
       );
     }
@@ -221,17 +472,17 @@ export class OidcClient {
     return code;
   }
 
+  /**
+   * Exchange an authorization code for tokens and validate the ID token against the stored token params.
+   */
   async #requestAndValidateTokens(
     code: string,
     codeVerifier: string,
     redirectUri: string,
     nonce: string,
-    requireIdToken: boolean,
-    requestedAcrValues?: string[],
-    dpopOptions?: TokenOptions["dpop"],
-    dpopKeyRef?: string,
+    { requireIdToken = true, acrValues, dpop: dpopOptions, dpopKeyRef, resource, claims }: TokenParams,
   ) {
-    const { token_endpoint, id_token_signing_alg_values_supported, acr_values_supported, jwks_uri } =
+    const { token_endpoint, id_token_signing_alg_values_supported, acr_values_supported } =
       await this.#context.getConfig();
 
     const tokenRequest: AccessTokenRequest = {
@@ -242,6 +493,14 @@ export class OidcClient {
       redirect_uri: redirectUri,
     };
 
+    if (resource?.length) {
+      tokenRequest.resource = resource;
+    }
+
+    if (claims) {
+      tokenRequest.claims = claims;
+    }
+
     const dpopJwt = dpopKeyRef
       ? await this.#context.createDpopProofForKeyRef({
           method: "POST",
@@ -268,8 +527,8 @@ export class OidcClient {
       idTokenSigningAlgValuesSupported: id_token_signing_alg_values_supported,
       allowedIdTokenSigningAlgorithms: this.#context.allowedIdTokenSigningAlgorithms,
       acrValuesSupported: acr_values_supported,
-      jwksEndpoint: jwks_uri,
-      requestedAcrValues,
+      jwks: this.#context.getJwks(),
+      requestedAcrValues: acrValues?.split(" ").filter(Boolean),
     });
 
     return { tokenResponse, decodedIdToken, encodedIdToken: idToken };
@@ -278,33 +537,58 @@ export class OidcClient {
   /**
    * Generate the endsession url with the required query params to log out the user from the OpenID Provider
    */
-  async #generateLogoutUrl(redirectUri?: string): Promise<string> {
+  async #generateLogoutUrl({
+    redirectUri,
+    state,
+    idTokenHint,
+    logoutHint,
+    uiLocales,
+  }: LogoutUrlParams): Promise<string> {
     const { end_session_endpoint } = await this.#context.getConfig();
 
     const url = new URL(end_session_endpoint);
     url.searchParams.append("client_id", this.#context.clientId);
+    if (idTokenHint) {
+      url.searchParams.append("id_token_hint", idTokenHint);
+    }
     if (redirectUri) {
       url.searchParams.append("post_logout_redirect_uri", redirectUri);
     }
+    if (state) {
+      url.searchParams.append("state", state);
+    }
+    if (logoutHint) {
+      url.searchParams.append("logout_hint", logoutHint);
+    }
+    if (uiLocales) {
+      url.searchParams.append("ui_locales", uiLocales);
+    }
     return url.toString();
   }
 
+  #validateLogoutState(returnUrl: URL, expectedState?: string) {
+    if (!expectedState || returnUrl.searchParams.get("state") !== expectedState) {
+      throw new TransactionStateError("State of the logout redirect does not match the logout in progress");
+    }
+  }
+
   /**
    * Parses the token response from the OIDC provider and saves tokens to storage.
    * Extracts access token, ID token, and refresh token (if available).
    * Preserves the DPoP key reference from tokenParams to enable recovery on page reload and cleanup on logout.
    * @param validatedTokenResponse The validated response from the token endpoint
+   * @returns The stored access token
    */
   async #parseAndSaveTokenResponse(
     validatedTokenResponse: ValidatedTokenResponse,
     tokenParams: TokenParams,
-  ): Promise<void> {
+  ): Promise<AccessToken> {
     const { tokenResponse, decodedIdToken, encodedIdToken } = validatedTokenResponse;
     const { refresh_token, access_token, expires_in } = tokenResponse;
     const authTime = readAccessToken(access_token)?.auth_time;
     const expiresAt = calculateEpochExpiry(expires_in, authTime);
 
-    const { audience, scope, maxAge, dpop } = tokenParams;
+    const { audience, scope, maxAge, dpop, resource } = tokenParams;
     const maxAgeExpiry = maxAge ? calculateEpochExpiry(maxAge.toString(), authTime) : undefined;
 
     const token = readAccessToken(access_token);
@@ -335,6 +619,8 @@ export class OidcClient {
       acr,
       dpopBound: isDpopBound,
       dpopKeyRef,
+      resource,
+      grantedResources: resource,
     };
 
     if (encodedIdToken && decodedIdToken) {
@@ -345,32 +631,67 @@ export class OidcClient {
     }
 
     this.#storageManager.saveAccessToken(newAccessToken);
+    this.#storageManager.broadcastSessionChange("login");
+    this.#context.events.emit("login", { flow: "oidc", token: toTokenDetails(newAccessToken) });
+
+    return newAccessToken;
   }
 
   /**
    * Perform the authorization code flow using a new popup window at the OpenID Provider (OP) to authenticate the user.
    */
-  async #loginWithPopup({ redirectUri }: OidcLoginOptions, tokenOptions: TokenOptions): Promise<string | null> {
+  async #loginWithPopup(
+    { redirectUri, ...authorizationParams }: OidcLoginOptions,
+    tokenOptions: TokenOptions,
+  ): Promise<string | null> {
+    const request = await this.#createWebMessageAuthorizationRequest(redirectUri, tokenOptions, authorizationParams);
+
+    const popup = openPopup(request.url);
+    const authorizeResponse = await listenToAuthorizePopup(popup, request.url);
+    const accessToken = await this.#completeWebMessageAuthorization(authorizeResponse, request);
+
+    // redirect only if the redirectUri is not the current uri
+    if (formatUrl(window.location.href) !== formatUrl(request.redirectUri)) {
+      window.location.href = request.redirectUri;
+    }
+
+    return accessToken;
+  }
+
+  /**
+   * Generate the authorization URL and token params of an authorization code flow that receives its response
+   * through `response_mode=web_message`, shared by the popup and silent flows.
+   */
+  async #createWebMessageAuthorizationRequest(
+    redirectUri: string | undefined,
+    tokenOptions: TokenOptions,
+    authorizationParams: AuthorizationParams = {},
+  ): Promise<WebMessageAuthorizationRequest> {
     const finalRedirectUri = redirectUri ?? sanitizeUri(window.location.href);
     const dpopJkt = await this.#context.getDpopJkt(tokenOptions.dpop);
 
-    const { url, nonce, state, codeVerifier, usedScope } = await generateAuthorizationUrl({
+    const { url, nonce, state, codeVerifier, usedScope, usedResource } = await generateAuthorizationUrl({
       baseUrl: (await this.#context.getConfig()).authorization_endpoint,
       clientId: this.#context.clientId,
       responseMode: "web_message",
       redirectUri: finalRedirectUri,
       dpopJkt,
+      authorizationParams,
       tokenOptions: {
         ...this.#context.tokenOptions,
         ...tokenOptions,
       },
+      crypto: this.#context.crypto,
     });
+    const authorizationUrl = await this.#pushAuthorizationRequest(url, tokenOptions);
 
     const tokenParams: TokenParams = {
       audience: tokenOptions.audience ?? this.#context.tokenOptions.audience,
       scope: usedScope,
       requireIdToken: (tokenOptions.includeOpenidScope ?? this.#context.tokenOptions.includeOpenidScope) !== false,
       acrValues: tokenOptions.acrValues ?? this.#context.tokenOptions.acrValues,
+      resource: usedResource.length > 0 ? usedResource : undefined,
+      claims: authorizationParams.claims ? JSON.stringify(authorizationParams.claims) : undefined,
       dpop: this.#context.getEffectiveDpopOptions(tokenOptions.dpop),
     };
 
@@ -378,28 +699,28 @@ export class OidcClient {
       tokenParams.maxAge = tokenOptions.maxAge;
     }
 
-    this.#storageManager.saveTokenParams(tokenParams);
+    return { url: authorizationUrl, nonce, state, codeVerifier, redirectUri: finalRedirectUri, tokenParams };
+  }
 
-    const popup = openPopup(url);
-    const authorizeResponse = await listenToAuthorizePopup(popup, url);
+  /**
+   * Exchange the authorization code of a web message authorization response for tokens and store them.
+   * @returns The new access token
+   */
+  async #completeWebMessageAuthorization(
+    authorizeResponse: AuthorizeResponse,
+    { state, codeVerifier, redirectUri, nonce, tokenParams }: WebMessageAuthorizationRequest,
+  ): Promise<string> {
     const authorizeCode = this.#validateAuthorizeResponse(authorizeResponse, state);
     const validatedTokenResponse = await this.#requestAndValidateTokens(
       authorizeCode,
       codeVerifier,
-      finalRedirectUri,
+      redirectUri,
       nonce,
-      tokenParams.requireIdToken ?? true,
-      tokenParams.acrValues?.split(" ").filter(Boolean),
-      tokenParams.dpop,
+      tokenParams,
     );
 
     await this.#parseAndSaveTokenResponse(validatedTokenResponse, tokenParams);
 
-    // redirect only if the redirectUri is not the current uri
-    if (formatUrl(window.location.href) !== formatUrl(finalRedirectUri)) {
-      window.location.href = finalRedirectUri;
-    }
-
     return validatedTokenResponse.tokenResponse.access_token;
   }
 
@@ -407,34 +728,49 @@ export class OidcClient {
    * Perform the authorization code flow by redirecting to the OpenID Provider (OP) to authenticate the user and then redirect
    * with the necessary state and code.
    */
-  async #loginWithRedirect({ redirectUri }: OidcLoginOptions, tokenOptions: TokenOptions): Promise<void> {
+  async #loginWithRedirect(
+    { redirectUri, appState, responseMode = "query", ...authorizationParams }: OidcLoginOptions,
+    tokenOptions: TokenOptions,
+  ): Promise<void> {
     const finalRedirectUri = redirectUri ?? sanitizeUri(window.location.href);
-    await this.#clearAbandonedRedirectDpopKeyMaterial();
+    const { authorization_endpoint, response_modes_supported } = await this.#context.getConfig();
+    // OPs that do not advertise response modes support query and fragment
+    if (response_modes_supported && !response_modes_supported.includes(responseMode)) {
+      throw new Error(`Attempted to use response_mode=${responseMode} but it is not supported by OpenID provider.`);
+    }
+
+    await this.#removeAbandonedAuthorizations();
 
     const effectiveDpop = this.#context.getEffectiveDpopOptions(tokenOptions.dpop);
     const dpopJkt = await this.#context.getDpopJkt(tokenOptions.dpop);
 
-    const dpopKeyRef = effectiveDpop?.includeJkt
-      ? await this.#context.persistDpopKeyMaterialForAlg(effectiveDpop.alg)
-      : undefined;
-
-    const { url, nonce, state, codeVerifier, usedScope } = await generateAuthorizationUrl({
-      baseUrl: (await this.#context.getConfig()).authorization_endpoint,
+    const { url, nonce, state, codeVerifier, usedScope, usedResource } = await generateAuthorizationUrl({
+      baseUrl: authorization_endpoint,
       clientId: this.#context.clientId,
-      responseMode: "query",
+      responseMode,
       redirectUri: finalRedirectUri,
       dpopJkt,
+      authorizationParams,
       tokenOptions: {
         ...this.#context.tokenOptions,
         ...tokenOptions,
       },
+      crypto: this.#context.crypto,
     });
+    const authorizationUrl = await this.#pushAuthorizationRequest(url, tokenOptions);
+
+    // Persisted once the authorization request can no longer fail, so no key material is left behind
+    const dpopKeyRef = effectiveDpop?.includeJkt
+      ? await this.#context.persistDpopKeyMaterialForAlg(effectiveDpop.alg)
+      : undefined;
 
     const tokenParams: TokenParams = {
       audience: tokenOptions.audience ?? this.#context.tokenOptions.audience,
       scope: usedScope,
       requireIdToken: (tokenOptions.includeOpenidScope ?? this.#context.tokenOptions.includeOpenidScope) !== false,
       acrValues: tokenOptions.acrValues ?? this.#context.tokenOptions.acrValues,
+      resource: usedResource.length > 0 ? usedResource : undefined,
+      claims: authorizationParams.claims ? JSON.stringify(authorizationParams.claims) : undefined,
       dpop: this.#context.getEffectiveDpopOptions(tokenOptions.dpop),
       dpopKeyRef,
     };
@@ -443,22 +779,58 @@ export class OidcClient {
       tokenParams.maxAge = tokenOptions.maxAge;
     }
 
-    this.#storageManager.saveTokenParams(tokenParams);
+    this.#storageManager.savePendingAuthorization(
+      { nonce, state, codeVerifier, redirectUri: finalRedirectUri, appState },
+      tokenParams,
+    );
+
+    await this.#storageManager.flush();
+    window.location.href = authorizationUrl;
+  }
+
+  /**
+   * Pushes the parameters of an authorization URL to the OP's Pushed Authorization Request endpoint (RFC 9126), when
+   * it advertises one, so that they are not exposed in the browser.
+   * PAR is required when the OP's metadata sets `require_pushed_authorization_requests`, whatever the token options.
+   * @returns The authorization URL carrying only `client_id` and the `request_uri` of the pushed request, or the given
+   * URL when the OP does not support PAR and it is not required.
+   */
+  async #pushAuthorizationRequest(url: string, tokenOptions: TokenOptions): Promise<string> {
+    const { pushed_authorization_request_endpoint, require_pushed_authorization_requests } =
+      await this.#context.getConfig();
+    const requirePushedAuthorizationRequests =
+      require_pushed_authorization_requests === true ||
+      (tokenOptions.requirePushedAuthorizationRequests ??
+        this.#context.tokenOptions.requirePushedAuthorizationRequests);
+
+    if (!pushed_authorization_request_endpoint) {
+      if (requirePushedAuthorizationRequests) {
+        throw new Error(
+          "Pushed authorization requests are required, but the OP does not advertise a pushed_authorization_request_endpoint",
+        );
+      }
+      return url;
+    }
+
+    const authorizationUrl = new URL(url);
+    const { request_uri } = await pushAuthorizationRequest(
+      pushed_authorization_request_endpoint,
+      authorizationUrl.searchParams,
+    );
 
-    this.#storageManager.saveClientParams({
-      nonce,
-      state,
-      codeVerifier,
-      redirectUri: finalRedirectUri,
-    });
+    const pushedAuthorizationUrl = new URL(authorizationUrl.origin + authorizationUrl.pathname);
+    pushedAuthorizationUrl.searchParams.append("client_id", this.#context.clientId);
+    pushedAuthorizationUrl.searchParams.append("request_uri", request_uri);
 
-    window.location.href = url;
+    return pushedAuthorizationUrl.toString();
   }
 
-  async #clearAbandonedRedirectDpopKeyMaterial(): Promise<void> {
-    const existingTokenParams = this.#storageManager.getTokenParams();
-    if (existingTokenParams?.dpopKeyRef) {
-      await this.#context.clearDpopKeyMaterial(existingTokenParams.dpopKeyRef);
+  /**
+   * Removes expired redirect authorization requests and the DPoP key material persisted for them.
+   */
+  async #removeAbandonedAuthorizations(): Promise<void> {
+    for (const dpopKeyRef of this.#storageManager.removeExpiredPendingAuthorizations()) {
+      await this.#context.clearDpopKeyMaterial(dpopKeyRef);
     }
   }
 }
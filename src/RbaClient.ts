@@ -1,17 +1,22 @@
 import { decodeJwt } from "jose";
 import { AuthenticationTransaction } from "./AuthenticationTransaction";
 import { logoutSilently } from "./api";
+import { TransactionStateError } from "./errors";
 import type { IdaasContext } from "./IdaasContext";
 import type {
+  AuthenticationPollOptions,
   AuthenticationRequestParams,
   AuthenticationResponse,
   AuthenticationSubmissionParams,
+  LogoutOptions,
   TokenOptions,
 } from "./models";
-import type { StorageManager } from "./storage/StorageManager";
-import { clearStoredDpopKeyMaterialBestEffort } from "./utils/dpopCleanup";
+import { type AccessToken, type StorageManager, toTokenDetails } from "./storage/StorageManager";
+import { cleanupPersistedDpopKeyMaterialBestEffort, clearStoredDpopKeyMaterialBestEffort } from "./utils/dpopCleanup";
 import { calculateEpochExpiry } from "./utils/format";
 import { validateIdToken } from "./utils/jwt";
+import { buildPubKeyRequestOptions } from "./utils/passkey";
+import { revokeStoredTokensBestEffort } from "./utils/revocation";
 
 /**
  * Risk-Based Authentication (RBA) client for self-hosted authentication flows.
@@ -29,6 +34,7 @@ import { validateIdToken } from "./utils/jwt";
  * - `submitChallenge()`: Submit user response to the challenge
  * - `poll()`: Check for async completion (e.g., push notifications)
  * - `cancel()`: Cancel an ongoing authentication transaction
+ * - `resume()`: Resume the authentication transaction after a page reload
  * - `logout()`: End the session and revoke tokens
  *
  * @see {@link https://github.com/EntrustCorporation/idaas-auth-js/blob/main/docs/guides/rba.md RBA Guide}
@@ -70,15 +76,21 @@ export class RbaClient {
     options: AuthenticationRequestParams = {},
     tokenOptions?: TokenOptions,
   ): Promise<AuthenticationResponse> {
+    await this.#storageManager.ready();
+
     // 1. Prepare transaction
     await this.#initializeAuthenticationTransaction(options, tokenOptions);
 
     if (!this.#authenticationTransaction) {
-      throw new Error("Failed to initialize authentication transaction");
+      throw new TransactionStateError("Failed to initialize authentication transaction");
     }
 
     // 2. Request authentication challenge, return response
-    return await this.#authenticationTransaction.requestAuthChallenge();
+    const authenticationResponse = await this.#authenticationTransaction.requestAuthChallenge();
+    await this.#saveAuthenticationTransaction(authenticationResponse);
+    this.#emitChallengeIssued(authenticationResponse);
+
+    return authenticationResponse;
   }
 
   /**
@@ -102,7 +114,7 @@ export class RbaClient {
    */
   public async submitChallenge(options: AuthenticationSubmissionParams = {}): Promise<AuthenticationResponse> {
     if (!this.#authenticationTransaction) {
-      throw new Error("No authentication transaction in progress!");
+      throw new TransactionStateError("No authentication transaction in progress!");
     }
 
     const authenticationResponse = await this.#authenticationTransaction.submitAuthChallenge({ ...options });
@@ -110,6 +122,9 @@ export class RbaClient {
 
     if (authenticationResponse.authenticationCompleted) {
       await this.#handleAuthenticationTransactionSuccess();
+    } else if (authenticationResponse.secondFactorMethod) {
+      await this.#saveAuthenticationTransaction(authenticationResponse);
+      this.#emitChallengeIssued(authenticationResponse);
     }
 
     return authenticationResponse;
@@ -119,18 +134,25 @@ export class RbaClient {
    * Logs the user out and terminates their session.
    *
    * This method:
-   * 1. Revokes the session token with the identity provider (server-side logout)
-   * 2. Clears all stored tokens (access, ID, and refresh) from local storage
-   * 3. Resets the current authentication transaction
+   * 1. Revokes stored refresh tokens (and access tokens with `revokeAccessTokens`) at the `revocation_endpoint`
+   * 2. Revokes the session token with the identity provider (server-side logout)
+   * 3. Clears all stored tokens (access, ID, and refresh) from local storage
+   * 4. Resets the current authentication transaction
+   *
+   * Token revocation is skipped when the identity provider does not advertise a `revocation_endpoint`, and a failed
+   * revocation does not prevent logout.
    *
    * After logout, the user must authenticate again via `requestChallenge()`.
    *
    * **Note**: Unlike OIDC logout, this method does not redirect the browser.
    * It completes silently and returns a Promise.
    *
+   * @param options Logout options
    * @see {@link https://github.com/EntrustCorporation/idaas-auth-js/blob/main/docs/guides/rba.md RBA Guide}
    */
-  public async logout(): Promise<void> {
+  public async logout({ revokeAccessTokens }: LogoutOptions = {}): Promise<void> {
+    await this.#storageManager.ready();
+    await revokeStoredTokensBestEffort(this.#context, this.#storageManager, { revokeAccessTokens });
     await clearStoredDpopKeyMaterialBestEffort(this.#context, this.#storageManager);
 
     const baseUrl = new URL(this.#context.issuerUrl).origin;
@@ -142,6 +164,8 @@ export class RbaClient {
       }
     } finally {
       this.#storageManager.remove();
+      this.#storageManager.broadcastSessionChange("logout");
+      this.#context.events.emit("logout", { flow: "rba" });
     }
   }
 
@@ -153,27 +177,36 @@ export class RbaClient {
    * - Email magic links (user clicks link in email)
    * - SMS magic links (user clicks link in SMS)
    *
-   * When `pollForCompletion: true` in the challenge response, call this method repeatedly
-   * (e.g., every 2-3 seconds) to check if the user has completed authentication on their device.
+   * When `pollForCompletion: true` in the challenge response, call this method to wait until the user has
+   * completed authentication on their device.
    *
    * **Polling behavior:**
-   * - Returns `authenticationCompleted: false` while waiting for user action
-   * - Returns `authenticationCompleted: true` when authentication succeeds
+   * - Requests are sent every `intervalMs`, multiplied by `backoff` after each request the user has not responded to,
+   *   up to 30 seconds between two requests
+   * - `onStatus` is called with the status of every response, e.g. to update the UI while waiting
+   * - Resolves once the user responded, with `authenticationCompleted: true` when authentication succeeds
    * - Automatically stores tokens upon successful completion
+   * - `cancel()` ends polling, the returned response has `authenticationCompleted: false`
    *
+   * @param options The interval, backoff, timeout, abort signal, and status callback of polling
    * @returns Authentication response indicating completion status
-   * @throws {Error} If no authentication transaction is in progress
+   * @throws {TransactionStateError} If no authentication transaction is in progress
+   * @throws {Error} If `intervalMs` is not positive or `backoff` is less than 1
+   * @throws {TimeoutError} If the user does not respond within `timeoutMs`, the transaction can still be polled again
    * @see {@link https://github.com/EntrustCorporation/idaas-auth-js/blob/main/docs/guides/rba.md RBA Guide}
    */
-  public async poll(): Promise<AuthenticationResponse> {
+  public async poll(options: AuthenticationPollOptions = {}): Promise<AuthenticationResponse> {
     if (!this.#authenticationTransaction) {
-      throw new Error("No authentication transaction in progress!");
+      throw new TransactionStateError("No authentication transaction in progress!");
     }
 
-    const authenticationResponse = await this.#authenticationTransaction.pollForAuthCompletion();
+    const authenticationResponse = await this.#authenticationTransaction.pollForAuthCompletion(options);
 
     if (authenticationResponse.authenticationCompleted) {
       await this.#handleAuthenticationTransactionSuccess();
+    } else {
+      // The user denied the challenge or it timed out, the transaction cannot be resumed
+      await this.#removeAuthenticationTransaction();
     }
     return authenticationResponse;
   }
@@ -194,10 +227,48 @@ export class RbaClient {
    */
   public async cancel(): Promise<void> {
     if (!this.#authenticationTransaction) {
-      throw new Error("No authentication transaction in progress!");
+      throw new TransactionStateError("No authentication transaction in progress!");
     }
 
     await this.#authenticationTransaction.cancelAuthChallenge();
+    await this.#removeAuthenticationTransaction();
+  }
+
+  /**
+   * Resumes the authentication transaction that was waiting for the user when the page was reloaded or evicted,
+   * e.g. while the user approved a push notification on their phone.
+   *
+   * Transactions are stored from `requestChallenge()` until they complete, are cancelled, or expire after 10 minutes.
+   * The returned challenge is the one last returned by `requestChallenge()` or `submitChallenge()`, continue with
+   * `poll()` when `pollForCompletion` is `true`, and with `submitChallenge()` otherwise.
+   *
+   * **Note**: The password of `PASSWORD_AND_SECONDFACTOR` and answers to KBA questions are never stored.
+   *
+   * @returns The challenge of the resumed transaction, or `null` when there is no transaction to resume
+   * @see {@link https://github.com/EntrustCorporation/idaas-auth-js/blob/main/docs/guides/rba.md RBA Guide}
+   */
+  public async resume(): Promise<AuthenticationResponse | null> {
+    await this.#storageManager.ready();
+
+    const pendingRbaTransaction = this.#storageManager.getRbaTransaction();
+    if (!pendingRbaTransaction) {
+      // Clean up a transaction that expired
+      await this.#removeAuthenticationTransaction();
+      return null;
+    }
+
+    const { transaction, challenge } = pendingRbaTransaction;
+    this.#authenticationTransaction = AuthenticationTransaction.fromState({
+      context: this.#context,
+      oidcConfig: await this.#context.getConfig(),
+      clientId: this.#context.clientId,
+      state: transaction,
+    });
+
+    return {
+      ...challenge,
+      passkeyChallenge: transaction.fidoChallenge && buildPubKeyRequestOptions(transaction.fidoChallenge),
+    };
   }
 
   #initializeAuthenticationTransaction = async (
@@ -223,6 +294,7 @@ export class RbaClient {
         audience: tokenOptions?.audience ?? this.#context.tokenOptions.audience,
         scope: normalizedScope,
         acrValues: tokenOptions?.acrValues ?? this.#context.tokenOptions.acrValues,
+        resource: tokenOptions?.resource ?? this.#context.tokenOptions.resource,
         useRefreshToken: tokenOptions?.useRefreshToken ?? this.#context.tokenOptions.useRefreshToken,
         maxAge: tokenOptions?.maxAge ?? this.#context.tokenOptions.maxAge,
         includeOpenidScope: effectiveincludeOpenidScope,
@@ -232,9 +304,33 @@ export class RbaClient {
     });
   };
 
+  async #saveAuthenticationTransaction(authenticationResponse: AuthenticationResponse) {
+    if (!this.#authenticationTransaction || authenticationResponse.authenticationCompleted) {
+      return;
+    }
+
+    try {
+      this.#storageManager.saveRbaTransaction(await this.#authenticationTransaction.toState(), authenticationResponse);
+    } catch {
+      // Resuming after a reload is best-effort, the transaction can still be completed on this page.
+    }
+  }
+
+  async #removeAuthenticationTransaction() {
+    await cleanupPersistedDpopKeyMaterialBestEffort(this.#storageManager.removeRbaTransaction());
+  }
+
+  #emitChallengeIssued({ method, secondFactorMethod, pollForCompletion }: AuthenticationResponse) {
+    this.#context.events.emit("rbaChallengeIssued", {
+      method,
+      secondFactorMethod,
+      pollForCompletion: !!pollForCompletion,
+    });
+  }
+
   #handleAuthenticationTransactionSuccess = async () => {
     if (!this.#authenticationTransaction) {
-      throw new Error("No authentication transaction in progress!");
+      throw new TransactionStateError("No authentication transaction in progress!");
     }
 
     const {
@@ -246,6 +342,7 @@ export class RbaClient {
       maxAge,
       audience,
       acr,
+      resource,
       nonce,
       dpopBound,
       dpopKeyRef,
@@ -254,11 +351,11 @@ export class RbaClient {
     // Only require accessToken for OAuth-only flows
     const requireIdToken = this.#authenticationTransaction.requiresIdToken();
     if (!accessToken || !expiresAt || !scope || (requireIdToken && !idToken)) {
-      throw new Error("Error retrieving tokens from transaction");
+      throw new TransactionStateError("Error retrieving tokens from transaction");
     }
 
     // Save access token always
-    this.#storageManager.saveAccessToken({
+    const newAccessToken: AccessToken = {
       accessToken,
       expiresAt,
       scope,
@@ -268,7 +365,10 @@ export class RbaClient {
       acr,
       dpopBound,
       dpopKeyRef,
-    });
+      resource,
+      grantedResources: resource,
+    };
+    this.#storageManager.saveAccessToken(newAccessToken);
 
     // Save ID token only if present
     if (idToken) {
@@ -276,7 +376,7 @@ export class RbaClient {
         throw new Error("Nonce (nonce) claim is missing from ID token validation context");
       }
 
-      const { id_token_signing_alg_values_supported, acr_values_supported, jwks_uri } = await this.#context.getConfig();
+      const { id_token_signing_alg_values_supported, acr_values_supported } = await this.#context.getConfig();
       const requestedAcrValues = acr?.split(" ").filter(Boolean);
 
       const { idToken: encodedIdToken, decodedJwt } = await validateIdToken({
@@ -286,7 +386,7 @@ export class RbaClient {
         nonce,
         idTokenSigningAlgValuesSupported: id_token_signing_alg_values_supported,
         acrValuesSupported: acr_values_supported,
-        jwksEndpoint: jwks_uri,
+        jwks: this.#context.getJwks(),
         requestedAcrValues,
       });
 
@@ -296,6 +396,13 @@ export class RbaClient {
       });
     }
 
+    // The DPoP key material of the transaction is kept, the access token is bound to it
+    this.#storageManager.removeRbaTransaction();
+    this.#storageManager.broadcastSessionChange("login");
     this.#authenticationTransaction = undefined;
+
+    const token = toTokenDetails(newAccessToken);
+    this.#context.events.emit("rbaCompleted", { token });
+    this.#context.events.emit("login", { flow: "rba", token });
   };
 }
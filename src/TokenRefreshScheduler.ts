@@ -0,0 +1,192 @@
+import { OAuthError } from "./errors";
+import type { TokenRefreshOptions } from "./models";
+import type { AccessToken, StorageManager } from "./storage/StorageManager";
+
+const DEFAULT_LEAD_TIME_SECONDS = 60;
+const DEFAULT_JITTER_SECONDS = 10;
+// setTimeout overflows and fires immediately for delays above 2^31 - 1 ms
+const MAX_TIMEOUT_MS = 2_147_483_647;
+
+export interface TokenRefreshSchedulerOptions extends TokenRefreshOptions {
+  storageManager: StorageManager;
+  refresh: (token: AccessToken) => Promise<unknown>;
+}
+
+/**
+ * Refreshes stored access tokens ahead of their expiry.
+ *
+ * Watches `expiresAt` on every refreshable token held by the StorageManager and refreshes it `leadTimeSeconds`
+ * (minus a random jitter of up to `jitterSeconds`) before it expires. Scheduling is paused while the document is
+ * hidden and catches up with any overdue refreshes once the document becomes visible or the browser comes back online.
+ */
+export class TokenRefreshScheduler {
+  readonly #storageManager: StorageManager;
+  readonly #refresh: (token: AccessToken) => Promise<unknown>;
+  readonly #leadTimeSeconds: number;
+  readonly #jitterSeconds: number;
+  readonly #onError?: (error: unknown) => void;
+
+  // Tokens that cannot be refreshed anymore, by their encoded access token
+  readonly #abandonedTokens = new Set<string>();
+  #timer?: ReturnType<typeof setTimeout>;
+  #abortController?: AbortController;
+  #unsubscribe?: () => void;
+  #running = false;
+  #refreshing = false;
+
+  constructor({ storageManager, refresh, leadTimeSeconds, jitterSeconds, onError }: TokenRefreshSchedulerOptions) {
+    this.#storageManager = storageManager;
+    this.#refresh = refresh;
+    this.#leadTimeSeconds = Math.max(leadTimeSeconds ?? DEFAULT_LEAD_TIME_SECONDS, 0);
+    this.#jitterSeconds = Math.max(jitterSeconds ?? DEFAULT_JITTER_SECONDS, 0);
+    this.#onError = onError;
+  }
+
+  /**
+   * Starts watching stored tokens. Calling `start` on a running scheduler has no effect.
+   */
+  public start(): void {
+    if (this.#running) {
+      return;
+    }
+
+    this.#running = true;
+    this.#abortController = new AbortController();
+    const { signal } = this.#abortController;
+
+    if (typeof document !== "undefined") {
+      document.addEventListener("visibilitychange", () => this.#catchUp(), { signal });
+    }
+    if (typeof window !== "undefined") {
+      window.addEventListener("online", () => this.#catchUp(), { signal });
+    }
+
+    this.#unsubscribe = this.#storageManager.subscribe(() => this.#catchUp());
+
+    this.#catchUp();
+  }
+
+  /**
+   * Stops watching stored tokens and cancels any pending refresh.
+   */
+  public stop(): void {
+    if (!this.#running) {
+      return;
+    }
+
+    this.#running = false;
+    this.#clearTimer();
+    this.#abortController?.abort();
+    this.#abortController = undefined;
+    this.#unsubscribe?.();
+    this.#unsubscribe = undefined;
+  }
+
+  #catchUp(): void {
+    if (this.#isPaused()) {
+      this.#clearTimer();
+      return;
+    }
+
+    // Tokens saved by an in-progress pass are picked up when it reschedules
+    if (this.#refreshing) {
+      return;
+    }
+
+    void this.#refreshDueTokens();
+  }
+
+  #schedule(): void {
+    this.#clearTimer();
+
+    if (this.#isPaused()) {
+      return;
+    }
+
+    const refreshAt = this.#getRefreshableTokens().map((token) => this.#getRefreshTime(token));
+    if (refreshAt.length === 0) {
+      return;
+    }
+
+    const delay = Math.min(Math.max(Math.min(...refreshAt) - Date.now(), 0), MAX_TIMEOUT_MS);
+    this.#timer = setTimeout(() => {
+      this.#timer = undefined;
+      this.#catchUp();
+    }, delay);
+  }
+
+  async #refreshDueTokens(): Promise<void> {
+    this.#refreshing = true;
+    this.#clearTimer();
+
+    try {
+      const now = Date.now();
+      const dueTokens = this.#getRefreshableTokens().filter(
+        (token) => (token.expiresAt - this.#leadTimeSeconds - this.#jitterSeconds) * 1000 <= now,
+      );
+
+      for (const token of dueTokens) {
+        if (!this.#running) {
+          return;
+        }
+
+        try {
+          await this.#refresh(token);
+        } catch (error) {
+          // Retrying would fail again once the OP rejected the refresh token or the token expired
+          if (
+            (error instanceof OAuthError && error.error === "invalid_grant") ||
+            token.expiresAt * 1000 <= Date.now()
+          ) {
+            this.#abandonedTokens.add(token.accessToken);
+          }
+          this.#onError?.(error);
+        }
+      }
+    } finally {
+      this.#refreshing = false;
+    }
+
+    this.#schedule();
+  }
+
+  #getRefreshableTokens(): AccessToken[] {
+    const now = Date.now();
+    const tokens = this.#storageManager.getAccessTokens();
+
+    // Forget abandoned tokens once they are no longer stored
+    const storedAccessTokens = new Set(tokens.map((token) => token.accessToken));
+    for (const accessToken of this.#abandonedTokens) {
+      if (!storedAccessTokens.has(accessToken)) {
+        this.#abandonedTokens.delete(accessToken);
+      }
+    }
+
+    return tokens.filter((token) => {
+      if (!token.refreshToken || this.#abandonedTokens.has(token.accessToken)) {
+        return false;
+      }
+
+      // A refresh cannot extend a token past its max_age, so there is nothing to schedule
+      return !(token.maxAgeExpiry && token.maxAgeExpiry * 1000 <= now);
+    });
+  }
+
+  #getRefreshTime(token: AccessToken): number {
+    const jitter = Math.random() * this.#jitterSeconds;
+    const refreshAt = (token.expiresAt - this.#leadTimeSeconds - jitter) * 1000;
+    // A token that is still due after #refreshDueTokens ran failed to refresh, retry it after the jitter window
+    return refreshAt <= Date.now() ? Date.now() + Math.max(this.#jitterSeconds, 1) * 1000 : refreshAt;
+  }
+
+  #isPaused(): boolean {
+    return !this.#running || (typeof document !== "undefined" && document.visibilityState === "hidden");
+  }
+
+  #clearTimer(): void {
+    if (this.#timer) {
+      clearTimeout(this.#timer);
+      this.#timer = undefined;
+    }
+  }
+}
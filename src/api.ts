@@ -1,4 +1,5 @@
-import type { JWTPayload } from "jose";
+import type { JSONWebKeySet, JWTPayload } from "jose";
+import { DiscoveryError, IdaasApiError, NetworkError, OAuthError } from "./errors";
 import type { IdaasAuthenticationMethod } from "./models/";
 import type {
   AuthenticatedResponse,
@@ -36,6 +37,10 @@ export interface OidcConfig {
   id_token_signing_alg_values_supported: string[];
   claims_supported: string[];
   end_session_endpoint: string;
+  revocation_endpoint?: string;
+  pushed_authorization_request_endpoint?: string;
+  device_authorization_endpoint?: string;
+  require_pushed_authorization_requests?: boolean;
 }
 
 /**
@@ -50,6 +55,7 @@ export interface AccessTokenRequest {
   redirect_uri: string;
   client_id: string;
   claims?: string;
+  resource?: string[];
 }
 
 export interface JwtIdaasTokenRequest {
@@ -58,6 +64,7 @@ export interface JwtIdaasTokenRequest {
   code_verifier: string;
   client_id: string;
   jwt: string;
+  resource?: string[];
 }
 
 /**
@@ -69,6 +76,84 @@ export interface RefreshTokenRequest {
   grant_type: "refresh_token";
   refresh_token: string;
   client_id: string;
+  resource?: string[];
+}
+
+/**
+ * Required body to present to the Token endpoint when polling for the tokens of a device authorization.
+ *
+ * See more at: https://datatracker.ietf.org/doc/html/rfc8628#section-3.4
+ */
+export interface DeviceCodeTokenRequest {
+  grant_type: "urn:ietf:params:oauth:grant-type:device_code";
+  device_code: string;
+  client_id: string;
+  resource?: string[];
+}
+
+/**
+ * Required body to present to the Token endpoint when exchanging a token for another one.
+ *
+ * See more at: https://datatracker.ietf.org/doc/html/rfc8693#section-2.1
+ */
+export interface TokenExchangeRequest {
+  grant_type: "urn:ietf:params:oauth:grant-type:token-exchange";
+  client_id: string;
+  subject_token: string;
+  subject_token_type: string;
+  audience?: string;
+  scope?: string;
+  requested_token_type?: string;
+  actor_token?: string;
+  actor_token_type?: string;
+}
+
+/**
+ * Required body to present to the Device Authorization endpoint.
+ *
+ * See more at: https://datatracker.ietf.org/doc/html/rfc8628#section-3.1
+ */
+export interface DeviceAuthorizationRequest {
+  client_id: string;
+  scope: string;
+  audience?: string;
+  acr_values?: string;
+  resource?: string[];
+}
+
+/**
+ * Success response from the Device Authorization endpoint.
+ *
+ * See more at: https://datatracker.ietf.org/doc/html/rfc8628#section-3.2
+ */
+export interface DeviceAuthorizationResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete?: string;
+  expires_in: number;
+  interval?: number;
+}
+
+/**
+ * Required body to present to the Revocation endpoint.
+ *
+ * See more at: https://datatracker.ietf.org/doc/html/rfc7009#section-2.1
+ */
+export interface RevocationRequest {
+  token: string;
+  token_type_hint: "refresh_token" | "access_token";
+  client_id: string;
+}
+
+/**
+ * Success response from the Pushed Authorization Request endpoint.
+ *
+ * See more at: https://datatracker.ietf.org/doc/html/rfc9126#section-2.2
+ */
+export interface PushedAuthorizationResponse {
+  request_uri: string;
+  expires_in: number;
 }
 
 /**
@@ -83,20 +168,86 @@ export interface TokenResponse {
   expires_in: string;
   refresh_token?: string;
   scope?: string;
+  // RFC 8693: the type of the token issued by a token exchange
+  issued_token_type?: string;
 }
 
+// The OP metadata the SDK cannot work without
+const REQUIRED_OIDC_CONFIG_ENDPOINTS = ["authorization_endpoint", "token_endpoint", "jwks_uri"] as const;
+
 /**
  * Fetch the public OpenID Provider (OP) metadata from a well-known endpoint as part of the OIDC discovery specification.
  *
  * See more at: https://openid.net/specs/openid-connect-discovery-1_0.html
  * @param issuerUrl the OP's issuer location
+ * @throws {DiscoveryError} If the request fails or the metadata is invalid
  */
 export const fetchOpenidConfiguration = async (issuerUrl: string): Promise<OidcConfig> => {
   const wellKnownUrl = `${issuerUrl}/.well-known/openid-configuration`;
 
-  const response = await fetch(wellKnownUrl);
+  const response = await sendRequest(wellKnownUrl);
+  if (!response.ok) {
+    throw new DiscoveryError(`OIDC discovery request to ${wellKnownUrl} failed with status ${response.status}`);
+  }
 
-  return await response.json();
+  const oidcConfig = await response.json().catch((error: unknown) => {
+    throw new DiscoveryError(`OIDC discovery response from ${wellKnownUrl} is not JSON`, { cause: error });
+  });
+
+  return validateOidcConfig(oidcConfig, issuerUrl);
+};
+
+/**
+ * Validate OP metadata, whether discovered or supplied by the application, before it is used.
+ *
+ * See more at: https://openid.net/specs/openid-connect-discovery-1_0.html#ProviderConfigurationValidation
+ * @param oidcConfig the OP metadata to validate
+ * @param issuerUrl the issuer the metadata must belong to
+ * @throws {DiscoveryError} If the issuer does not match or a required endpoint is missing
+ */
+export const validateOidcConfig = (oidcConfig: unknown, issuerUrl: string): OidcConfig => {
+  if (!oidcConfig || typeof oidcConfig !== "object") {
+    throw new DiscoveryError("OpenID provider metadata must be a JSON object");
+  }
+
+  const config = oidcConfig as Partial<OidcConfig>;
+  if (config.issuer !== issuerUrl) {
+    throw new DiscoveryError(
+      `OpenID provider metadata issuer "${config.issuer}" does not match the configured issuerUrl "${issuerUrl}"`,
+    );
+  }
+
+  for (const endpoint of REQUIRED_OIDC_CONFIG_ENDPOINTS) {
+    if (typeof config[endpoint] !== "string") {
+      throw new DiscoveryError(`OpenID provider metadata is missing the ${endpoint}`);
+    }
+  }
+
+  return config as OidcConfig;
+};
+
+/**
+ * Fetch the OP's JSON Web Key Set, the public keys that verify the signatures of the tokens it issues.
+ *
+ * See more at: https://openid.net/specs/openid-connect-discovery-1_0.html#ProviderMetadata
+ * @param jwksUri the JWKS endpoint as defined in the public OpenID provider metadata
+ * @throws {DiscoveryError} If the request fails or the response is not a key set
+ */
+export const fetchJwks = async (jwksUri: string): Promise<JSONWebKeySet> => {
+  const response = await sendRequest(jwksUri);
+  if (!response.ok) {
+    throw new DiscoveryError(`JWKS request to ${jwksUri} failed with status ${response.status}`);
+  }
+
+  const jwks = await response.json().catch((error: unknown) => {
+    throw new DiscoveryError(`JWKS response from ${jwksUri} is not JSON`, { cause: error });
+  });
+
+  if (!Array.isArray(jwks?.keys)) {
+    throw new DiscoveryError(`JWKS response from ${jwksUri} is not a JSON Web Key Set`);
+  }
+
+  return jwks;
 };
 
 /**
@@ -111,13 +262,14 @@ export const fetchOpenidConfiguration = async (issuerUrl: string): Promise<OidcC
  */
 export const requestToken = async (
   tokenEndpoint: string,
-  tokenRequest: AccessTokenRequest | RefreshTokenRequest | JwtIdaasTokenRequest,
+  tokenRequest:
+    | AccessTokenRequest
+    | RefreshTokenRequest
+    | JwtIdaasTokenRequest
+    | DeviceCodeTokenRequest
+    | TokenExchangeRequest,
   dpopJwt?: string,
 ): Promise<TokenResponse> => {
-  const searchParams = new URLSearchParams({
-    ...tokenRequest,
-  });
-
   const headers: Record<string, string> = {
     "Content-Type": "application/x-www-form-urlencoded",
   };
@@ -126,15 +278,94 @@ export const requestToken = async (
     headers.DPoP = dpopJwt;
   }
 
-  const response = await fetch(tokenEndpoint, {
+  const response = await sendRequest(tokenEndpoint, {
     method: "POST",
     headers,
-    body: searchParams,
+    body: toFormParams(tokenRequest),
   });
 
+  if (!response.ok) {
+    throw await parseOAuthError(response, "Token request");
+  }
+
   return await response.json();
 };
 
+/**
+ * Start a device authorization, which returns the codes the user enters on another device to approve it.
+ *
+ * See more at: https://datatracker.ietf.org/doc/html/rfc8628#section-3.1
+ * @param deviceAuthorizationEndpoint the device authorization endpoint as defined in the public OpenID provider metadata
+ * @param deviceAuthorizationRequest the client and the tokens it requests
+ */
+export const requestDeviceAuthorization = async (
+  deviceAuthorizationEndpoint: string,
+  deviceAuthorizationRequest: DeviceAuthorizationRequest,
+): Promise<DeviceAuthorizationResponse> => {
+  const response = await sendRequest(deviceAuthorizationEndpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: toFormParams(deviceAuthorizationRequest),
+  });
+
+  if (!response.ok) {
+    throw await parseOAuthError(response, "Device authorization request");
+  }
+
+  return await response.json();
+};
+
+/**
+ * Push the parameters of an authorization request to the Pushed Authorization Request endpoint, which returns a
+ * `request_uri` referencing them for use at the authorization endpoint.
+ *
+ * See more at: https://datatracker.ietf.org/doc/html/rfc9126#section-2
+ * @param parEndpoint the pushed authorization request endpoint as defined in the public OpenID provider metadata
+ * @param authorizationParams the parameters of the authorization request
+ */
+export const pushAuthorizationRequest = async (
+  parEndpoint: string,
+  authorizationParams: URLSearchParams,
+): Promise<PushedAuthorizationResponse> => {
+  const response = await sendRequest(parEndpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: authorizationParams,
+  });
+
+  if (!response.ok) {
+    throw await parseOAuthError(response, "Pushed authorization request");
+  }
+
+  return await response.json();
+};
+
+/**
+ * Make a request to the Revocation endpoint to invalidate a refresh token or access token.
+ * The OP also responds with success for tokens that are already invalid, so only real failures reject.
+ *
+ * See more at: https://datatracker.ietf.org/doc/html/rfc7009#section-2
+ * @param revocationEndpoint the revocation endpoint as defined in the public OpenID provider metadata
+ * @param revocationRequest the token to revoke
+ */
+export const revokeToken = async (revocationEndpoint: string, revocationRequest: RevocationRequest): Promise<void> => {
+  const response = await sendRequest(revocationEndpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({ ...revocationRequest }),
+  });
+
+  if (!response.ok) {
+    throw await parseOAuthError(response, "Token revocation");
+  }
+};
+
 /**
  * Make a request to the userinfo endpoint.
  *
@@ -142,6 +373,7 @@ export const requestToken = async (
  * @param accessToken an access token retrieved through the OIDC ceremony, with the OP as the audience
  * @return a string representing either a JSON object or a signed jwt containing the user claims, depending on the OIDC
  * application configuration
+ * @throws {OAuthError} If the OP rejects the request, e.g. with `invalid_token`
  */
 export const getUserInfo = async (userInfoEndpoint: string, accessToken: string, dpopJwt?: string) => {
   const headers: Record<string, string> = {
@@ -153,11 +385,15 @@ export const getUserInfo = async (userInfoEndpoint: string, accessToken: string,
     headers.DPoP = dpopJwt;
   }
 
-  const response = await fetch(userInfoEndpoint, {
+  const response = await sendRequest(userInfoEndpoint, {
     method: "GET",
     headers,
   });
 
+  if (!response.ok) {
+    throw await parseOAuthError(response, "UserInfo request");
+  }
+
   return await response.text();
 };
 
@@ -171,13 +407,13 @@ export const queryUserAuthOptions = async (
   requestBody: UserAuthenticateQueryParameters,
   baseUrl: string,
 ): Promise<UserAuthenticateQueryResponse> => {
-  const { data, error } = await userAuthenticatorQueryUsingPost({
+  const { data, error, response } = await userAuthenticatorQueryUsingPost({
     baseUrl,
     body: { ...requestBody },
   });
 
   if (error) {
-    throw parseResponseError(error);
+    throw parseResponseError(error, response);
   }
   return data;
 };
@@ -194,14 +430,14 @@ export const requestAuthChallenge = async (
   authenticator: IdaasAuthenticationMethod,
   baseUrl: string,
 ): Promise<AuthenticatedResponse> => {
-  const { data, error } = await userChallengeUsingPost({
+  const { data, error, response } = await userChallengeUsingPost({
     baseUrl,
     body: { ...requestBody },
     path: { authenticator },
   });
 
   if (error) {
-    throw parseResponseError(error);
+    throw parseResponseError(error, response);
   }
   return data;
 };
@@ -220,7 +456,7 @@ export const submitAuthChallenge = async (
   authorization: string,
   baseUrl: string,
 ): Promise<AuthenticatedResponse> => {
-  const { data, error } = await userAuthenticateUsingPost({
+  const { data, error, response } = await userAuthenticateUsingPost({
     baseUrl,
     headers: { Authorization: authorization },
     body: { ...requestBody },
@@ -228,7 +464,7 @@ export const submitAuthChallenge = async (
   });
 
   if (error) {
-    throw parseResponseError(error);
+    throw parseResponseError(error, response);
   }
   return data;
 };
@@ -240,34 +476,80 @@ export const submitAuthChallenge = async (
  * @param baseUrl origin of the IDaaS API host
  */
 export const logoutSilently = async (authorization: string, baseUrl: string): Promise<void> => {
-  const { error } = await logoutUsingPost({
+  const { error, response } = await logoutUsingPost({
     baseUrl,
     headers: { Authorization: `Bearer ${authorization}` },
   });
 
   if (error) {
-    throw parseResponseError(error);
+    throw parseResponseError(error, response);
   }
 };
 
 export const getAuthRequestId = async (endpoint: string) => {
-  const response = await fetch(endpoint, {
+  const response = await sendRequest(endpoint, {
     method: "POST",
   });
 
-  const responseJson = await response.json();
-
   if (!response.ok) {
-    throw new Error(responseJson.error_description, {
-      cause: responseJson.error,
-    });
+    throw await parseOAuthError(response, "Authorization request");
   }
 
-  return responseJson;
+  return await response.json();
 };
 
-const parseResponseError = (errorResponse: ErrorInfo) => {
-  return new Error(errorResponse.errorCode, {
-    cause: errorResponse.errorMessage,
-  });
+/**
+ * Encode a request body as form parameters, lists such as RFC 8707 resource indicators are sent as one parameter per
+ * value.
+ */
+const toFormParams = (params: object): URLSearchParams => {
+  const searchParams = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    for (const item of [value].flat()) {
+      if (item !== undefined) {
+        searchParams.append(name, item);
+      }
+    }
+  }
+  return searchParams;
+};
+
+/**
+ * Send a request with `fetch`, surfacing failures to reach the server as a `NetworkError`.
+ */
+const sendRequest = async (url: string, init?: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    throw new NetworkError(`Request to ${url} failed`, { cause: error });
+  }
+};
+
+/**
+ * Read the OAuth error response of a failed request to an OAuth endpoint. Responses without an OAuth error body
+ * are reported with the `server_error` code.
+ */
+const parseOAuthError = async (response: Response, requestName: string): Promise<OAuthError> => {
+  const responseJson = await response.json().catch(() => ({}));
+
+  if (typeof responseJson.error !== "string") {
+    return new OAuthError(
+      { error: "server_error", error_description: `${requestName} failed with status ${response.status}` },
+      response.status,
+    );
+  }
+
+  return new OAuthError(responseJson, response.status);
+};
+
+/**
+ * Convert the error returned by the generated IDaaS API client. The client reports a failed `fetch` as the error
+ * itself, without a response.
+ */
+const parseResponseError = (error: unknown, response?: Response) => {
+  if (!response) {
+    return new NetworkError("Request to the IDaaS Authentication API failed", { cause: error });
+  }
+
+  return new IdaasApiError(error as ErrorInfo, response.status);
 };
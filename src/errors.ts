@@ -0,0 +1,236 @@
+import type { ErrorInfo } from "./models/openapi-ts";
+
+/**
+ * Base class of every error thrown by the SDK, use it to tell SDK errors apart from application errors.
+ */
+export class IdaasError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "IdaasError";
+  }
+}
+
+/**
+ * A request could not reach the server, e.g. the device is offline or the request was blocked by CORS.
+ * The underlying `fetch` error is available as `cause`.
+ */
+export class NetworkError extends IdaasError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * The error response of an OAuth 2.0 endpoint (authorize, token, or revocation).
+ *
+ * See more at: https://datatracker.ietf.org/doc/html/rfc6749#section-5.2
+ */
+export interface OAuthErrorResponse {
+  error: string;
+  error_description?: string | null;
+  error_uri?: string | null;
+}
+
+/**
+ * The OpenID Provider metadata could not be discovered or is invalid, e.g. because `issuerUrl` is wrong or the
+ * metadata belongs to another issuer. The underlying error, if any, is available as `cause`.
+ */
+export class DiscoveryError extends IdaasError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "DiscoveryError";
+  }
+}
+
+/**
+ * The OpenID Provider rejected a request with an OAuth 2.0 error, such as `invalid_grant` from the token endpoint or
+ * `access_denied` from the authorization endpoint.
+ */
+export class OAuthError extends IdaasError {
+  /**
+   * The OAuth error code, e.g. `invalid_grant`.
+   */
+  readonly error: string;
+
+  /**
+   * A human-readable description of the error, if the OP provided one.
+   */
+  readonly error_description?: string;
+
+  /**
+   * A URI identifying a human-readable web page with information about the error, if the OP provided one.
+   */
+  readonly error_uri?: string;
+
+  /**
+   * The HTTP status of the response, not set for errors returned by the authorization endpoint.
+   */
+  readonly status?: number;
+
+  constructor({ error, error_description, error_uri }: OAuthErrorResponse, status?: number) {
+    super(error_description ?? error);
+    this.name = "OAuthError";
+    this.error = error;
+    this.error_description = error_description ?? undefined;
+    this.error_uri = error_uri ?? undefined;
+    this.status = status;
+  }
+}
+
+/**
+ * The IDaaS Authentication API rejected a request.
+ */
+export class IdaasApiError extends IdaasError {
+  /**
+   * The IDaaS error code specific to the cause of the failure.
+   */
+  readonly errorCode?: string;
+
+  /**
+   * The IDaaS error message describing the failure.
+   */
+  readonly errorMessage?: string;
+
+  /**
+   * Additional error information returned by IDaaS.
+   */
+  readonly parameters?: ErrorInfo["parameters"];
+
+  /**
+   * The HTTP status of the response.
+   */
+  readonly status?: number;
+
+  constructor({ errorCode, errorMessage, parameters }: ErrorInfo, status?: number) {
+    super(errorMessage ?? errorCode ?? `IDaaS request failed with status ${status}`);
+    this.name = "IdaasApiError";
+    this.errorCode = errorCode;
+    this.errorMessage = errorMessage;
+    this.parameters = parameters;
+    this.status = status;
+  }
+}
+
+/**
+ * A token received from the OpenID Provider failed validation, e.g. an ID token with an invalid signature, issuer,
+ * audience, nonce, or expiry, or a token response that is missing required tokens.
+ */
+export class TokenValidationError extends IdaasError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "TokenValidationError";
+  }
+}
+
+/**
+ * Why a popup flow failed.
+ * - `blocked`: the browser refused to open the popup
+ * - `closed`: the user closed the popup before completing authentication
+ * - `timeout`: the user did not complete authentication in time
+ */
+export type PopupErrorReason = "blocked" | "closed" | "timeout";
+
+/**
+ * A popup login could not be completed.
+ */
+export class PopupError extends IdaasError {
+  readonly reason: PopupErrorReason;
+
+  constructor(message: string, reason: PopupErrorReason) {
+    super(message);
+    this.name = "PopupError";
+    this.reason = reason;
+  }
+}
+
+/**
+ * An operation did not complete in time.
+ */
+export class TimeoutError extends IdaasError {
+  constructor(message: string) {
+    super(message);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * An operation was called in a state that does not allow it, e.g. submitting a challenge with no RBA transaction in
+ * progress, or handling a redirect whose state does not match the stored login state.
+ */
+export class TransactionStateError extends IdaasError {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransactionStateError";
+  }
+}
+
+/**
+ * The authorization error codes returned by the OP when a `prompt=none` request cannot complete without showing
+ * the user an interactive page.
+ */
+export type InteractionRequiredErrorCode =
+  | "login_required"
+  | "consent_required"
+  | "interaction_required"
+  | "account_selection_required";
+
+const INTERACTION_REQUIRED_ERROR_CODES: readonly string[] = [
+  "login_required",
+  "consent_required",
+  "interaction_required",
+  "account_selection_required",
+] satisfies InteractionRequiredErrorCode[];
+
+/**
+ * Silent authentication failed because the user has to interact with the OP, fall back to an interactive login.
+ */
+export class InteractionRequiredError extends OAuthError {
+  declare readonly error: InteractionRequiredErrorCode;
+
+  constructor(error: InteractionRequiredErrorCode, error_description?: string) {
+    super({ error, error_description });
+    this.name = "InteractionRequiredError";
+  }
+}
+
+/**
+ * The user has no active session at the OP.
+ */
+export class LoginRequiredError extends InteractionRequiredError {
+  constructor(error_description?: string) {
+    super("login_required", error_description);
+    this.name = "LoginRequiredError";
+  }
+}
+
+/**
+ * The user has an active session but has not consented to the requested scopes.
+ */
+export class ConsentRequiredError extends InteractionRequiredError {
+  constructor(error_description?: string) {
+    super("consent_required", error_description);
+    this.name = "ConsentRequiredError";
+  }
+}
+
+const isInteractionRequiredErrorCode = (error: string): error is InteractionRequiredErrorCode => {
+  return INTERACTION_REQUIRED_ERROR_CODES.includes(error);
+};
+
+/**
+ * Maps an OAuth error response to its typed error, interaction required codes get their own subclasses.
+ */
+export const toOAuthError = (response: OAuthErrorResponse, status?: number): OAuthError => {
+  const error_description = response.error_description ?? undefined;
+  switch (response.error) {
+    case "login_required":
+      return new LoginRequiredError(error_description);
+    case "consent_required":
+      return new ConsentRequiredError(error_description);
+    default:
+      return isInteractionRequiredErrorCode(response.error)
+        ? new InteractionRequiredError(response.error, error_description)
+        : new OAuthError(response, status);
+  }
+};
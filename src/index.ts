@@ -1,21 +1,64 @@
+export type { OidcConfig } from "./api";
+export {
+  ConsentRequiredError,
+  DiscoveryError,
+  IdaasApiError,
+  IdaasError,
+  InteractionRequiredError,
+  type InteractionRequiredErrorCode,
+  LoginRequiredError,
+  NetworkError,
+  OAuthError,
+  type OAuthErrorResponse,
+  PopupError,
+  type PopupErrorReason,
+  TimeoutError,
+  TokenValidationError,
+  TransactionStateError,
+} from "./errors";
 export { IdaasClient } from "./IdaasClient";
+export { IdaasTenantRegistry } from "./IdaasTenantRegistry";
 
 export type {
+  AuthenticationPollOptions,
   AuthenticationRequestParams,
   AuthenticationResponse,
+  AuthenticationStatus,
   AuthenticationSubmissionParams,
+  AuthorizationParams,
+  ClaimsRequest,
+  DeviceAuthorization,
+  DeviceLoginResult,
   DPoPOptions,
   DpopHeadersOptions,
   FaceBiometricOptions,
+  HandleRedirectOptions,
   IdaasAuthenticationMethod,
   IdaasClientOptions,
+  IdaasEnvironment,
+  IdaasEvent,
+  IdaasEventMap,
+  IdaasTenant,
+  IdaasTenantRegistryOptions,
+  IndividualClaimRequest,
+  LogoutOptions,
   OidcLoginOptions,
   OidcLogoutOptions,
   OtpOptions,
+  RedirectLoginResult,
+  RevokeTokensOptions,
+  SessionChangeType,
+  SilentAuthOptions,
   SmartCredentialOptions,
   SoftTokenOptions,
   SoftTokenPushOptions,
+  Store,
+  TenantSelector,
+  TokenDetails,
+  TokenExchangeOptions,
   TokenOptions,
+  TokenRefreshOptions,
+  TokenSelector,
   UserClaims,
 } from "./models";
 
@@ -1,6 +1,8 @@
+import type { JSONWebKeySet } from "jose";
 import type { OidcConfig } from "../api";
 import type { IdaasContext } from "../IdaasContext";
 import type {
+  AuthenticatedResponse,
   FaceChallenge,
   GridChallenge,
   KbaChallenge,
@@ -25,10 +27,42 @@ export interface IdaasClientOptions {
 
   /**
    * The storage mechanism to use for ID and access tokens.
+   * - `memory`: kept in memory and lost on reload
+   * - `localstorage`: persisted in `localStorage` and shared by every tab of the origin
+   * - `sessionstorage`: persisted in `sessionStorage` for the lifetime of the tab
+   * - `indexeddb`: persisted in IndexedDB and shared by every tab of the origin
+   *
+   * Ignored when `storage` is provided.
    *
    * @default "memory"
    */
-  storageType?: "memory" | "localstorage";
+  storageType?: "memory" | "localstorage" | "sessionstorage" | "indexeddb";
+
+  /**
+   * A custom storage adapter for ID and access tokens, for example one backed by `chrome.storage`.
+   *
+   * Takes precedence over `storageType`. Adapters may be asynchronous, see {@link Store}.
+   */
+  storage?: Store;
+
+  /**
+   * The namespace of the storage keys, `entrust.{storageNamespace}.*`. Set it when clients of the same `clientId` at
+   * different issuers share storage. The {@link IdaasTenantRegistry} namespaces every tenant by issuer and client ID.
+   *
+   * @default clientId
+   */
+  storageNamespace?: string;
+
+  /**
+   * Encrypts everything the SDK stores with AES-GCM before it is written to `storageType` or `storage`.
+   *
+   * The encryption key is generated as non-extractable and kept in IndexedDB, so IndexedDB support is required.
+   * Stored values that cannot be decrypted, for example because they were tampered with, clear the session.
+   * Has no effect with `storageType: "memory"`.
+   *
+   * @default false
+   */
+  encryptStorage?: boolean;
 
   /**
    * The allowed algorithms for validating ID token signatures.
@@ -38,6 +72,142 @@ export interface IdaasClientOptions {
    * Provide this to restrict validation to a specific subset.
    */
   allowedIdTokenSigningAlgorithms?: string[];
+
+  /**
+   * Static OpenID Provider metadata to use instead of fetching it from `{issuerUrl}/.well-known/openid-configuration`,
+   * e.g. for offline tests, or deployments whose Content Security Policy blocks the discovery request.
+   *
+   * Its `issuer` must equal `issuerUrl`.
+   */
+  metadata?: OidcConfig;
+
+  /**
+   * How long, in seconds, the discovered OpenID Provider metadata is kept in `storageType` or `storage`, so that it is
+   * not fetched again on every page load. The metadata is only cached for the lifetime of the client when `0`.
+   *
+   * @default 0
+   */
+  discoveryCacheTtl?: number;
+
+  /**
+   * Pinned public keys to verify token signatures with instead of fetching them from the OP's `jwks_uri`, e.g. for
+   * air-gapped test environments. Tokens signed with any other key are rejected.
+   */
+  jwks?: JSONWebKeySet;
+
+  /**
+   * How long, in seconds, the OP's signing keys are kept in `storageType` or `storage`, so that they are not fetched
+   * again on every page load. The keys are only cached for the lifetime of the client when `0`.
+   *
+   * Either way, the keys are fetched again when a token is signed with an unknown key, so that key rotation does
+   * not require a new client.
+   *
+   * @default 0
+   */
+  jwksCacheTtl?: number;
+
+  /**
+   * Providers for what the SDK otherwise reads from the browser, set them to run RBA, token refresh, DPoP and token
+   * validation in Node, Bun, Deno, or another runtime without `window`. Storage is provided with `storage`.
+   */
+  environment?: IdaasEnvironment;
+}
+
+/**
+ * Providers for the browser APIs the SDK uses, see {@link IdaasClientOptions.environment}.
+ */
+export interface IdaasEnvironment {
+  /**
+   * Returns the origin of the application the user authenticates to, sent to IDaaS with RBA requests.
+   *
+   * Defaults to `window.location.origin`.
+   */
+  getOrigin?: () => string;
+
+  /**
+   * Returns the WebAuthn relying party ID used for FIDO and passkey authentication.
+   *
+   * Defaults to the hostname of `getOrigin()` when it is provided, otherwise to `window.location.hostname`.
+   */
+  getRpId?: () => string;
+
+  /**
+   * The Web Crypto implementation used by this client for PKCE verifiers, DPoP keys and proofs, and storage
+   * encryption. Signatures of ID tokens and DPoP proofs are always computed with the global `crypto`.
+   *
+   * Defaults to `globalThis.crypto`.
+   */
+  crypto?: Crypto;
+}
+
+/**
+ * A storage adapter used by the SDK to persist tokens and login state.
+ *
+ * Values are strings keyed by `entrust.{storageNamespace}.*`, the namespace is the client ID by default. Methods may return promises: asynchronous adapters are read
+ * once when the client is created and then kept in sync by writing every change through to the adapter in order.
+ * Await `IdaasClient.ready()` before using synchronous methods such as `isAuthenticated()` with such adapters.
+ */
+export interface Store {
+  /**
+   * Returns the value stored under `key`, or `null` when there is none.
+   */
+  get(key: string): string | null | Promise<string | null>;
+
+  /**
+   * Stores `data` under `key`, replacing any existing value.
+   */
+  save(key: string, data: string): void | Promise<void>;
+
+  /**
+   * Removes the value stored under `key`, if any.
+   */
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * The configuration of a tenant registered with the {@link IdaasTenantRegistry}.
+ */
+export interface IdaasTenant {
+  /**
+   * The options of the tenant's client. Its storage is namespaced by issuer and client ID unless `storageNamespace`
+   * is set.
+   */
+  options: IdaasClientOptions;
+
+  /**
+   * The default token options of the tenant's client.
+   */
+  tokenOptions?: TokenOptions;
+}
+
+/**
+ * The configurable options of the {@link IdaasTenantRegistry}.
+ */
+export interface IdaasTenantRegistryOptions {
+  /**
+   * The tenants to register, keyed by tenant ID.
+   */
+  tenants?: Record<string, IdaasTenant>;
+
+  /**
+   * Where the active tenant is remembered, so that it is still active when the OP redirects back after a login.
+   * - `memory`: kept in memory and lost on reload
+   * - `localstorage`: persisted in `localStorage` and shared by every tab of the origin
+   * - `sessionstorage`: persisted in `sessionStorage` for the lifetime of the tab
+   *
+   * @default "memory"
+   */
+  storageType?: "memory" | "localstorage" | "sessionstorage";
+}
+
+/**
+ * Selects the tenant of an {@link IdaasTenantRegistry} call.
+ */
+export interface TenantSelector {
+  /**
+   * The ID of the tenant, the active tenant when not set.
+   */
+  tenantId?: string;
 }
 
 /**
@@ -93,6 +263,17 @@ export interface TokenOptions {
    */
   acrValues?: string;
 
+  /**
+   * The URI(s) of the protected resources the tokens are requested for (RFC 8707).
+   *
+   * Sent as one `resource` parameter per URI on the authorization and token requests. Requesting several resources
+   * at login lets `getAccessToken({ resource })` later mint a token for any one of them with the stored refresh token,
+   * without another login. This defaults to the `resource` set in your `IdaasClient` token options if not set.
+   *
+   * See more at: https://datatracker.ietf.org/doc/html/rfc8707
+   */
+  resource?: string | string[];
+
   /**
    * Controls whether the `openid` scope is automatically added to the authorization request.
    *
@@ -103,6 +284,19 @@ export interface TokenOptions {
    */
   includeOpenidScope?: boolean;
 
+  /**
+   * Requires OIDC logins to use Pushed Authorization Requests (RFC 9126).
+   *
+   * Authorization parameters are always pushed to the OP when it advertises a `pushed_authorization_request_endpoint`,
+   * and the browser is only sent `client_id` and the returned `request_uri`. When `true`, `login()` fails instead of
+   * falling back to passing the parameters in the authorization URL if the OP does not support PAR. PAR is always
+   * required when the OP's metadata sets `require_pushed_authorization_requests`.
+   *
+   * @default false
+   * @see {@link https://datatracker.ietf.org/doc/html/rfc9126 RFC 9126}
+   */
+  requirePushedAuthorizationRequests?: boolean;
+
   /**
    * DPoP (Demonstration of Proof-of-Possession) configuration.
    *
@@ -154,10 +348,227 @@ export interface DpopHeadersOptions {
   tokenOptions?: TokenOptions;
 }
 
+/**
+ * Options for the background token refresh scheduler started with `startTokenRefresh()`.
+ */
+export interface TokenRefreshOptions {
+  /**
+   * How many seconds before a token's expiry the scheduler refreshes it.
+   *
+   * @default 60
+   */
+  leadTimeSeconds?: number;
+
+  /**
+   * Upper bound, in seconds, of a random delay subtracted from each refresh time. Spreads refreshes out so that
+   * several tokens (or several tabs) do not all hit the token endpoint at the same moment.
+   *
+   * @default 10
+   */
+  jitterSeconds?: number;
+
+  /**
+   * Called when a background refresh fails. The failed token is retried on the next scheduling pass until it expires.
+   * A token is not retried once it has expired, or once the OP rejected its refresh token with `invalid_grant`.
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * A change to the session made by another tab that shares the same `localstorage` or `indexeddb` storage.
+ * - `login`: the user logged in
+ * - `refresh`: an access token was refreshed
+ * - `logout`: the user logged out and stored tokens were cleared
+ */
+export type SessionChangeType = "login" | "refresh" | "logout";
+
+/**
+ * Describes a stored access token without exposing the token itself.
+ */
+export interface TokenDetails {
+  /**
+   * The audience the token was issued for, if any.
+   */
+  audience?: string;
+
+  /**
+   * The space-delimited scopes granted to the token.
+   */
+  scope: string;
+
+  /**
+   * The authentication context class reference the user authenticated with, if any.
+   */
+  acr?: string;
+
+  /**
+   * The resource indicators (RFC 8707) the token was issued for, if any.
+   */
+  resource?: string[];
+
+  /**
+   * When the token expires, in seconds since the epoch.
+   */
+  expiresAt: number;
+
+  /**
+   * When the `maxAge` of the original authentication runs out, in seconds since the epoch. The token cannot be
+   * refreshed past this time.
+   */
+  maxAgeExpiry?: number;
+
+  /**
+   * Whether the token is bound to a DPoP key.
+   */
+  dpopBound: boolean;
+
+  /**
+   * Whether the token has a refresh token.
+   */
+  refreshable: boolean;
+}
+
+/**
+ * Events emitted by `IdaasClient`, mapped to the payload their listeners receive.
+ */
+export interface IdaasEventMap {
+  /**
+   * The user logged in and tokens were stored, through the hosted OIDC flow, an RBA transaction, or a device
+   * authorization.
+   */
+  login: { flow: "oidc" | "rba" | "device"; token: TokenDetails };
+
+  /**
+   * Stored tokens were cleared by `oidc.logout()` or `rba.logout()`.
+   */
+  logout: { flow: "oidc" | "rba" };
+
+  /**
+   * An access token was replaced by a refreshed one.
+   */
+  tokenRefreshed: { token: TokenDetails };
+
+  /**
+   * Refreshing an access token, or minting one for a resource (RFC 8707), failed. `token` describes the token whose
+   * refresh token could not be redeemed.
+   */
+  refreshFailed: { token: TokenDetails; error: unknown };
+
+  /**
+   * An access token expired without a way to refresh it and was removed from storage.
+   */
+  sessionExpired: { token: TokenDetails };
+
+  /**
+   * An RBA transaction issued a challenge the user has to answer, either the first factor or a second factor.
+   */
+  rbaChallengeIssued: {
+    method?: IdaasAuthenticationMethod;
+    secondFactorMethod?: IdaasAuthenticationMethod;
+    pollForCompletion: boolean;
+  };
+
+  /**
+   * An RBA transaction completed and its tokens were stored.
+   */
+  rbaCompleted: { token: TokenDetails };
+
+  /**
+   * Stronger or broader authentication is needed, either because `getAccessToken()` found tokens for the audience and
+   * scope but none satisfying the requested `acrValues`, or because `parseResponse()` read a step-up challenge.
+   * Pass `tokenOptions` to a login method to satisfy it.
+   */
+  stepUpRequired: { tokenOptions: TokenOptions };
+}
+
+/**
+ * The name of an event emitted by `IdaasClient`.
+ */
+export type IdaasEvent = keyof IdaasEventMap;
+
+/**
+ * The request for an individual claim in the OIDC `claims` request parameter.
+ *
+ * See more at: https://openid.net/specs/openid-connect-core-1_0.html#IndividualClaimsRequests
+ */
+export interface IndividualClaimRequest {
+  /**
+   * Whether the claim is essential for the authorization, rather than voluntary.
+   */
+  essential?: boolean;
+
+  /**
+   * The value the claim must have.
+   */
+  value?: string;
+
+  /**
+   * The values the claim must have one of, in order of preference.
+   */
+  values?: string[];
+}
+
+/**
+ * The OIDC `claims` request parameter, requesting individual claims to be returned in the ID token or from the
+ * UserInfo endpoint. Use `null` to request a claim in the default manner.
+ *
+ * See more at: https://openid.net/specs/openid-connect-core-1_0.html#ClaimsParameter
+ */
+export interface ClaimsRequest {
+  id_token?: Record<string, IndividualClaimRequest | null>;
+  userinfo?: Record<string, IndividualClaimRequest | null>;
+}
+
+/**
+ * Standard OIDC authorization request parameters that can be passed to the hosted login.
+ *
+ * See more at: https://openid.net/specs/openid-connect-core-1_0.html#AuthRequest
+ */
+export interface AuthorizationParams {
+  /**
+   * Space-delimited list of whether and how the OP prompts the user, e.g. `"login"` to force the user to sign in again
+   * or `"select_account"` to let the user pick an account. When omitted, `consent` is requested with refresh tokens.
+   */
+  prompt?: string;
+
+  /**
+   * The identifier the user is likely to sign in with, such as an email address, to prefill the login page.
+   */
+  loginHint?: string;
+
+  /**
+   * A previously issued ID token, as a hint about the user's current session with the client.
+   */
+  idTokenHint?: string;
+
+  /**
+   * Space-delimited list of the user's preferred languages for the login page, as BCP47 language tags, e.g. `"fr-CA fr en"`.
+   */
+  uiLocales?: string;
+
+  /**
+   * How the OP displays the login page.
+   */
+  display?: "page" | "popup" | "touch" | "wap";
+
+  /**
+   * Individual claims to return in the ID token or from the UserInfo endpoint.
+   */
+  claims?: ClaimsRequest;
+
+  /**
+   * Additional, non-standard parameters to add to the authorization request.
+   *
+   * Parameters the SDK sets itself, such as `state`, `nonce`, `code_challenge`, `redirect_uri`, or `scope`, cannot be
+   * set here, and neither can the parameters of the options above.
+   */
+  extraParams?: Record<string, string>;
+}
+
 /**
  * The configurable options specific to the OIDC `login` method.
  */
-export interface OidcLoginOptions {
+export interface OidcLoginOptions extends AuthorizationParams {
   /**
    * The URI to be redirected to after a successful login. The default value is the current page.
    * This URI must be included in the `Login Redirect URI(s)` field in your IDaaS client application settings.
@@ -169,16 +580,250 @@ export interface OidcLoginOptions {
    * The default setting is `false`.
    */
   popup?: boolean;
+
+  /**
+   * How the OP returns the authorization response to `redirectUri` in redirect mode.
+   * - `query`: in the query string
+   * - `fragment`: in the fragment, which is not sent to servers, e.g. for apps served by a server that rejects
+   *   unknown query parameters
+   *
+   * Not used by popup logins. The default value is `query`.
+   */
+  responseMode?: "query" | "fragment";
+
+  /**
+   * Application state to restore after a redirect login, such as the route the user started the login from.
+   *
+   * Must be JSON serializable. It is stored with the login state and returned by `handleRedirect()`. Not used by
+   * popup logins.
+   */
+  appState?: unknown;
+}
+
+/**
+ * The configurable options of the OIDC `handleRedirect` method.
+ */
+export interface HandleRedirectOptions {
+  /**
+   * Whether to remove the authorization response from the address bar with `history.replaceState` once it is read,
+   * so that it is not handled twice or leaked through bookmarks. Other query parameters and fragments are kept.
+   *
+   * Set to `false` when your router owns the URL and cleans it up itself. Defaults to `true` when handling the current
+   * page's URL, and to `false` when handling an explicit `url`.
+   */
+  cleanUrl?: boolean;
+}
+
+/**
+ * The result of completing a redirect login with `handleRedirect()`.
+ */
+export interface RedirectLoginResult<TAppState = unknown> {
+  /**
+   * The `appState` passed to `login()`, if any.
+   */
+  appState?: TAppState;
+
+  /**
+   * The claims of the new ID token, or `null` when the login did not request one (`includeOpenidScope: false`).
+   */
+  idTokenClaims: UserClaims | null;
+
+  /**
+   * The space-delimited scopes granted to the access token.
+   */
+  scope: string;
+
+  /**
+   * The new access token.
+   */
+  accessToken: string;
+}
+
+/**
+ * A device authorization started with `device.requestAuthorization()`, with the details to show the user so they
+ * can approve it on another device.
+ */
+export interface DeviceAuthorization {
+  /**
+   * The code the user enters at `verificationUri`.
+   */
+  userCode: string;
+
+  /**
+   * The URI the user visits on another device, e.g. a phone or computer, to enter `userCode`.
+   */
+  verificationUri: string;
+
+  /**
+   * The `verificationUri` with the `userCode` included, if the OP provides one, e.g. to display as a QR code.
+   */
+  verificationUriComplete?: string;
+
+  /**
+   * When the authorization expires, in seconds since the epoch.
+   */
+  expiresAt: number;
+}
+
+/**
+ * The result of a device authorization approved by the user, returned by `device.poll()`.
+ */
+export type DeviceLoginResult = Omit<RedirectLoginResult, "appState">;
+
+/**
+ * The configurable options for the OIDC `getAccessTokenSilently` and `checkSession` methods. The `prompt` is always
+ * `none`.
+ */
+export interface SilentAuthOptions extends Omit<AuthorizationParams, "prompt"> {
+  /**
+   * The URI the OP posts the authorization response from. The default value is the current page.
+   * This URI must be included in the `Login Redirect URI(s)` field in your IDaaS client application settings.
+   */
+  redirectUri?: string;
+
+  /**
+   * How long to wait for the OP to respond before failing.
+   *
+   * @default 60
+   */
+  timeoutSeconds?: number;
+}
+
+/**
+ * Options shared by the logout methods.
+ */
+export interface LogoutOptions {
+  /**
+   * Also revoke stored access tokens at the OP's revocation endpoint. Refresh tokens are always revoked when the OP
+   * advertises a `revocation_endpoint`.
+   *
+   * @default false
+   */
+  revokeAccessTokens?: boolean;
 }
 
 /**
  * The configurable options for the Logout method.
  */
-export interface OidcLogoutOptions {
+export interface OidcLogoutOptions extends LogoutOptions {
   /**
    * The URI to be redirected to after a successful logout. This URI must be included in the `Logout Redirect URI(s)` field in your IDaaS client application settings.
+   *
+   * A random `state` is sent along with it, call `handleLogoutRedirect()` at this URI to validate it.
    */
   redirectUri?: string;
+
+  /**
+   * Send the stored ID token as `id_token_hint`, so the OP can identify the session to end without asking the user.
+   * The default setting is `true`.
+   */
+  idTokenHint?: boolean;
+
+  /**
+   * A hint about the user that is logging out, such as their email address, sent as `logout_hint`.
+   */
+  logoutHint?: string;
+
+  /**
+   * The end-user's preferred languages for the logout page as a space-separated list of BCP47 language tags, e.g.
+   * `fr-CA fr en`, sent as `ui_locales`.
+   */
+  uiLocales?: string;
+
+  /**
+   * Only end the local session: tokens are revoked and removed, but the session at the OP is kept and the browser is
+   * not redirected. The default setting is `false`.
+   */
+  localOnly?: boolean;
+
+  /**
+   * Show the OP's logout page in a popup instead of redirecting the current page. The returned promise resolves once
+   * the popup returns to `redirectUri`, or once the user closes it. Without a `redirectUri` it resolves once the popup
+   * is opened, and the user closes the popup. The default setting is `false`.
+   */
+  popup?: boolean;
+}
+
+/**
+ * Selects stored tokens for `getTokenDetails` and `removeToken`.
+ */
+export interface TokenSelector {
+  /**
+   * The audience of the tokens. This defaults to the `audience` in your default `TokenOptions` if not set.
+   */
+  audience?: string;
+
+  /**
+   * Space-delimited scopes the tokens must all have. Tokens with additional scopes are selected as well.
+   */
+  scope?: string;
+
+  /**
+   * Space-delimited acr values, only tokens issued for one of them are selected.
+   */
+  acrValues?: string;
+}
+
+/**
+ * Options for `exchangeToken`, see [RFC 8693](https://datatracker.ietf.org/doc/html/rfc8693).
+ */
+export interface TokenExchangeOptions {
+  /**
+   * The token to exchange. This defaults to the stored access token returned by `getAccessToken()` for your default
+   * `TokenOptions`.
+   */
+  subjectToken?: string;
+
+  /**
+   * The type of `subjectToken`.
+   *
+   * @default "urn:ietf:params:oauth:token-type:access_token"
+   */
+  subjectTokenType?: string;
+
+  /**
+   * The audience of the service the new token is for, the new token is stored under this audience.
+   */
+  audience: string;
+
+  /**
+   * The space-delimited scopes requested for the new token.
+   */
+  scope?: string;
+
+  /**
+   * The type of token requested, e.g. `urn:ietf:params:oauth:token-type:jwt`. The OP chooses when not set.
+   */
+  requestedTokenType?: string;
+
+  /**
+   * A token representing the party acting on behalf of the subject, for delegation.
+   */
+  actorToken?: string;
+
+  /**
+   * The type of `actorToken`.
+   *
+   * @default "urn:ietf:params:oauth:token-type:access_token"
+   */
+  actorTokenType?: string;
+}
+
+/**
+ * Options for `revokeTokens`.
+ */
+export interface RevokeTokensOptions {
+  /**
+   * The audience of the tokens to revoke. This defaults to the `audience` in your default `TokenOptions` if not set.
+   */
+  audience?: string;
+
+  /**
+   * Also revoke the access tokens, not only the refresh tokens.
+   *
+   * @default true
+   */
+  revokeAccessTokens?: boolean;
 }
 
 /**
@@ -358,6 +1003,46 @@ export interface AuthenticationSubmissionParams {
   passkeyResponse?: PublicKeyCredential;
 }
 
+/**
+ * The status of an authenticator that is waiting for the user, reported while polling.
+ */
+export type AuthenticationStatus = NonNullable<AuthenticatedResponse["status"]>;
+
+/**
+ * The configurable options when polling for completion of an asynchronous authentication method.
+ */
+export interface AuthenticationPollOptions {
+  /**
+   * The time to wait between two requests, in milliseconds. Must be positive, intervals above 30000 are capped.
+   * @default 1000
+   */
+  intervalMs?: number;
+
+  /**
+   * The factor the interval is multiplied by after each request the user has not responded to, e.g. `2` to double it.
+   * Must be at least `1`.
+   * @default 1
+   */
+  backoff?: number;
+
+  /**
+   * How long to wait for the user to respond, in milliseconds, before polling fails with a `TimeoutError`.
+   * @default 300000
+   */
+  timeoutMs?: number;
+
+  /**
+   * Stops polling when aborted, polling then rejects with the signal's reason. The transaction is kept, so polling
+   * can be started again.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called with the status of every response, including `NO_RESPONSE` while the user has not responded yet.
+   */
+  onStatus?: (status: AuthenticationStatus) => void;
+}
+
 /**
  * The response from IDaaS when requesting or submitting an authentication challenge.
  */
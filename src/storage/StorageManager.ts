@@ -1,36 +1,26 @@
-import type { JWTPayload } from "jose";
-import type { DPoPOptions } from "../models";
-
-interface Store {
-  save(key: string, data: string): void;
-  get(key: string): string | null;
-  delete(key: string): void;
-}
-
-class MemoryStore implements Store {
-  readonly #cache = new Map<string, string>();
-  save(key: string, data: string) {
-    this.#cache.set(key, data);
-  }
-  get(key: string) {
-    return this.#cache.get(key) ?? null;
-  }
-  delete(key: string) {
-    this.#cache.delete(key);
-  }
-}
-
-class LocalStore implements Store {
-  save(key: string, data: string) {
-    localStorage.setItem(key, data);
-  }
-  get(key: string) {
-    return localStorage.getItem(key);
-  }
-  delete(key: string) {
-    localStorage.removeItem(key);
-  }
-}
+import type { JSONWebKeySet, JWTPayload } from "jose";
+import type { AuthenticationTransactionState } from "../AuthenticationTransaction";
+import type { OidcConfig } from "../api";
+import type {
+  AuthenticationResponse,
+  DPoPOptions,
+  IdaasClientOptions,
+  SessionChangeType,
+  Store,
+  TokenDetails,
+} from "../models";
+import { getCrypto } from "../utils/crypto";
+import { loadStorageEncryptionKey } from "../utils/storageKeyStore";
+import {
+  CachedStore,
+  EncryptedStore,
+  IndexedDbStore,
+  LocalStore,
+  MemoryStore,
+  SessionStore,
+  StorageDecryptionError,
+  type SyncStore,
+} from "./stores";
 
 /**
  * The parameters that are created during the creation of the authorization URL.
@@ -39,12 +29,14 @@ class LocalStore implements Store {
  * @member codeVerifier A random generated string that is hashed and encoded for use as a code_challenge
  * @member redirectUri The URI to redirect to upon successful login to the IDP server
  * @member state A random generated string used to validate the OIDC flow
+ * @member appState The application state passed to login, returned once the redirect is handled
  */
 export interface ClientParams {
   nonce: string;
   codeVerifier: string;
   redirectUri: string;
   state: string;
+  appState?: unknown;
 }
 
 /**
@@ -56,6 +48,10 @@ export interface TokenParams {
   scope: string;
   requireIdToken?: boolean;
   acrValues?: string;
+  // RFC 8707
+  resource?: string[];
+  // The JSON encoded OIDC claims request parameter
+  claims?: string;
   dpop?: {
     alg: NonNullable<DPoPOptions["alg"]>;
     includeJkt: boolean;
@@ -66,6 +62,38 @@ export interface TokenParams {
   maxAge?: number;
 }
 
+/**
+ * A redirect authorization request that is waiting for the OP to redirect back, stored under its `state`.
+ * @interface PendingAuthorization
+ * @member clientParams The params generated for the authorization URL
+ * @member tokenParams The params of the tokens requested by the authorization request
+ * @member expiresAt The epoch time in seconds after which the request is considered abandoned
+ */
+export interface PendingAuthorization {
+  clientParams: ClientParams;
+  tokenParams: TokenParams;
+  expiresAt: number;
+}
+
+// How long a redirect login may take before its pending authorization request is discarded
+const PENDING_AUTHORIZATION_TTL_SECONDS = 60 * 60;
+
+/**
+ * An RBA transaction that is waiting for the user, e.g. to approve a push notification, stored so it can be resumed.
+ * @interface PendingRbaTransaction
+ * @member transaction The serialized state of the authentication transaction
+ * @member challenge The challenge last returned to the application, without its passkey options
+ * @member expiresAt The epoch time in seconds after which the transaction is considered abandoned
+ */
+export interface PendingRbaTransaction {
+  transaction: AuthenticationTransactionState;
+  challenge: Omit<AuthenticationResponse, "passkeyChallenge">;
+  expiresAt: number;
+}
+
+// How long an RBA transaction can be resumed, IDaaS expires unanswered challenges well before this
+const RBA_TRANSACTION_TTL_SECONDS = 10 * 60;
+
 /**
  * Contains the encoded and decoded versions of an id token.
  */
@@ -87,37 +115,232 @@ export interface AccessToken {
   acr?: string;
   dpopBound?: boolean;
   dpopKeyRef?: string;
+
+  // RFC 8707: the resources the token is for, and all resources granted to its refresh token at login
+  resource?: string[];
+  grantedResources?: string[];
+}
+
+/**
+ * Describes a stored access token for event payloads without exposing the token itself.
+ */
+export const toTokenDetails = ({
+  audience,
+  scope,
+  acr,
+  resource,
+  expiresAt,
+  maxAgeExpiry,
+  dpopBound,
+  refreshToken,
+}: AccessToken): TokenDetails => ({
+  audience,
+  scope,
+  acr,
+  resource,
+  expiresAt,
+  maxAgeExpiry,
+  dpopBound: !!dpopBound,
+  refreshable: !!refreshToken,
+});
+
+/**
+ * OP metadata cached by `discoveryCacheTtl`, stored with the issuer it was discovered for.
+ */
+interface CachedOidcConfig {
+  issuerUrl: string;
+  oidcConfig: OidcConfig;
+  expiresAt: number;
 }
 
+/**
+ * OP signing keys cached by `jwksCacheTtl`, stored with the JWKS endpoint they were fetched from.
+ */
+interface CachedJwks {
+  jwksUri: string;
+  jwks: JSONWebKeySet;
+  expiresAt: number;
+}
+
+interface SessionChangeMessage {
+  type: SessionChangeType;
+}
+
+const isSessionChangeMessage = (data: unknown): data is SessionChangeMessage => {
+  const type = (data as SessionChangeMessage | null)?.type;
+  return type === "login" || type === "refresh" || type === "logout";
+};
+
+const createSyncStore = (storageType: "memory" | "localstorage" | "sessionstorage"): SyncStore => {
+  switch (storageType) {
+    case "localstorage":
+      return new LocalStore();
+    case "sessionstorage":
+      return new SessionStore();
+    default:
+      return new MemoryStore();
+  }
+};
+
+const createStore = (
+  namespace: string,
+  storageType: NonNullable<IdaasClientOptions["storageType"]>,
+  storage?: Store,
+  encrypt?: boolean,
+  crypto?: Crypto,
+): SyncStore => {
+  if (!storage && storageType !== "indexeddb") {
+    // Memory is never written anywhere, so there is nothing to encrypt
+    if (!encrypt || storageType === "memory") {
+      return createSyncStore(storageType);
+    }
+  }
+
+  let store: Store = storage ?? (storageType === "indexeddb" ? new IndexedDbStore() : createSyncStore(storageType));
+  if (encrypt) {
+    const encryptionCrypto = getCrypto(crypto);
+    store = new EncryptedStore(
+      store,
+      async () => await loadStorageEncryptionKey(namespace, encryptionCrypto),
+      encryptionCrypto,
+    );
+  }
+
+  return new CachedStore(store);
+};
+
 export class StorageManager {
   /**
-   * @clientParamsStorageKey stores the params generated during the creation of the authorization url.
+   * @pendingAuthorizationsStorageKey stores the pending redirect authorization requests, keyed by their state.
    * @accessTokensStorageKey stores all access tokens as an array of access tokens.
    * @idTokenStorageKey stores the encoded and decoded versions of a single id token.
-   * @tokenParamsStorageKey used to move a token's audience and scope from the authorization url when handling a login redirect.
+   * @logoutStateStorageKey stores the state of a logout redirect until the OP redirects back.
+   * @rbaTransactionStorageKey stores the RBA transaction that is waiting for the user.
+   * @oidcConfigStorageKey caches the discovered OP metadata, it is kept on logout.
+   * @jwksStorageKey caches the OP's signing keys, it is kept on logout.
+   * @legacyStorageKeys held a single pending authorization request before requests were keyed by state.
    */
-  readonly #clientParamsStorageKey: string;
+  readonly #pendingAuthorizationsStorageKey: string;
   readonly #accessTokenStorageKey: string;
   readonly #idTokenStorageKey: string;
-  readonly #tokenParamsStorageKey: string;
   readonly #idaasSessionTokenStorageKey: string;
-  readonly #storage: Store;
+  readonly #logoutStateStorageKey: string;
+  readonly #rbaTransactionStorageKey: string;
+  readonly #oidcConfigStorageKey: string;
+  readonly #jwksStorageKey: string;
+  readonly #sessionEventStorageKey: string;
+  readonly #legacyStorageKeys: string[];
+  readonly #storage: SyncStore;
+  readonly #usesLocalStorage: boolean;
+  #ready: Promise<void>;
+  readonly #listeners = new Set<() => void>();
+  readonly #sessionChangeListeners = new Set<(type: SessionChangeType) => void>();
+  #channel?: BroadcastChannel;
+  #storageEventListener?: AbortController;
+
+  /**
+   * @param namespace The namespace of the storage keys, the client ID unless `storageNamespace` is set.
+   * @param storageType The built-in storage to use when no custom `storage` is given.
+   * @param storage A custom storage adapter, takes precedence over `storageType`.
+   * @param encrypt Whether values are encrypted before they are written to storage.
+   * @param crypto The Web Crypto implementation of the client's `environment`, used for encryption.
+   */
+  constructor(
+    namespace: string,
+    storageType: NonNullable<IdaasClientOptions["storageType"]>,
+    storage?: Store,
+    encrypt = false,
+    crypto?: Crypto,
+  ) {
+    this.#pendingAuthorizationsStorageKey = `entrust.${namespace}.pendingAuthorizations`;
+    this.#accessTokenStorageKey = `entrust.${namespace}.accessTokens`;
+    this.#idTokenStorageKey = `entrust.${namespace}.idToken`;
+    this.#idaasSessionTokenStorageKey = `entrust.${namespace}.idaasSessionToken`;
+    this.#logoutStateStorageKey = `entrust.${namespace}.logoutState`;
+    this.#rbaTransactionStorageKey = `entrust.${namespace}.rbaTransaction`;
+    this.#oidcConfigStorageKey = `entrust.${namespace}.oidcConfig`;
+    this.#jwksStorageKey = `entrust.${namespace}.jwks`;
+    this.#sessionEventStorageKey = `entrust.${namespace}.sessionEvent`;
+    this.#legacyStorageKeys = [`entrust.${namespace}.clientParams`, `entrust.${namespace}.tokenParams`];
+    this.#storage = createStore(namespace, storageType, storage, encrypt, crypto);
+    this.#usesLocalStorage = !storage && storageType === "localstorage";
+
+    if (this.#storage instanceof CachedStore) {
+      // Let subscribers pick up tokens that were persisted before the page loaded
+      this.#ready = this.#hydrate().then(() => this.#notify());
+      // Failures are surfaced by ready()
+      this.#ready.catch(() => {});
+    } else {
+      this.#ready = Promise.resolve();
+    }
 
-  constructor(clientId: string, storageType: "memory" | "localstorage") {
-    this.#clientParamsStorageKey = `entrust.${clientId}.clientParams`;
-    this.#accessTokenStorageKey = `entrust.${clientId}.accessTokens`;
-    this.#idTokenStorageKey = `entrust.${clientId}.idToken`;
-    this.#idaasSessionTokenStorageKey = `entrust.${clientId}.idaasSessionToken`;
-    this.#tokenParamsStorageKey = `entrust.${clientId}.tokenParams`;
-    this.#storage = storageType === "memory" ? new MemoryStore() : new LocalStore();
+    // Only shared storage has a session that other tabs can observe
+    if (!storage && (storageType === "localstorage" || storageType === "indexeddb")) {
+      this.#listenToOtherTabs(`entrust.${namespace}.session`);
+    }
   }
 
   /**
-   * Save ClientParams in local storage that are required to continue the OIDC auth flow on redirect from IDP login.
-   * @param data The ClientParams that were generated during the generate the Authorization URL.
+   * Resolves once stored values have been loaded. Only asynchronous stores need loading, for all others this
+   * resolves immediately.
+   * @throws Error if the store could not be read, or StorageWriteError if a change made while loading could not be
+   * written.
    */
-  public saveClientParams(data: ClientParams) {
-    this.#storage.save(this.#clientParamsStorageKey, JSON.stringify(data));
+  public async ready(): Promise<void> {
+    await this.#ready;
+  }
+
+  /**
+   * Resolves once every change made so far has been written to the store. Call before navigating away from the page,
+   * asynchronous stores would otherwise lose pending writes.
+   * @throws StorageWriteError if a change could not be written to the store.
+   */
+  public async flush(): Promise<void> {
+    if (this.#storage instanceof CachedStore) {
+      await this.#storage.flush();
+    }
+  }
+
+  /**
+   * Resolves once every change made so far has been attempted, so other tabs reading the store see it. Failures are
+   * left for `flush` to report.
+   */
+  public async settled(): Promise<void> {
+    if (this.#storage instanceof CachedStore) {
+      await this.#storage.settled();
+    }
+  }
+
+  /**
+   * Re-reads the stored access tokens, another tab may have changed them before telling this tab. Only asynchronous
+   * stores cache values, all others are read directly and need no reload.
+   */
+  public async reloadAccessTokens(): Promise<void> {
+    if (!(this.#storage instanceof CachedStore)) {
+      return;
+    }
+
+    try {
+      await this.#storage.reload([this.#accessTokenStorageKey]);
+    } catch (error) {
+      this.#removeUndecryptableSession(error);
+    }
+  }
+
+  /**
+   * Save a redirect authorization request that is required to continue the OIDC auth flow on redirect from IDP login.
+   * Requests are stored by state, so several redirect logins can be in progress at once.
+   * @param clientParams The ClientParams that were generated during the generation of the Authorization URL.
+   * @param tokenParams The TokenParams of the tokens requested.
+   */
+  public savePendingAuthorization(clientParams: ClientParams, tokenParams: TokenParams) {
+    const pendingAuthorizations = this.#getPendingAuthorizationsByState();
+    pendingAuthorizations[clientParams.state] = {
+      clientParams,
+      tokenParams,
+      expiresAt: Math.floor(Date.now() / 1000) + PENDING_AUTHORIZATION_TTL_SECONDS,
+    };
+    this.#storage.save(this.#pendingAuthorizationsStorageKey, JSON.stringify(pendingAuthorizations));
   }
 
   /**
@@ -133,19 +356,64 @@ export class StorageManager {
   }
 
   /**
-   * Save information about the id token in storage.
-   * @param data The encoded and decoded id token.
+   * Save the state of a logout redirect, to validate it once the OP redirects back.
+   * @param state The state sent to the end session endpoint.
    */
-  public saveIdToken(data: IdToken) {
-    this.#storage.save(this.#idTokenStorageKey, JSON.stringify(data));
+  public saveLogoutState(state: string) {
+    this.#storage.save(this.#logoutStateStorageKey, state);
+  }
+
+  /**
+   * Save the RBA transaction that is waiting for the user, so it can be resumed after the page was reloaded.
+   * @param transaction The serialized state of the authentication transaction.
+   * @param challenge The challenge returned to the application.
+   */
+  public saveRbaTransaction(transaction: AuthenticationTransactionState, challenge: AuthenticationResponse) {
+    const { passkeyChallenge: _passkeyChallenge, ...storedChallenge } = challenge;
+    const pendingRbaTransaction: PendingRbaTransaction = {
+      transaction,
+      challenge: storedChallenge,
+      expiresAt: Math.floor(Date.now() / 1000) + RBA_TRANSACTION_TTL_SECONDS,
+    };
+    this.#storage.save(this.#rbaTransactionStorageKey, JSON.stringify(pendingRbaTransaction));
+  }
+
+  /**
+   * Cache the discovered OP metadata in storage.
+   * @param issuerUrl The issuer the metadata was discovered for.
+   * @param oidcConfig The OP metadata.
+   * @param ttl How long the metadata may be used, in seconds.
+   */
+  public saveOidcConfig(issuerUrl: string, oidcConfig: OidcConfig, ttl: number) {
+    const cachedOidcConfig: CachedOidcConfig = {
+      issuerUrl,
+      oidcConfig,
+      expiresAt: Math.floor(Date.now() / 1000) + ttl,
+    };
+    this.#storage.save(this.#oidcConfigStorageKey, JSON.stringify(cachedOidcConfig));
   }
 
   /**
-   * Save the token params in local storage.
-   * @param data the token params to be saved.
+   * Cache the OP's signing keys in storage.
+   * @param jwksUri The JWKS endpoint the keys were fetched from.
+   * @param jwks The key set.
+   * @param ttl How long the keys may be used, in seconds.
    */
-  public saveTokenParams(data: TokenParams) {
-    this.#storage.save(this.#tokenParamsStorageKey, JSON.stringify(data));
+  public saveJwks(jwksUri: string, jwks: JSONWebKeySet, ttl: number) {
+    const cachedJwks: CachedJwks = {
+      jwksUri,
+      jwks,
+      expiresAt: Math.floor(Date.now() / 1000) + ttl,
+    };
+    this.#storage.save(this.#jwksStorageKey, JSON.stringify(cachedJwks));
+  }
+
+  /**
+   * Save information about the id token in storage.
+   * @param data The encoded and decoded id token.
+   */
+  public saveIdToken(data: IdToken) {
+    this.#storage.save(this.#idTokenStorageKey, JSON.stringify(data));
   }
 
   /**
@@ -156,6 +424,7 @@ export class StorageManager {
     const accessTokens = this.getAccessTokens();
     accessTokens.push(data);
     this.#storage.save(this.#accessTokenStorageKey, JSON.stringify(accessTokens));
+    this.#notify();
   }
 
   /**
@@ -179,6 +448,7 @@ export class StorageManager {
 
     accessTokens.splice(index, 1);
     this.#storage.save(this.#accessTokenStorageKey, JSON.stringify(accessTokens));
+    this.#notify();
 
     // Check if the removed token's dpopKeyRef is still referenced by any other token
     if (removedDpopKeyRef && !accessTokens.some((token) => token.dpopKeyRef === removedDpopKeyRef)) {
@@ -188,6 +458,27 @@ export class StorageManager {
     return undefined;
   }
 
+  /**
+   * Replaces a rotated refresh token on every stored token that shares it, such as tokens minted for other resources
+   * from the same login.
+   * @param oldRefreshToken the refresh token that was redeemed.
+   * @param newRefreshToken the refresh token issued in its place.
+   */
+  public replaceRefreshToken(oldRefreshToken: string, newRefreshToken: string) {
+    const accessTokens = this.getAccessTokens();
+    if (!accessTokens.some((token) => token.refreshToken === oldRefreshToken)) {
+      return;
+    }
+
+    for (const token of accessTokens) {
+      if (token.refreshToken === oldRefreshToken) {
+        token.refreshToken = newRefreshToken;
+      }
+    }
+    this.#storage.save(this.#accessTokenStorageKey, JSON.stringify(accessTokens));
+    this.#notify();
+  }
+
   /**
    * Removes expired tokens from storage.
    * @returns Array of dpopKeyRefs that are no longer referenced by any token and should be cleaned up.
@@ -225,10 +516,63 @@ export class StorageManager {
   }
 
   /**
-   * Clears the stored token params.
+   * Removes the pending authorization request of a state, once its redirect has been handled.
+   * @param state The state of the authorization request.
+   */
+  public removePendingAuthorization(state: string) {
+    const pendingAuthorizations = this.#getPendingAuthorizationsByState();
+    if (!(state in pendingAuthorizations)) {
+      return;
+    }
+
+    delete pendingAuthorizations[state];
+    this.#savePendingAuthorizationsByState(pendingAuthorizations);
+  }
+
+  /**
+   * Removes the stored RBA transaction, once it completed or was cancelled.
+   * @returns The dpopKeyRef of the removed transaction, whose key material must be cleaned up unless a token uses it.
+   */
+  public removeRbaTransaction(): string | undefined {
+    const pendingRbaTransaction = this.#get<PendingRbaTransaction>(this.#rbaTransactionStorageKey);
+    this.#storage.delete(this.#rbaTransactionStorageKey);
+
+    return pendingRbaTransaction?.transaction.dpopKeyRef;
+  }
+
+  /**
+   * Clears the stored logout state.
    */
-  public removeTokenParams() {
-    this.#storage.delete(this.#tokenParamsStorageKey);
+  public removeLogoutState() {
+    this.#storage.delete(this.#logoutStateStorageKey);
+  }
+
+  /**
+   * Removes pending authorization requests that were abandoned, e.g. because the user closed the tab on the login page.
+   * @returns Array of dpopKeyRefs of the removed requests that should be cleaned up.
+   */
+  public removeExpiredPendingAuthorizations(): string[] {
+    const pendingAuthorizations = this.#getPendingAuthorizationsByState();
+    const now = Math.floor(Date.now() / 1000);
+
+    const expiredStates = Object.keys(pendingAuthorizations).filter(
+      (state) => now > (pendingAuthorizations[state]?.expiresAt ?? 0),
+    );
+    if (expiredStates.length === 0) {
+      return [];
+    }
+
+    const orphanedDpopKeyRefs: string[] = [];
+    for (const state of expiredStates) {
+      const dpopKeyRef = pendingAuthorizations[state]?.tokenParams.dpopKeyRef;
+      if (dpopKeyRef) {
+        orphanedDpopKeyRefs.push(dpopKeyRef);
+      }
+      delete pendingAuthorizations[state];
+    }
+    this.#savePendingAuthorizationsByState(pendingAuthorizations);
+
+    return orphanedDpopKeyRefs;
   }
 
   /**
@@ -246,27 +590,54 @@ export class StorageManager {
   }
 
   /**
-   * Retrieves the ClientParams stored in local storage.
-   * @returns The ClientParams.
+   * Retrieves the pending authorization request of a state.
+   * @param state The state returned by the OP in the authorization response.
+   * @returns The PendingAuthorization, or undefined if there is none for the state or it has expired.
    */
-  public getClientParams(): ClientParams | undefined {
-    return this.#get(this.#clientParamsStorageKey);
+  public getPendingAuthorization(state: string): PendingAuthorization | undefined {
+    const pendingAuthorization = this.#getPendingAuthorizationsByState()[state];
+    if (!pendingAuthorization || Math.floor(Date.now() / 1000) > pendingAuthorization.expiresAt) {
+      return undefined;
+    }
+
+    return pendingAuthorization;
   }
 
   /**
-   * Retrieves the access tokens stored in local storage.
-   * @returns The array of access tokens.
+   * Retrieves the stored RBA transaction.
+   * @returns The PendingRbaTransaction, or undefined if none is stored or it has expired.
    */
-  public getAccessTokens(): AccessToken[] {
-    return this.#get(this.#accessTokenStorageKey) ?? [];
+  public getRbaTransaction(): PendingRbaTransaction | undefined {
+    const pendingRbaTransaction = this.#get<PendingRbaTransaction>(this.#rbaTransactionStorageKey);
+    if (!pendingRbaTransaction || Math.floor(Date.now() / 1000) > pendingRbaTransaction.expiresAt) {
+      return undefined;
+    }
+
+    return pendingRbaTransaction;
+  }
+
+  /**
+   * Retrieves the dpopKeyRef of the stored RBA transaction, including an expired one.
+   * @returns The dpopKeyRef, or undefined if no transaction is stored or it does not use a persisted key.
+   */
+  public getRbaTransactionDpopKeyRef(): string | undefined {
+    return this.#get<PendingRbaTransaction>(this.#rbaTransactionStorageKey)?.transaction.dpopKeyRef;
   }
 
   /**
-   * Retrieves the stored token params.
-   * @returns The TokenParams object stored.
+   * Retrieves all stored pending authorization requests, including expired ones.
+   * @returns The array of pending authorization requests.
    */
-  public getTokenParams(): TokenParams | undefined {
-    return this.#get(this.#tokenParamsStorageKey);
+  public getPendingAuthorizations(): PendingAuthorization[] {
+    return Object.values(this.#getPendingAuthorizationsByState());
+  }
+
+  /**
+   * Retrieves the access tokens stored in local storage.
+   * @returns The array of access tokens.
+   */
+  public getAccessTokens(): AccessToken[] {
+    return this.#get(this.#accessTokenStorageKey) ?? [];
   }
 
   /**
@@ -277,6 +648,46 @@ export class StorageManager {
     return this.#get(this.#idTokenStorageKey);
   }
 
+  /**
+   * Retrieves the cached OP metadata of an issuer.
+   * @param issuerUrl The issuer the metadata must have been discovered for.
+   * @returns The OidcConfig, or undefined if none is cached for the issuer or it has expired.
+   */
+  public getOidcConfig(issuerUrl: string): OidcConfig | undefined {
+    const cachedOidcConfig = this.#get<CachedOidcConfig>(this.#oidcConfigStorageKey);
+    if (
+      !cachedOidcConfig ||
+      cachedOidcConfig.issuerUrl !== issuerUrl ||
+      Math.floor(Date.now() / 1000) > cachedOidcConfig.expiresAt
+    ) {
+      return undefined;
+    }
+
+    return cachedOidcConfig.oidcConfig;
+  }
+
+  /**
+   * Retrieves the cached signing keys of a JWKS endpoint.
+   * @param jwksUri The JWKS endpoint the keys must have been fetched from.
+   * @returns The key set, or undefined if none is cached for the endpoint or it has expired.
+   */
+  public getJwks(jwksUri: string): JSONWebKeySet | undefined {
+    const cachedJwks = this.#get<CachedJwks>(this.#jwksStorageKey);
+    if (!cachedJwks || cachedJwks.jwksUri !== jwksUri || Math.floor(Date.now() / 1000) > cachedJwks.expiresAt) {
+      return undefined;
+    }
+
+    return cachedJwks.jwks;
+  }
+
+  /**
+   * Retrieves the state of the logout redirect in progress.
+   * @returns The state string if stored, otherwise undefined.
+   */
+  public getLogoutState(): string | undefined {
+    return this.#storage.get(this.#logoutStateStorageKey) ?? undefined;
+  }
+
   /**
    * Retrieves the IDaaS session token stored in storage.
    * @returns The session token string if stored, otherwise undefined.
@@ -305,10 +716,180 @@ export class StorageManager {
    * Remove the stored data in local storage essentially logging the user out.
    */
   public remove() {
-    this.#storage.delete(this.#clientParamsStorageKey);
+    this.#storage.delete(this.#pendingAuthorizationsStorageKey);
     this.#storage.delete(this.#accessTokenStorageKey);
     this.#storage.delete(this.#idTokenStorageKey);
     this.#storage.delete(this.#idaasSessionTokenStorageKey);
-    this.#storage.delete(this.#tokenParamsStorageKey);
+    this.#storage.delete(this.#logoutStateStorageKey);
+    this.#storage.delete(this.#rbaTransactionStorageKey);
+    for (const legacyStorageKey of this.#legacyStorageKeys) {
+      this.#storage.delete(legacyStorageKey);
+    }
+    this.#notify();
+  }
+
+  /**
+   * Registers a listener that is called whenever the stored access tokens change.
+   * @param listener The callback to invoke after a change.
+   * @returns A function that removes the listener.
+   */
+  public subscribe(listener: () => void): () => void {
+    this.#listeners.add(listener);
+    return () => {
+      this.#listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Registers a listener that is called when another tab sharing this storage logs in, refreshes tokens, or logs out.
+   * @param listener The callback to invoke with the type of change.
+   * @returns A function that removes the listener.
+   */
+  public onSessionChange(listener: (type: SessionChangeType) => void): () => void {
+    this.#sessionChangeListeners.add(listener);
+    return () => {
+      this.#sessionChangeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Tells other tabs sharing this storage that the session changed. Does nothing for memory storage.
+   * @param type The type of change made by this tab.
+   */
+  public broadcastSessionChange(type: SessionChangeType) {
+    const message: SessionChangeMessage = { type };
+
+    const send = () => {
+      if (this.#channel) {
+        this.#channel.postMessage(message);
+      } else if (this.#usesLocalStorage) {
+        // Setting a value fires a `storage` event in every other tab, removing it keeps storage clean
+        localStorage.setItem(this.#sessionEventStorageKey, JSON.stringify(message));
+        localStorage.removeItem(this.#sessionEventStorageKey);
+      }
+    };
+
+    if (this.#storage instanceof CachedStore) {
+      // Other tabs re-read the store when notified, so the change has to reach it first
+      void this.#storage.settled().then(send);
+    } else {
+      send();
+    }
+  }
+
+  /**
+   * Stops listening to other tabs and removes every listener, once the client using this storage is disposed.
+   */
+  public dispose() {
+    this.#channel?.close();
+    this.#channel = undefined;
+    this.#storageEventListener?.abort();
+    this.#storageEventListener = undefined;
+    this.#listeners.clear();
+    this.#sessionChangeListeners.clear();
+  }
+
+  #listenToOtherTabs(channelName: string) {
+    if (typeof BroadcastChannel !== "undefined") {
+      this.#channel = new BroadcastChannel(channelName);
+      this.#channel.onmessage = (event: MessageEvent) => {
+        void this.#handleSessionChange(event.data);
+      };
+      return;
+    }
+
+    if (typeof window !== "undefined") {
+      this.#storageEventListener = new AbortController();
+      window.addEventListener(
+        "storage",
+        (event: StorageEvent) => {
+          if (event.key !== this.#sessionEventStorageKey || !event.newValue) {
+            return;
+          }
+
+          try {
+            void this.#handleSessionChange(JSON.parse(event.newValue));
+          } catch {
+            // Not a session change written by this SDK
+          }
+        },
+        { signal: this.#storageEventListener.signal },
+      );
+    }
+  }
+
+  async #handleSessionChange(data: unknown) {
+    if (!isSessionChangeMessage(data)) {
+      return;
+    }
+
+    if (this.#storage instanceof CachedStore) {
+      this.#ready = this.#hydrate();
+      try {
+        await this.#ready;
+      } catch {
+        // Surfaced by ready()
+        return;
+      }
+    }
+
+    // Tokens were changed by another tab, let local subscribers re-read them
+    this.#notify();
+    for (const listener of this.#sessionChangeListeners) {
+      listener(data.type);
+    }
+  }
+
+  async #hydrate() {
+    if (!(this.#storage instanceof CachedStore)) {
+      return;
+    }
+
+    try {
+      await this.#storage.hydrate([
+        this.#pendingAuthorizationsStorageKey,
+        this.#accessTokenStorageKey,
+        this.#idTokenStorageKey,
+        this.#idaasSessionTokenStorageKey,
+        this.#logoutStateStorageKey,
+        this.#rbaTransactionStorageKey,
+        this.#oidcConfigStorageKey,
+        this.#jwksStorageKey,
+      ]);
+    } catch (error) {
+      this.#removeUndecryptableSession(error);
+    }
+  }
+
+  #removeUndecryptableSession(error: unknown) {
+    if (!(error instanceof StorageDecryptionError)) {
+      throw error;
+    }
+
+    // Fail closed, a session that cannot be decrypted cannot be trusted
+    this.remove();
+    // Unlike logout, the cached OP metadata and keys are dropped too, they may be what failed to decrypt and would
+    // clear every later session again
+    this.#storage.delete(this.#oidcConfigStorageKey);
+    this.#storage.delete(this.#jwksStorageKey);
+  }
+
+  #getPendingAuthorizationsByState(): Record<string, PendingAuthorization> {
+    return this.#get(this.#pendingAuthorizationsStorageKey) ?? {};
+  }
+
+  #savePendingAuthorizationsByState(pendingAuthorizations: Record<string, PendingAuthorization>) {
+    if (Object.keys(pendingAuthorizations).length === 0) {
+      this.#storage.delete(this.#pendingAuthorizationsStorageKey);
+      return;
+    }
+
+    this.#storage.save(this.#pendingAuthorizationsStorageKey, JSON.stringify(pendingAuthorizations));
+  }
+
+  #notify() {
+    for (const listener of this.#listeners) {
+      listener();
+    }
   }
 }
@@ -0,0 +1,276 @@
+import type { Store } from "../models";
+import { getCrypto } from "../utils/crypto";
+import { hasIndexedDb, requestToPromise, withStore } from "../utils/indexedDb";
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * A store that can be read and written synchronously, the StorageManager works on top of one of these.
+ */
+export interface SyncStore {
+  save(key: string, data: string): void;
+  get(key: string): string | null;
+  delete(key: string): void;
+}
+
+export class MemoryStore implements SyncStore {
+  readonly #cache = new Map<string, string>();
+  save(key: string, data: string) {
+    this.#cache.set(key, data);
+  }
+  get(key: string) {
+    return this.#cache.get(key) ?? null;
+  }
+  delete(key: string) {
+    this.#cache.delete(key);
+  }
+}
+
+export class LocalStore implements SyncStore {
+  save(key: string, data: string) {
+    localStorage.setItem(key, data);
+  }
+  get(key: string) {
+    return localStorage.getItem(key);
+  }
+  delete(key: string) {
+    localStorage.removeItem(key);
+  }
+}
+
+export class SessionStore implements SyncStore {
+  save(key: string, data: string) {
+    sessionStorage.setItem(key, data);
+  }
+  get(key: string) {
+    return sessionStorage.getItem(key);
+  }
+  delete(key: string) {
+    sessionStorage.removeItem(key);
+  }
+}
+
+const SESSION_STORE_NAME = "session";
+const INDEXED_DB_REQUIRED_MESSAGE = 'The "indexeddb" storage type requires IndexedDB support.';
+
+export class IndexedDbStore implements Store {
+  async save(key: string, data: string) {
+    this.#assertIndexedDb();
+    await withStore(SESSION_STORE_NAME, "readwrite", async (store) => {
+      await requestToPromise(store.put(data, key));
+    });
+  }
+  async get(key: string) {
+    this.#assertIndexedDb();
+    return await withStore(SESSION_STORE_NAME, "readonly", async (store) => {
+      const value = await requestToPromise(store.get(key) as IDBRequest<string | undefined>);
+      return value ?? null;
+    });
+  }
+  async delete(key: string) {
+    this.#assertIndexedDb();
+    await withStore(SESSION_STORE_NAME, "readwrite", async (store) => {
+      await requestToPromise(store.delete(key));
+    });
+  }
+
+  #assertIndexedDb() {
+    if (!hasIndexedDb()) {
+      throw new Error(INDEXED_DB_REQUIRED_MESSAGE);
+    }
+  }
+}
+
+const ENCRYPTED_VALUE_PREFIX = "aesgcm.v1.";
+// 96-bit IVs are the recommended size for AES-GCM
+const IV_LENGTH = 12;
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (base64: string) => {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+};
+
+/**
+ * A stored value could not be decrypted, it was tampered with, written unencrypted, or encrypted under another key.
+ */
+export class StorageDecryptionError extends Error {}
+
+/**
+ * A value could not be written to the store, e.g. because its quota was exceeded.
+ */
+export class StorageWriteError extends Error {}
+
+/**
+ * Encrypts every value with AES-GCM before handing it to the wrapped store.
+ *
+ * The storage key is bound to each value as additional authenticated data, so values cannot be moved between keys
+ * without failing decryption.
+ */
+export class EncryptedStore implements Store {
+  readonly #store: Store;
+  readonly #loadKey: () => Promise<CryptoKey>;
+  readonly #crypto: Crypto;
+  #key?: Promise<CryptoKey>;
+
+  /**
+   * @param store The store that receives the encrypted values.
+   * @param loadKey Loads the AES-GCM key, called once on first use.
+   * @param crypto The Web Crypto implementation that encrypts and decrypts the values.
+   */
+  constructor(store: Store, loadKey: () => Promise<CryptoKey>, crypto = getCrypto()) {
+    this.#store = store;
+    this.#loadKey = loadKey;
+    this.#crypto = crypto;
+  }
+
+  async save(key: string, data: string) {
+    const iv = this.#crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await this.#crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: textEncoder.encode(key) },
+      await this.#getKey(),
+      textEncoder.encode(data),
+    );
+
+    await this.#store.save(
+      key,
+      `${ENCRYPTED_VALUE_PREFIX}${bytesToBase64(iv)}.${bytesToBase64(new Uint8Array(ciphertext))}`,
+    );
+  }
+  async get(key: string) {
+    const value = await this.#store.get(key);
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    const cryptoKey = await this.#getKey();
+    try {
+      if (!value.startsWith(ENCRYPTED_VALUE_PREFIX)) {
+        throw new Error("Stored value is not encrypted");
+      }
+
+      const [iv, ciphertext] = value.slice(ENCRYPTED_VALUE_PREFIX.length).split(".");
+      const plaintext = await this.#crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: base64ToBytes(iv ?? ""), additionalData: textEncoder.encode(key) },
+        cryptoKey,
+        base64ToBytes(ciphertext ?? ""),
+      );
+      return textDecoder.decode(plaintext);
+    } catch (error) {
+      throw new StorageDecryptionError(`Failed to decrypt stored value for ${key}`, { cause: error });
+    }
+  }
+  async delete(key: string) {
+    await this.#store.delete(key);
+  }
+
+  async #getKey(): Promise<CryptoKey> {
+    this.#key ??= this.#loadKey().catch((error) => {
+      // Allow the next call to try again
+      this.#key = undefined;
+      throw error;
+    });
+    return await this.#key;
+  }
+}
+
+/**
+ * Gives a possibly asynchronous Store a synchronous interface.
+ *
+ * Reads are served from an in-memory copy that is filled by `hydrate`. Writes update the copy immediately and are
+ * written through to the underlying store one at a time, in the order they were made.
+ */
+export class CachedStore implements SyncStore {
+  readonly #cache = new MemoryStore();
+  readonly #store: Store;
+  // Keys written since hydration started, their cached values are newer than what hydration reads
+  readonly #dirtyKeys = new Set<string>();
+  #writes: Promise<void> = Promise.resolve();
+  // The first write that failed since the last flush
+  #failedWrite?: { error: unknown };
+
+  constructor(store: Store) {
+    this.#store = store;
+  }
+
+  save(key: string, data: string) {
+    this.#cache.save(key, data);
+    this.#dirtyKeys.add(key);
+    this.#enqueue(() => this.#store.save(key, data));
+  }
+  get(key: string) {
+    return this.#cache.get(key);
+  }
+  delete(key: string) {
+    this.#cache.delete(key);
+    this.#dirtyKeys.add(key);
+    this.#enqueue(() => this.#store.delete(key));
+  }
+
+  /**
+   * Replaces the cached values of `keys` with the values held by the underlying store.
+   * @throws StorageWriteError if a write made before loading failed, the values are loaded regardless.
+   */
+  async hydrate(keys: string[]): Promise<void> {
+    await this.reload(keys);
+    await this.flush();
+  }
+
+  /**
+   * Replaces the cached values of `keys` with the values held by the underlying store, e.g. once another tab wrote
+   * them. Write failures are left for `flush` to report.
+   */
+  async reload(keys: string[]): Promise<void> {
+    // Earlier writes must land first, otherwise their keys would be read back with stale values
+    await this.settled();
+    this.#dirtyKeys.clear();
+    const values = await Promise.all(keys.map(async (key) => await this.#store.get(key)));
+
+    keys.forEach((key, index) => {
+      if (this.#dirtyKeys.has(key)) {
+        return;
+      }
+
+      const value = values[index];
+      if (value === null || value === undefined) {
+        this.#cache.delete(key);
+      } else {
+        this.#cache.save(key, value);
+      }
+    });
+  }
+
+  /**
+   * Resolves once every write made so far has reached the underlying store.
+   * @throws StorageWriteError if a write failed since the last flush, later writes are still made.
+   */
+  async flush(): Promise<void> {
+    await this.#writes;
+
+    const failedWrite = this.#failedWrite;
+    if (failedWrite) {
+      this.#failedWrite = undefined;
+      throw new StorageWriteError("Failed to write to storage", { cause: failedWrite.error });
+    }
+  }
+
+  /**
+   * Resolves once every write made so far has been attempted. Failures are left for `flush` to report.
+   */
+  async settled(): Promise<void> {
+    await this.#writes;
+  }
+
+  #enqueue(write: () => void | Promise<void>) {
+    this.#writes = this.#writes.then(write).catch((error) => {
+      this.#failedWrite ??= { error };
+    });
+  }
+}
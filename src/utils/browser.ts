@@ -1,8 +1,19 @@
+import { PopupError, TimeoutError, toOAuthError } from "../errors";
 import type { AuthorizeResponse } from "../models";
 
 const DEFAULT_POPUP_TIMEOUT_SECONDS = 300;
 
+/**
+ * Throws a descriptive error when `feature` is used outside the browser, instead of failing on a missing global.
+ */
+export const assertBrowser = (feature: string) => {
+  if (typeof window === "undefined" || typeof document === "undefined") {
+    throw new Error(`${feature} requires a browser`);
+  }
+};
+
 export const openPopup = (popupUrl: string) => {
+  assertBrowser("Opening a popup");
   const width = 500;
   const height = 700;
   const left = window.screenX + (window.innerWidth - width) / 2;
@@ -15,63 +26,168 @@ export const openPopup = (popupUrl: string) => {
   );
 
   if (!popup) {
-    throw new Error("Unable to open popup, blocked by browser");
+    throw new PopupError("Unable to open popup, blocked by browser", "blocked");
   }
 
   return popup;
 };
 
-export const listenToAuthorizePopup = (popup: Window, url: string) => {
+export const openHiddenIframe = (iframeUrl: string) => {
+  assertBrowser("Silent authentication");
+  const iframe = document.createElement("iframe");
+  iframe.setAttribute("width", "0");
+  iframe.setAttribute("height", "0");
+  iframe.setAttribute("aria-hidden", "true");
+  iframe.style.display = "none";
+  iframe.src = iframeUrl;
+  document.body.appendChild(iframe);
+
+  return iframe;
+};
+
+interface AuthorizeWebMessageOptions {
+  timeoutSeconds: number;
+  createTimeoutError: () => Error;
+  /**
+   * The window expected to post the response, messages from any other window are ignored.
+   */
+  source?: Window | null;
+  /**
+   * Polled every second, the wait is cancelled with a `PopupError` once it returns `true`.
+   */
+  isCancelled?: () => boolean;
+  /**
+   * Called once the wait has finished, whatever the outcome.
+   */
+  onSettled: () => void;
+}
+
+/**
+ * Waits for the `authorization_response` message posted by the OP when using `response_mode=web_message`.
+ * Error responses are resolved as well, it is up to the caller to decide how to surface them.
+ */
+const listenToAuthorizeWebMessage = (
+  url: string,
+  { timeoutSeconds, createTimeoutError, source, isCancelled, onSettled }: AuthorizeWebMessageOptions,
+) => {
   const expectedOrigin = new URL(url).origin;
 
   return new Promise<AuthorizeResponse>((resolve, reject) => {
-    const popupListenerAbortController = new AbortController();
+    const listenerAbortController = new AbortController();
 
-    const popupWebMessageEventHandler = (event: MessageEvent) => {
+    const webMessageEventHandler = (event: MessageEvent) => {
       const hasOriginAndData = event.origin === expectedOrigin && event.data;
       const isAuthorizeEvent = hasOriginAndData && event.data.type === "authorization_response";
+      const isExpectedSource = !source || event.source === source;
 
-      if (!isAuthorizeEvent) {
+      if (!(isAuthorizeEvent && isExpectedSource)) {
         return;
       }
 
-      cleanUpPopup();
-
-      const response = event.data.response;
-      if (response.error) {
-        reject(new Error(response.error));
-      }
+      cleanUp();
+      resolve(event.data.response as AuthorizeResponse);
+    };
 
-      resolve(response as AuthorizeResponse);
+    // Poll every second to see if the wait was cancelled. We cannot reliably use eventListeners here to support mobile.
+    const pollInterval = isCancelled
+      ? setInterval(() => {
+          if (isCancelled()) {
+            cleanUp();
+            reject(new PopupError("Authentication was cancelled by the user", "closed"));
+          }
+        }, 1000)
+      : undefined;
+
+    const timeout = setTimeout(() => {
+      cleanUp();
+      reject(createTimeoutError());
+    }, timeoutSeconds * 1000);
+
+    const cleanUp = () => {
+      clearInterval(pollInterval);
+      clearTimeout(timeout);
+      onSettled();
+      listenerAbortController.abort();
     };
 
-    // Poll the popup window every second to see if it's closed. We cannot reliably use eventListeners here to support mobile.
-    const pollPopupInterval = setInterval(() => {
+    window.addEventListener("message", webMessageEventHandler, {
+      signal: listenerAbortController.signal,
+    });
+  });
+};
+
+export const listenToAuthorizePopup = async (popup: Window, url: string) => {
+  const response = await listenToAuthorizeWebMessage(url, {
+    timeoutSeconds: DEFAULT_POPUP_TIMEOUT_SECONDS,
+    createTimeoutError: () => new PopupError("User took too long to authenticate", "timeout"),
+    isCancelled: () => popup.closed,
+    onSettled: () => popup.close(),
+  });
+
+  if (response.error) {
+    throw toOAuthError({ error: response.error, error_description: response.error_description });
+  }
+
+  return response;
+};
+
+/**
+ * Waits for a logout popup to return to `redirectUri`, or for the user to close it.
+ * @returns The URL the popup returned to, or `null` if it was closed first.
+ */
+export const listenToLogoutPopup = (popup: Window, redirectUri: string) => {
+  const expectedUrl = new URL(redirectUri);
+
+  return new Promise<string | null>((resolve, reject) => {
+    // Poll every second, the popup's location can only be read once it is back on our origin
+    const pollInterval = setInterval(() => {
       if (popup.closed) {
-        cleanUpPopup();
-        reject(new Error("Authentication was cancelled by the user"));
+        cleanUp();
+        resolve(null);
+        return;
+      }
+
+      let returnUrl: URL;
+      try {
+        returnUrl = new URL(popup.location.href);
+      } catch {
+        // Still showing the OP's logout page
+        return;
+      }
+
+      if (returnUrl.origin === expectedUrl.origin && returnUrl.pathname === expectedUrl.pathname) {
+        cleanUp();
+        popup.close();
+        resolve(returnUrl.toString());
       }
     }, 1000);
 
-    // Ensure the popup is closed after a certain timeout period
-    const popupTimeout = setTimeout(() => {
-      cleanUpPopup();
-      reject(new Error("User took too long to authenticate"));
+    const timeout = setTimeout(() => {
+      cleanUp();
+      popup.close();
+      reject(new PopupError("User took too long to log out", "timeout"));
     }, DEFAULT_POPUP_TIMEOUT_SECONDS * 1000);
 
-    const cleanUpPopup = () => {
-      clearInterval(pollPopupInterval);
-      clearTimeout(popupTimeout);
-      popup.close();
-      popupListenerAbortController.abort();
+    const cleanUp = () => {
+      clearInterval(pollInterval);
+      clearTimeout(timeout);
     };
+  });
+};
 
-    window.addEventListener("message", popupWebMessageEventHandler, {
-      signal: popupListenerAbortController.signal,
-    });
+/**
+ * Waits for the authorization response of a silent authentication request running in a hidden iframe, and removes
+ * the iframe afterwards. Unlike `listenToAuthorizePopup`, error responses such as `login_required` are resolved.
+ */
+export const listenToAuthorizeIframe = (iframe: HTMLIFrameElement, url: string, timeoutSeconds: number) => {
+  return listenToAuthorizeWebMessage(url, {
+    timeoutSeconds,
+    createTimeoutError: () => new TimeoutError("Silent authentication timed out"),
+    source: iframe.contentWindow,
+    onSettled: () => iframe.remove(),
   });
 };
 
 export const browserSupportsPasskey = (): boolean => {
-  return !!window.PublicKeyCredential;
+  return typeof window !== "undefined" && !!window.PublicKeyCredential;
 };
@@ -1,5 +1,18 @@
-export const createRandomString = () => {
-  const randomNumbers = window.crypto.getRandomValues(new Uint8Array(32));
+/**
+ * Returns the Web Crypto implementation provided to a client with `environment.crypto`, or the runtime's global one.
+ * @param provider the `environment.crypto` of the client, if any
+ */
+export const getCrypto = (provider?: Crypto): Crypto => {
+  const crypto = provider ?? globalThis.crypto;
+  if (!crypto?.subtle) {
+    throw new Error("Web Crypto is not available in this runtime, provide it with the `environment.crypto` option.");
+  }
+
+  return crypto;
+};
+
+export const createRandomString = (crypto = getCrypto()) => {
+  const randomNumbers = crypto.getRandomValues(new Uint8Array(32));
 
   return String.fromCharCode(...randomNumbers);
 };
@@ -12,22 +25,22 @@ const base64UrlOctetEncode = (array: Uint8Array) => {
   return base64UrlStringEncode(String.fromCharCode(...array));
 };
 
-export const generateChallengeVerifierPair = async () => {
-  const randomString = createRandomString();
+export const generateChallengeVerifierPair = async (crypto = getCrypto()) => {
+  const randomString = createRandomString(crypto);
   const codeVerifier = base64UrlStringEncode(randomString);
-  const codeChallenge = await createCodeChallenge(codeVerifier);
+  const codeChallenge = await createCodeChallenge(codeVerifier, crypto);
 
   return { codeVerifier, codeChallenge };
 };
 
-const createCodeChallenge = async (codeVerifier: string) => {
-  const hash = await sha256(codeVerifier);
+const createCodeChallenge = async (codeVerifier: string, crypto: Crypto) => {
+  const hash = await sha256(codeVerifier, crypto);
   return base64UrlOctetEncode(hash);
 };
 
-const sha256 = async (string: string) => {
+const sha256 = async (string: string, crypto: Crypto) => {
   const encoder = new TextEncoder();
   const data = encoder.encode(string);
-  const hash = await window.crypto.subtle.digest("SHA-256", data);
+  const hash = await crypto.subtle.digest("SHA-256", data);
   return new Uint8Array(hash);
 };
@@ -1,4 +1,5 @@
 import { calculateJwkThumbprint, exportJWK, type JWK, SignJWT } from "jose";
+import { getCrypto } from "./crypto";
 
 export type DPoPAlg = "ES256" | "ES384" | "ES512" | "PS256" | "PS384" | "PS512" | "RS256" | "RS384" | "RS512";
 
@@ -10,8 +11,8 @@ export interface DPoPKeyMaterial {
 
 const DPOP_PROOF_LIFETIME_SECONDS = 60;
 
-export const generateDpopKeyMaterial = async (alg: DPoPAlg): Promise<DPoPKeyMaterial> => {
-  const keyPair = await generateKeyPair(alg);
+export const generateDpopKeyMaterial = async (alg: DPoPAlg, crypto = getCrypto()): Promise<DPoPKeyMaterial> => {
+  const keyPair = await generateKeyPair(alg, crypto);
   const publicJwk = await exportJWK(keyPair.publicKey);
   const jkt = await calculateJwkThumbprint(publicJwk, "sha256");
 
@@ -29,6 +30,7 @@ export const generateDpopProofJwt = async ({
   htm,
   htu,
   accessToken,
+  crypto = getCrypto(),
 }: {
   alg: DPoPAlg;
   privateKey: CryptoKey;
@@ -36,6 +38,7 @@ export const generateDpopProofJwt = async ({
   htm: string;
   htu: string;
   accessToken?: string;
+  crypto?: Crypto;
 }): Promise<string> => {
   const now = Math.floor(Date.now() / 1000);
 
@@ -44,11 +47,11 @@ export const generateDpopProofJwt = async ({
     htu: normalizeHtu(htu),
     iat: now,
     exp: now + DPOP_PROOF_LIFETIME_SECONDS,
-    jti: getJti(),
+    jti: getJti(crypto),
   };
 
   if (accessToken) {
-    claims.ath = await getAth(accessToken);
+    claims.ath = await getAth(accessToken, crypto);
   }
 
   return await new SignJWT(claims)
@@ -60,11 +63,11 @@ export const generateDpopProofJwt = async ({
     .sign(privateKey);
 };
 
-const generateKeyPair = async (alg: DPoPAlg): Promise<CryptoKeyPair> => {
+const generateKeyPair = async (alg: DPoPAlg, crypto: Crypto): Promise<CryptoKeyPair> => {
   if (alg === "ES256" || alg === "ES384" || alg === "ES512") {
     const namedCurve = alg === "ES256" ? "P-256" : alg === "ES384" ? "P-384" : "P-521";
 
-    return await window.crypto.subtle.generateKey(
+    return await crypto.subtle.generateKey(
       {
         name: "ECDSA",
         namedCurve,
@@ -77,7 +80,7 @@ const generateKeyPair = async (alg: DPoPAlg): Promise<CryptoKeyPair> => {
   if (alg === "PS256" || alg === "PS384" || alg === "PS512") {
     const hash = alg === "PS256" ? "SHA-256" : alg === "PS384" ? "SHA-384" : "SHA-512";
 
-    return await window.crypto.subtle.generateKey(
+    return await crypto.subtle.generateKey(
       {
         name: "RSA-PSS",
         modulusLength: 2048,
@@ -91,7 +94,7 @@ const generateKeyPair = async (alg: DPoPAlg): Promise<CryptoKeyPair> => {
 
   const hash = alg === "RS256" ? "SHA-256" : alg === "RS384" ? "SHA-384" : "SHA-512";
 
-  return await window.crypto.subtle.generateKey(
+  return await crypto.subtle.generateKey(
     {
       name: "RSASSA-PKCS1-v1_5",
       modulusLength: 2048,
@@ -110,18 +113,18 @@ const normalizeHtu = (htu: string): string => {
   return url.href;
 };
 
-const getJti = (): string => {
-  if (typeof window.crypto.randomUUID === "function") {
-    return window.crypto.randomUUID();
+const getJti = (crypto: Crypto): string => {
+  if (typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
   }
 
-  const randomBytes = window.crypto.getRandomValues(new Uint8Array(16));
+  const randomBytes = crypto.getRandomValues(new Uint8Array(16));
   return Array.from(randomBytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
 };
 
-const getAth = async (accessToken: string): Promise<string> => {
+const getAth = async (accessToken: string, crypto: Crypto): Promise<string> => {
   const encoder = new TextEncoder();
-  const hash = await window.crypto.subtle.digest("SHA-256", encoder.encode(accessToken));
+  const hash = await crypto.subtle.digest("SHA-256", encoder.encode(accessToken));
   const hashBytes = new Uint8Array(hash);
   const binary = String.fromCharCode(...hashBytes);
   return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
@@ -26,9 +26,15 @@ export const clearStoredDpopKeyMaterialBestEffort = async (
     }
   }
 
-  const tokenParams = storageManager.getTokenParams();
-  if (tokenParams?.dpopKeyRef) {
-    dpopKeyRefs.add(tokenParams.dpopKeyRef);
+  for (const { tokenParams } of storageManager.getPendingAuthorizations()) {
+    if (tokenParams.dpopKeyRef) {
+      dpopKeyRefs.add(tokenParams.dpopKeyRef);
+    }
+  }
+
+  const rbaTransactionDpopKeyRef = storageManager.getRbaTransactionDpopKeyRef();
+  if (rbaTransactionDpopKeyRef) {
+    dpopKeyRefs.add(rbaTransactionDpopKeyRef);
   }
 
   for (const dpopKeyRef of dpopKeyRefs) {
@@ -1,5 +1,7 @@
 import type { JWK } from "jose";
+import { getCrypto } from "./crypto";
 import type { DPoPAlg, DPoPKeyMaterial } from "./dpop";
+import { hasIndexedDb, requestToPromise, withStore } from "./indexedDb";
 
 interface PersistedDpopKeyMaterial {
   id: string;
@@ -9,90 +11,37 @@ interface PersistedDpopKeyMaterial {
   jkt: string;
 }
 
-const DB_NAME = "idaas-auth-js";
 const STORE_NAME = "dpop-key-material";
-const DB_VERSION = 1;
 const INDEXED_DB_REQUIRED_MESSAGE =
   "DPoP requires IndexedDB support to persist key material. Disable DPoP or use a browser with IndexedDB.";
 
 const memoryFallbackStore = new Map<string, PersistedDpopKeyMaterial>();
 
-const hasIndexedDb = (): boolean => {
-  return typeof indexedDB !== "undefined";
-};
+// Outside the browser there is no page reload to survive, so key material is kept in memory for the process
+const allowsMemoryStore = (): boolean => {
+  if (typeof window === "undefined") {
+    return true;
+  }
 
-const allowsTestMemoryStore = (): boolean => {
   return (
     typeof process !== "undefined" && process.env.IDAAS_AUTH_JS_ALLOW_MEMORY_DPOP_KEY_STORE?.toLowerCase() === "true"
   );
 };
 
-const createRandomId = (): string => {
-  if (typeof window.crypto.randomUUID === "function") {
-    return window.crypto.randomUUID();
+const createRandomId = (crypto: Crypto): string => {
+  if (typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
   }
 
-  const randomBytes = window.crypto.getRandomValues(new Uint8Array(16));
+  const randomBytes = crypto.getRandomValues(new Uint8Array(16));
   return Array.from(randomBytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
 };
 
-const openStore = async (): Promise<IDBDatabase> => {
-  return await new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onupgradeneeded = () => {
-      const db = request.result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: "id" });
-      }
-    };
-
-    request.onerror = () => {
-      reject(request.error ?? new Error("Failed to open IndexedDB for DPoP key material"));
-    };
-
-    request.onsuccess = () => {
-      resolve(request.result);
-    };
-  });
-};
-
-const withStore = async <T>(mode: IDBTransactionMode, callback: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
-  const db = await openStore();
-
-  try {
-    const transaction = db.transaction(STORE_NAME, mode);
-    const store = transaction.objectStore(STORE_NAME);
-    const result = await callback(store);
-    await transactionToPromise(transaction);
-    return result;
-  } finally {
-    db.close();
-  }
-};
-
-const transactionToPromise = async (transaction: IDBTransaction): Promise<void> => {
-  return await new Promise((resolve, reject) => {
-    transaction.oncomplete = () => resolve();
-    transaction.onerror = () => reject(transaction.error ?? new Error("IndexedDB transaction failed"));
-    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
-  });
-};
-
-const requestToPromise = async <T>(request: IDBRequest<T>): Promise<T> => {
-  return await new Promise((resolve, reject) => {
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed"));
-  });
-};
-
-export const persistDpopKeyMaterial = async ({
-  alg,
-  privateKey,
-  publicJwk,
-  jkt,
-}: DPoPKeyMaterial & { alg: DPoPAlg }): Promise<string> => {
-  const id = createRandomId();
+export const persistDpopKeyMaterial = async (
+  { alg, privateKey, publicJwk, jkt }: DPoPKeyMaterial & { alg: DPoPAlg },
+  crypto = getCrypto(),
+): Promise<string> => {
+  const id = createRandomId(crypto);
   const record: PersistedDpopKeyMaterial = {
     id,
     alg,
@@ -102,7 +51,7 @@ export const persistDpopKeyMaterial = async ({
   };
 
   if (!hasIndexedDb()) {
-    if (!allowsTestMemoryStore()) {
+    if (!allowsMemoryStore()) {
       throw new Error(INDEXED_DB_REQUIRED_MESSAGE);
     }
 
@@ -111,7 +60,7 @@ export const persistDpopKeyMaterial = async ({
   }
 
   try {
-    await withStore("readwrite", async (store) => {
+    await withStore(STORE_NAME, "readwrite", async (store) => {
       await requestToPromise(store.put(record));
       return undefined;
     });
@@ -139,7 +88,7 @@ export const retrievePersistedDpopKeyMaterial = async (
     };
   }
 
-  return await withStore("readonly", async (store) => {
+  return await withStore(STORE_NAME, "readonly", async (store) => {
     const record = await requestToPromise(store.get(id) as IDBRequest<PersistedDpopKeyMaterial | undefined>);
 
     if (!record) {
@@ -161,7 +110,7 @@ export const cleanupPersistedDpopKeyMaterial = async (id: string): Promise<void>
     return;
   }
 
-  await withStore("readwrite", async (store) => {
+  await withStore(STORE_NAME, "readwrite", async (store) => {
     await requestToPromise(store.delete(id));
     return undefined;
   });
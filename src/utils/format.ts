@@ -44,3 +44,28 @@ export const sanitizeUri = (redirectUri: string): string => {
 
   return sanitizedUrl.toString();
 };
+
+/**
+ * Normalizes one or many resource indicators to a list without duplicates or empty values.
+ * @param resource the resource indicator(s) from the token options
+ * @throws Error if a resource indicator is not an absolute URI without a fragment, as required by RFC 8707
+ */
+export const toResourceList = (resource?: string | string[]): string[] => {
+  const resources = typeof resource === "string" ? [resource] : (resource ?? []);
+  const uniqueResources = [...new Set(resources.map((uri) => uri.trim()).filter(Boolean))];
+
+  for (const uri of uniqueResources) {
+    let hash: string;
+    try {
+      hash = new URL(uri).hash;
+    } catch {
+      throw new Error(`Resource indicator must be an absolute URI: ${uri}`);
+    }
+
+    if (hash) {
+      throw new Error(`Resource indicator must not include a fragment: ${uri}`);
+    }
+  }
+
+  return uniqueResources;
+};
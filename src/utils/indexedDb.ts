@@ -0,0 +1,90 @@
+const DB_NAME = "idaas-auth-js";
+// Version 2 added the session store, version 3 the storage-keys store
+const DB_VERSION = 3;
+
+/**
+ * Object stores of the SDK's IndexedDB database.
+ * - `dpop-key-material`: persisted DPoP key pairs, keyed by their `id` field
+ * - `session`: string values written by the `indexeddb` storage type, keyed by storage key
+ * - `storage-keys`: non-extractable AES-GCM keys used by `encryptStorage`, keyed by client ID
+ */
+export type IndexedDbStoreName = "dpop-key-material" | "session" | "storage-keys";
+
+/**
+ * The SDK database could not be opened, e.g. because IndexedDB is disabled in a private browsing window.
+ */
+export class IndexedDbUnavailableError extends Error {}
+
+export const hasIndexedDb = (): boolean => {
+  return typeof indexedDB !== "undefined";
+};
+
+const openDatabase = async (): Promise<IDBDatabase> => {
+  return await new Promise((resolve, reject) => {
+    let request: IDBOpenDBRequest;
+    try {
+      request = indexedDB.open(DB_NAME, DB_VERSION);
+    } catch (error) {
+      reject(new IndexedDbUnavailableError("Failed to open IndexedDB", { cause: error }));
+      return;
+    }
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains("dpop-key-material")) {
+        db.createObjectStore("dpop-key-material", { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains("session")) {
+        db.createObjectStore("session");
+      }
+      if (!db.objectStoreNames.contains("storage-keys")) {
+        db.createObjectStore("storage-keys");
+      }
+    };
+
+    request.onerror = () => {
+      reject(new IndexedDbUnavailableError("Failed to open IndexedDB", { cause: request.error }));
+    };
+
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+  });
+};
+
+/**
+ * Opens the SDK database, runs the callback in a transaction on the given object store and waits for the
+ * transaction to complete before closing the database.
+ */
+export const withStore = async <T>(
+  storeName: IndexedDbStoreName,
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => Promise<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+
+  try {
+    const transaction = db.transaction(storeName, mode);
+    const store = transaction.objectStore(storeName);
+    const result = await callback(store);
+    await transactionToPromise(transaction);
+    return result;
+  } finally {
+    db.close();
+  }
+};
+
+const transactionToPromise = async (transaction: IDBTransaction): Promise<void> => {
+  return await new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error("IndexedDB transaction failed"));
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+  });
+};
+
+export const requestToPromise = async <T>(request: IDBRequest<T>): Promise<T> => {
+  return await new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed"));
+  });
+};
@@ -1,4 +1,5 @@
-import { createRemoteJWKSet, decodeJwt, decodeProtectedHeader, type JWTPayload, jwtVerify } from "jose";
+import { decodeJwt, decodeProtectedHeader, type JWTPayload, type JWTVerifyGetKey, jwtVerify } from "jose";
+import { TokenValidationError } from "../errors";
 import type { UserClaims } from "../models";
 
 export const DEFAULT_ALLOWED_ID_TOKEN_SIGNING_ALGORITHMS = [
@@ -21,11 +22,12 @@ export interface ValidateIdTokenParams {
   idToken?: string | JWTPayload;
   issuer: string;
   clientId: string;
-  nonce: string;
+  // Not set for grants without an authorization request, such as the device authorization grant
+  nonce?: string;
   idTokenSigningAlgValuesSupported: string[];
   allowedIdTokenSigningAlgorithms?: string[];
   acrValuesSupported?: string[];
-  jwksEndpoint: string;
+  jwks: JWTVerifyGetKey;
   requestedAcrValues?: string[];
 }
 
@@ -33,7 +35,7 @@ export interface ValidateUserInfoTokenParams {
   userInfoToken: string;
   issuer: string;
   clientId: string;
-  jwksEndpoint: string;
+  jwks: JWTVerifyGetKey;
 }
 
 export interface DecodedAccessToken {
@@ -52,11 +54,11 @@ export interface DecodedAccessToken {
  * Validate the signed ID token received from the /token endpoint in accordance with the OIDC specification.
  *
  * Validates the token by checking:
- * - Required claims (sub, iat, iss, aud, exp, nonce)
+ * - Required claims (sub, iat, iss, aud, exp, and nonce if one was sent)
  * - Claim values (issuer, audience/azp, nonce)
  * - Token expiration (exp) and not-before (nbf) times with clock skew leeway
  * - Algorithm is supported
- * - JWT signature against the OpenID Provider's JWKS endpoint
+ * - JWT signature against the OpenID Provider's JSON Web Key Set
  *
  * See more at: https://openid.net/specs/openid-connect-core-1_0.html#IDTokenValidation
  */
@@ -68,11 +70,11 @@ export const validateIdToken = async ({
   idTokenSigningAlgValuesSupported,
   allowedIdTokenSigningAlgorithms,
   acrValuesSupported,
-  jwksEndpoint,
+  jwks,
   requestedAcrValues,
 }: ValidateIdTokenParams) => {
   if (!idToken) {
-    throw new Error("No ID token supplied");
+    throw new TokenValidationError("No ID token supplied");
   }
 
   // Store the stringified token for simpler type-ing later on
@@ -94,45 +96,49 @@ export const validateIdToken = async ({
       alg = decodeProtectedHeader(idToken).alg;
     }
   } catch {
-    throw new Error("ID token format is neither a valid JSON object nor a signed JWT");
+    throw new TokenValidationError("ID token format is neither a valid JSON object nor a signed JWT");
   }
 
   if (!decodedJwt.sub) {
-    throw new Error("Subject (sub) claim is missing from ID token");
+    throw new TokenValidationError("Subject (sub) claim is missing from ID token");
   }
 
   if (!decodedJwt.iat) {
-    throw new Error("Issued At (iat) claim is missing from ID token");
+    throw new TokenValidationError("Issued At (iat) claim is missing from ID token");
   }
 
   if (typeof decodedJwt.iat !== "number" || !Number.isFinite(decodedJwt.iat)) {
-    throw new Error("Issued At (iat) claim must be a valid numeric timestamp");
+    throw new TokenValidationError("Issued At (iat) claim must be a valid numeric timestamp");
   }
 
   if (!decodedJwt.iss) {
-    throw new Error("Issuer (iss) claim is missing from ID token");
+    throw new TokenValidationError("Issuer (iss) claim is missing from ID token");
   }
 
   if (!decodedJwt.aud) {
-    throw new Error("Audience (aud) claim is missing from ID token");
+    throw new TokenValidationError("Audience (aud) claim is missing from ID token");
   }
 
   if (!decodedJwt.exp) {
-    throw new Error("Expiration Time (exp) claim is missing from the ID token");
+    throw new TokenValidationError("Expiration Time (exp) claim is missing from the ID token");
   }
 
   if (decodedJwt.iss !== issuer) {
-    throw new Error(`Issuer (iss) claim ${decodedJwt.iss} in the ID token does not match expected ${issuer}`);
+    throw new TokenValidationError(
+      `Issuer (iss) claim ${decodedJwt.iss} in the ID token does not match expected ${issuer}`,
+    );
   }
 
   // Validate that the audience/azp is/includes the clientId
   if (typeof decodedJwt.aud === "string" && decodedJwt.aud !== clientId) {
-    throw new Error(`Audience (aud) claim ${decodedJwt.aud} in the ID token does not match expected ${clientId}`);
+    throw new TokenValidationError(
+      `Audience (aud) claim ${decodedJwt.aud} in the ID token does not match expected ${clientId}`,
+    );
   }
 
   if (Array.isArray(decodedJwt.aud)) {
     if (!decodedJwt.aud.includes(clientId)) {
-      throw new Error(
+      throw new TokenValidationError(
         `Audience (aud) claim array ${decodedJwt.aud} in the ID token does not include expected ${clientId}`,
       );
     }
@@ -140,13 +146,15 @@ export const validateIdToken = async ({
     if (decodedJwt.aud.length > 1) {
       const azp = decodedJwt.azp;
       if (!azp) {
-        throw new Error(
+        throw new TokenValidationError(
           "Authorized Party (azp) claim is missing from ID token and must be present when there are multiple audiences",
         );
       }
 
       if (azp !== clientId) {
-        throw new Error(`Authorized Party (azp) claim ${azp} in the ID token does not match expected ${clientId}`);
+        throw new TokenValidationError(
+          `Authorized Party (azp) claim ${azp} in the ID token does not match expected ${clientId}`,
+        );
       }
     }
   }
@@ -159,24 +167,28 @@ export const validateIdToken = async ({
   const expDate = new Date((decodedJwt.exp + leeway) * 1000);
 
   if (now > expDate) {
-    throw new Error(`Expiration Time (exp) claim ${decodedJwt.exp} indicates that this token is now expired at ${now}`);
+    throw new TokenValidationError(
+      `Expiration Time (exp) claim ${decodedJwt.exp} indicates that this token is now expired at ${now}`,
+    );
   }
 
   if (decodedJwt.iat > decodedJwt.exp) {
-    throw new Error(
+    throw new TokenValidationError(
       `Issued At (iat) claim ${decodedJwt.iat} must not be later than Expiration Time (exp) claim ${decodedJwt.exp}`,
     );
   }
 
   const iatDate = new Date((decodedJwt.iat - leeway) * 1000);
   if (now < iatDate) {
-    throw new Error(`Issued At (iat) claim ${decodedJwt.iat} indicates that this token was issued in the future`);
+    throw new TokenValidationError(
+      `Issued At (iat) claim ${decodedJwt.iat} indicates that this token was issued in the future`,
+    );
   }
 
   if (decodedJwt.nbf) {
     const nbfDate = new Date((decodedJwt.nbf - leeway) * 1000);
     if (now < nbfDate) {
-      throw new Error(
+      throw new TokenValidationError(
         `Not Before (nbf) claim ${decodedJwt.nbf} indicates that this token is not to be used yet at ${now}`,
       );
     }
@@ -184,23 +196,27 @@ export const validateIdToken = async ({
 
   // Validate the nonce claim is the one sent during Authorization request
   const nonceClaim = decodedJwt.nonce;
-  if (!nonceClaim) {
-    throw new Error("Nonce (nonce) claim is missing from ID token");
-  }
+  if (nonce !== undefined) {
+    if (!nonceClaim) {
+      throw new TokenValidationError("Nonce (nonce) claim is missing from ID token");
+    }
 
-  if (nonceClaim !== nonce) {
-    throw new Error(`Nonce (nonce) claim ${nonceClaim} in the ID token does not match expected ${nonce}`);
+    if (nonceClaim !== nonce) {
+      throw new TokenValidationError(
+        `Nonce (nonce) claim ${nonceClaim} in the ID token does not match expected ${nonce}`,
+      );
+    }
   }
 
   const acrClaim = decodedJwt.acr;
   if (acrClaim && !acrValuesSupported?.includes(acrClaim as string)) {
-    throw new Error(
+    throw new TokenValidationError(
       `Authentication Context Class Reference (acr) claim ${acrClaim} is not one of the supported ${acrValuesSupported}`,
     );
   }
 
   if (!alg) {
-    throw new Error("Algorithm (alg) claim is missing from ID token");
+    throw new TokenValidationError("Algorithm (alg) claim is missing from ID token");
   }
 
   if (allowedIdTokenSigningAlgorithms?.length === 0) {
@@ -229,34 +245,33 @@ export const validateIdToken = async ({
   }
 
   if (!effectiveAllowedAlgorithms.includes(alg)) {
-    throw new Error(
+    throw new TokenValidationError(
       `Algorithm (alg) claim ${alg} in the ID token is not one of the allowed algorithms ${effectiveAllowedAlgorithms}`,
     );
   }
 
-  // Verify the JWT signature against the JWKS endpoint if the token is signed
+  // Verify the JWT signature against the JWKS if the token is signed
   if (typeof idToken === "string") {
-    const jwks = createRemoteJWKSet(new URL(jwksEndpoint));
-
     try {
       await jwtVerify(idToken, jwks, {
         audience: clientId,
         issuer,
       });
     } catch (error) {
-      throw new Error(
+      throw new TokenValidationError(
         `ID token signature verification failed: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error },
       );
     }
   }
 
   if (requestedAcrValues && requestedAcrValues.length > 0) {
     if (!acrClaim) {
-      throw new Error("Authentication Context Class Reference (acr) claim is missing from ID token");
+      throw new TokenValidationError("Authentication Context Class Reference (acr) claim is missing from ID token");
     }
 
     if (typeof acrClaim !== "string" || !requestedAcrValues.includes(acrClaim)) {
-      throw new Error(
+      throw new TokenValidationError(
         `Authentication Context Class Reference (acr) claim ${acrClaim} in the ID token is not one of the requested values ${requestedAcrValues}`,
       );
     }
@@ -266,7 +281,7 @@ export const validateIdToken = async ({
 };
 
 /**
- * Validate the signed token received from the /userinfo endpoint by checking its signature against the JWKS at the OpenId Provider.
+ * Validate the signed token received from the /userinfo endpoint by checking its signature against the OpenId Provider's JWKS.
  *
  * See more at: https://openid.net/specs/openid-connect-core-1_0-errata2.html#UserInfo
  */
@@ -274,9 +289,9 @@ export const validateUserInfoToken = async ({
   userInfoToken,
   issuer,
   clientId,
-  jwksEndpoint,
+  jwks,
 }: ValidateUserInfoTokenParams): Promise<UserClaims | null> => {
-  // Do this to check that the token is actually a jwt, without having to call the JWKS endpoint
+  // Do this to check that the token is actually a jwt, without having to resolve the JWKS
   try {
     decodeJwt(userInfoToken);
   } catch {
@@ -284,20 +299,25 @@ export const validateUserInfoToken = async ({
   }
 
   /*
-  Since the token is a jwt, validate it using the OP's JWKS endpoint. This will validate that:
+  Since the token is a jwt, validate it using the OP's JWKS. This will validate that:
   - The signature on the jwt is valid
   - The issuer and the audience are present
   - The audience is/includes the RP's client ID
   - The issuer is the OP's issuer URL
    */
-  const jwks = createRemoteJWKSet(new URL(jwksEndpoint));
-
-  const verifiedJwt = await jwtVerify(userInfoToken, jwks, {
-    audience: clientId,
-    issuer,
-  });
-
-  return verifiedJwt.payload;
+  try {
+    const verifiedJwt = await jwtVerify(userInfoToken, jwks, {
+      audience: clientId,
+      issuer,
+    });
+
+    return verifiedJwt.payload;
+  } catch (error) {
+    throw new TokenValidationError(
+      `UserInfo token signature verification failed: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
+    );
+  }
 };
 
 export const readAccessToken = (encodedToken: string): DecodedAccessToken | null => {
@@ -0,0 +1,27 @@
+// Callbacks queued for each lock name when the Web Locks API is not available, by the promise of the last one
+const fallbackQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs the callback while holding an exclusive Web Lock with the given name, so that only one tab (or worker) of the
+ * same origin executes it at a time. When the Web Locks API is not available the callbacks are only serialized within
+ * the current context.
+ *
+ * See more at: https://developer.mozilla.org/en-US/docs/Web/API/Web_Locks_API
+ * @param name the name of the lock, shared by every context that needs to be coordinated
+ * @param callback the work to run while holding the lock
+ */
+export const withLock = async <T>(name: string, callback: () => Promise<T>): Promise<T> => {
+  if (typeof navigator === "undefined" || !navigator.locks) {
+    const result = (fallbackQueues.get(name) ?? Promise.resolve()).then(callback);
+    const queued = result.catch(() => undefined);
+    fallbackQueues.set(name, queued);
+    void queued.then(() => {
+      if (fallbackQueues.get(name) === queued) {
+        fallbackQueues.delete(name);
+      }
+    });
+    return await result;
+  }
+
+  return await navigator.locks.request(name, { mode: "exclusive" }, callback);
+};
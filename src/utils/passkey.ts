@@ -1,4 +1,5 @@
 import type { FidoChallenge, FidoResponse } from "../models/openapi-ts";
+import { assertBrowser } from "./browser";
 
 /**
  * Converts a WebAuthn credential into an IDaaS-compatible FIDO response payload.
@@ -30,6 +31,7 @@ export const buildFidoResponse = (credential: PublicKeyCredential): FidoResponse
  * @returns {PublicKeyCredentialRequestOptions} Parsed request options for navigator.credentials.get.
  */
 export const buildPubKeyRequestOptions = (fidoChallenge: FidoChallenge): PublicKeyCredentialRequestOptions => {
+  assertBrowser("Passkey authentication");
   return PublicKeyCredential.parseRequestOptionsFromJSON({
     challenge: fidoChallenge.challenge,
     allowCredentials: fidoChallenge.allowCredentials?.map((id) => ({
@@ -0,0 +1,16 @@
+/**
+ * Reports an error thrown by application code the SDK called, e.g. an event listener, without interrupting the SDK.
+ * Browsers dispatch the error to `window.onerror` like any other uncaught error. Runtimes without `reportError`, e.g.
+ * Node.js, log it to the console instead, rethrowing it there would crash the process.
+ *
+ * See more at: https://developer.mozilla.org/en-US/docs/Web/API/Window/reportError
+ * @param error the error thrown by the application code
+ */
+export const reportError = (error: unknown): void => {
+  if (typeof globalThis.reportError === "function") {
+    globalThis.reportError(error);
+    return;
+  }
+
+  console.error(error);
+};
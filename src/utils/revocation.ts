@@ -0,0 +1,55 @@
+import { type RevocationRequest, revokeToken } from "../api";
+import type { IdaasContext } from "../IdaasContext";
+import type { AccessToken, StorageManager } from "../storage/StorageManager";
+
+/**
+ * Revokes the refresh token, and optionally the access token, of each given token at the OP's revocation endpoint.
+ *
+ * See more at: https://datatracker.ietf.org/doc/html/rfc7009
+ * @throws Error if there is something to revoke but the OP has no revocation endpoint, or if any revocation fails
+ */
+export const revokeStoredTokens = async (
+  context: IdaasContext,
+  tokens: AccessToken[],
+  { revokeAccessTokens = false }: { revokeAccessTokens?: boolean } = {},
+): Promise<void> => {
+  const revocationRequests: RevocationRequest[] = [];
+  for (const { refreshToken, accessToken } of tokens) {
+    if (refreshToken) {
+      revocationRequests.push({ token: refreshToken, token_type_hint: "refresh_token", client_id: context.clientId });
+    }
+    if (revokeAccessTokens) {
+      revocationRequests.push({ token: accessToken, token_type_hint: "access_token", client_id: context.clientId });
+    }
+  }
+
+  if (revocationRequests.length === 0) {
+    return;
+  }
+
+  const { revocation_endpoint } = await context.getConfig();
+  if (!revocation_endpoint) {
+    throw new Error("Token revocation is not supported by the OpenID provider, no revocation_endpoint is advertised");
+  }
+
+  const results = await Promise.allSettled(
+    revocationRequests.map(async (revocationRequest) => await revokeToken(revocation_endpoint, revocationRequest)),
+  );
+
+  const failure = results.find((result) => result.status === "rejected");
+  if (failure) {
+    throw failure.reason;
+  }
+};
+
+export const revokeStoredTokensBestEffort = async (
+  context: IdaasContext,
+  storageManager: StorageManager,
+  options: { revokeAccessTokens?: boolean } = {},
+): Promise<void> => {
+  try {
+    await revokeStoredTokens(context, storageManager.getAccessTokens(), options);
+  } catch {
+    // Token revocation must not block local session cleanup.
+  }
+};
@@ -0,0 +1,48 @@
+import { getCrypto } from "./crypto";
+import { hasIndexedDb, IndexedDbUnavailableError, requestToPromise, withStore } from "./indexedDb";
+
+const STORE_NAME = "storage-keys";
+const INDEXED_DB_REQUIRED_MESSAGE =
+  "Encrypted storage requires IndexedDB support to persist the encryption key. Disable encryptStorage or use a browser with IndexedDB.";
+
+/**
+ * Returns the AES-GCM key used to encrypt the stored values of a storage namespace, creating and persisting it on first
+ * use.
+ *
+ * The key is generated as non-extractable, so it can be used for encryption but never read back out of the browser.
+ * @param namespace the storage namespace the key belongs to
+ * @param crypto the Web Crypto implementation that generates the key
+ * @throws Error if IndexedDB is not available, or the key could not be read or persisted
+ */
+export const loadStorageEncryptionKey = async (namespace: string, crypto = getCrypto()): Promise<CryptoKey> => {
+  if (!hasIndexedDb()) {
+    throw new Error(INDEXED_DB_REQUIRED_MESSAGE);
+  }
+
+  try {
+    const existingKey = await withStore(STORE_NAME, "readonly", async (store) => {
+      return await requestToPromise(store.get(namespace) as IDBRequest<CryptoKey | undefined>);
+    });
+    if (existingKey) {
+      return existingKey;
+    }
+
+    const newKey = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+
+    // Another tab may have persisted a key in the meantime, checking again in the writing transaction keeps one key
+    return await withStore(STORE_NAME, "readwrite", async (store) => {
+      const concurrentKey = await requestToPromise(store.get(namespace) as IDBRequest<CryptoKey | undefined>);
+      if (concurrentKey) {
+        return concurrentKey;
+      }
+
+      await requestToPromise(store.add(newKey, namespace));
+      return newKey;
+    });
+  } catch (error) {
+    if (error instanceof IndexedDbUnavailableError) {
+      throw new Error(INDEXED_DB_REQUIRED_MESSAGE, { cause: error });
+    }
+    throw new Error("Failed to load the storage encryption key", { cause: error });
+  }
+};
@@ -1,6 +1,7 @@
 // URL generation functions
-import type { TokenOptions } from "../models";
-import { base64UrlStringEncode, createRandomString, generateChallengeVerifierPair } from "../utils/crypto";
+import type { AuthorizationParams, TokenOptions } from "../models";
+import { base64UrlStringEncode, createRandomString, generateChallengeVerifierPair, getCrypto } from "../utils/crypto";
+import { toResourceList } from "./format";
 
 export interface GenerateAuthorizationUrlOptions {
   // Common parameters
@@ -9,9 +10,13 @@ export interface GenerateAuthorizationUrlOptions {
 
   // OIDC flow params
   baseUrl: string;
-  responseMode?: "query" | "web_message";
+  responseMode?: "query" | "fragment" | "web_message";
   redirectUri?: string;
   dpopJkt?: string;
+  authorizationParams?: AuthorizationParams;
+
+  // The Web Crypto implementation of the client
+  crypto?: Crypto;
 }
 
 export interface AuthorizationUrlResult {
@@ -20,35 +25,91 @@ export interface AuthorizationUrlResult {
   state: string;
   codeVerifier: string;
   usedScope: string;
+  usedResource: string[];
 }
 
 /**
- * Generates an authorization URL for OIDC and JWT auth flows.
- * @param options - Authorization URL generation options
- * @returns Authorization URL details including url, state, nonce and code verifier
+ * Authorization request parameters that are set by the SDK, either because they secure the flow or because they are
+ * derived from other options, and therefore cannot be set through `extraParams`.
  */
-export const generateAuthorizationUrl = async (
-  options: GenerateAuthorizationUrlOptions,
-): Promise<AuthorizationUrlResult> => {
+const RESERVED_AUTHORIZATION_PARAMS = [
+  "client_id",
+  "response_type",
+  "response_mode",
+  "redirect_uri",
+  "scope",
+  "state",
+  "nonce",
+  "code_challenge",
+  "code_challenge_method",
+  "dpop_jkt",
+  "request",
+  "request_uri",
+  "audience",
+  "resource",
+  "max_age",
+  "acr_values",
+  "prompt",
+  "login_hint",
+  "id_token_hint",
+  "ui_locales",
+  "display",
+  "claims",
+];
+
+/**
+ * Builds the scope to request for the given token options, adding `openid` and `offline_access` when they apply.
+ */
+export const toRequestedScope = (tokenOptions: TokenOptions): string => {
   // Process scope (default to empty string if not provided)
-  const scopeAsArray = options.tokenOptions.scope ? options.tokenOptions.scope.split(" ").filter(Boolean) : [];
+  const scopeAsArray = tokenOptions.scope ? tokenOptions.scope.split(" ").filter(Boolean) : [];
 
   // Add openid scope if requested (for OIDC authentication to receive ID token)
-  if (options.tokenOptions.includeOpenidScope !== false) {
+  if (tokenOptions.includeOpenidScope !== false) {
     scopeAsArray.push("openid");
   }
 
-  if (options.tokenOptions.useRefreshToken) {
+  if (tokenOptions.useRefreshToken) {
     scopeAsArray.push("offline_access");
   }
 
   // Remove duplicate scopes
-  const usedScope = [...new Set(scopeAsArray)].join(" ");
+  return [...new Set(scopeAsArray)].join(" ");
+};
+
+/**
+ * Generates an authorization URL for OIDC and JWT auth flows.
+ * @param options - Authorization URL generation options
+ * @returns Authorization URL details including url, state, nonce and code verifier
+ * @throws Error if `extraParams` sets a reserved parameter
+ */
+export const generateAuthorizationUrl = async (
+  options: GenerateAuthorizationUrlOptions,
+): Promise<AuthorizationUrlResult> => {
+  const {
+    prompt,
+    loginHint,
+    idTokenHint,
+    uiLocales,
+    display,
+    claims,
+    extraParams = {},
+  } = options.authorizationParams ?? {};
+
+  for (const name of Object.keys(extraParams)) {
+    if (RESERVED_AUTHORIZATION_PARAMS.includes(name)) {
+      throw new Error(`The "${name}" authorization parameter cannot be set through extraParams`);
+    }
+  }
+
+  const usedScope = toRequestedScope(options.tokenOptions);
+  const usedResource = toResourceList(options.tokenOptions.resource);
 
   // Generate cryptographic values
-  const state = base64UrlStringEncode(createRandomString());
-  const nonce = base64UrlStringEncode(createRandomString());
-  const { codeVerifier, codeChallenge } = await generateChallengeVerifierPair();
+  const crypto = getCrypto(options.crypto);
+  const state = base64UrlStringEncode(createRandomString(crypto));
+  const nonce = base64UrlStringEncode(createRandomString(crypto));
+  const { codeVerifier, codeChallenge } = await generateChallengeVerifierPair(crypto);
 
   // Build URL
   const url = new URL(options.baseUrl);
@@ -65,6 +126,11 @@ export const generateAuthorizationUrl = async (
     url.searchParams.append("audience", options.tokenOptions.audience);
   }
 
+  // RFC 8707: one resource parameter per requested resource
+  for (const resource of usedResource) {
+    url.searchParams.append("resource", resource);
+  }
+
   // Add maxAge if provided and >= 0
   if (options.tokenOptions.maxAge !== undefined && options.tokenOptions.maxAge >= 0) {
     url.searchParams.append("max_age", options.tokenOptions.maxAge.toString());
@@ -79,10 +145,36 @@ export const generateAuthorizationUrl = async (
     url.searchParams.append("dpop_jkt", options.dpopJkt);
   }
 
+  if (loginHint) {
+    url.searchParams.append("login_hint", loginHint);
+  }
+
+  if (idTokenHint) {
+    url.searchParams.append("id_token_hint", idTokenHint);
+  }
+
+  if (uiLocales) {
+    url.searchParams.append("ui_locales", uiLocales);
+  }
+
+  if (display) {
+    url.searchParams.append("display", display);
+  }
+
+  if (claims) {
+    url.searchParams.append("claims", JSON.stringify(claims));
+  }
+
+  for (const [name, value] of Object.entries(extraParams)) {
+    url.searchParams.append(name, value);
+  }
+
   url.searchParams.append("response_type", "code");
 
-  // If offline_access is requested, add prompt=consent
-  if (scopeAsArray.includes("offline_access")) {
+  // If offline_access is requested, add prompt=consent, unless the caller asked for a specific prompt
+  if (prompt) {
+    url.searchParams.append("prompt", prompt);
+  } else if (usedScope.split(" ").includes("offline_access")) {
     url.searchParams.append("prompt", "consent");
   }
 
@@ -101,5 +193,6 @@ export const generateAuthorizationUrl = async (
     state,
     codeVerifier,
     usedScope,
+    usedResource,
   };
 };
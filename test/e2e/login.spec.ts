@@ -8,7 +8,7 @@ if (!CLIENT_ID || !DEV_SERVER || !ISSUER || !PASSWORD || !USERNAME) {
   );
 }
 
-const CLIENT_PARAMS_KEY = `entrust.${CLIENT_ID}.clientParams`;
+const PENDING_AUTHORIZATIONS_KEY = `entrust.${CLIENT_ID}.pendingAuthorizations`;
 const ACCESS_TOKENS_KEY = `entrust.${CLIENT_ID}.accessTokens`;
 const ID_TOKENS_KEY = `entrust.${CLIENT_ID}.idToken`;
 
@@ -21,7 +21,7 @@ const getAppLocalStorage = async (page: Page) => {
     storage.origins.find(({ origin }) => origin === appOrigin) ??
     storage.origins.find(({ localStorage }) =>
       localStorage.some(
-        ({ name }) => name === ACCESS_TOKENS_KEY || name === ID_TOKENS_KEY || name === CLIENT_PARAMS_KEY,
+        ({ name }) => name === ACCESS_TOKENS_KEY || name === ID_TOKENS_KEY || name === PENDING_AUTHORIZATIONS_KEY,
       ),
     );
 
@@ -136,16 +136,16 @@ test("login with redirect", async ({ page }) => {
   const searchParams = url.searchParams;
   const localStorageEntries = await getAppLocalStorage(page);
 
-  // Client state in local storage should match the returning url state
-  const clientParams = localStorageEntries.find(({ name }) => {
-    return name === CLIENT_PARAMS_KEY;
+  // A pending authorization request in local storage should match the returning url state
+  const pendingAuthorizations = localStorageEntries.find(({ name }) => {
+    return name === PENDING_AUTHORIZATIONS_KEY;
   });
 
-  expect(clientParams).toBeTruthy();
+  expect(pendingAuthorizations).toBeTruthy();
 
   // Should always be true
-  if (clientParams) {
-    expect(JSON.parse(clientParams?.value).state).toEqual(searchParams.get("state"));
+  if (pendingAuthorizations) {
+    expect(JSON.parse(pendingAuthorizations?.value)).toHaveProperty([searchParams.get("state") as string]);
   }
 
   // Expect a call to the /token endpoint
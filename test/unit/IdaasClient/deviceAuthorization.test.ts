@@ -0,0 +1,211 @@
+import { afterAll, afterEach, describe, expect, jest, spyOn, test } from "bun:test";
+import { DiscoveryError, IdaasClient, OAuthError, TimeoutError, TransactionStateError } from "../../../src";
+import * as jwt from "../../../src/utils/jwt";
+import {
+  TEST_ACCESS_TOKEN,
+  TEST_AUDIENCE,
+  TEST_BASE_URI,
+  TEST_CLIENT_ID,
+  TEST_ISSUER_URI,
+  TEST_OIDC_CONFIG,
+  TEST_TOKEN_RESPONSE,
+} from "../constants";
+import { mockFetch } from "../helpers";
+
+const DEVICE_AUTHORIZATION_ENDPOINT = `${TEST_BASE_URI}/device_authorization`;
+const TOKEN_ENDPOINT = `${TEST_BASE_URI}/token`;
+const DEVICE_CODE = "GmRhmhcxhwAzkoEqiMEg_DnyEysNkuNhszIySk9eS";
+
+describe("IdaasClient.device", () => {
+  let oidcConfig: object = { ...TEST_OIDC_CONFIG, device_authorization_endpoint: DEVICE_AUTHORIZATION_ENDPOINT };
+  let tokenErrors: string[] = [];
+  // Runs while a token request is pending
+  let onTokenRequest: () => unknown = () => {};
+
+  const spyOnFetch = spyOn(window, "fetch").mockImplementation(
+    // @ts-expect-error not full type
+    async (url: string) => {
+      if (url === `${TEST_ISSUER_URI}/.well-known/openid-configuration`) {
+        return { ok: true, json: () => Promise.resolve(oidcConfig) };
+      }
+      if (url === DEVICE_AUTHORIZATION_ENDPOINT) {
+        return {
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              device_code: DEVICE_CODE,
+              user_code: "WDJB-MJHT",
+              verification_uri: `${TEST_BASE_URI}/device`,
+              verification_uri_complete: `${TEST_BASE_URI}/device?user_code=WDJB-MJHT`,
+              expires_in: 1800,
+              interval: 2,
+            }),
+        };
+      }
+      if (url === TOKEN_ENDPOINT) {
+        await onTokenRequest();
+      }
+      const error = url === TOKEN_ENDPOINT ? tokenErrors.shift() : undefined;
+      if (error) {
+        return { ok: false, status: 400, json: () => Promise.resolve({ error }) };
+      }
+      return await mockFetch(url);
+    },
+  );
+
+  // Run the polling delays right away, recording how long they were
+  const spyOnSetTimeout = spyOn(globalThis, "setTimeout").mockImplementation(((callback: () => void) => {
+    callback();
+    return 0;
+  }) as never);
+  const pollingDelays = () => spyOnSetTimeout.mock.calls.map((call) => call[1]);
+
+  const spyOnValidateIdToken = spyOn(jwt, "validateIdToken").mockResolvedValue({
+    idToken: "encoded-id-token",
+    decodedJwt: { sub: "test-sub" },
+  });
+
+  const client = new IdaasClient(
+    { issuerUrl: TEST_ISSUER_URI, clientId: TEST_CLIENT_ID, storageType: "localstorage" },
+    { audience: TEST_AUDIENCE },
+  );
+
+  const requestBody = (url: string) => {
+    const call = spyOnFetch.mock.calls.filter((call) => call[0] === url).pop();
+    return (call?.[1] as RequestInit | undefined)?.body as URLSearchParams | undefined;
+  };
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    jest.clearAllMocks();
+    client.device.cancel();
+    oidcConfig = { ...TEST_OIDC_CONFIG, device_authorization_endpoint: DEVICE_AUTHORIZATION_ENDPOINT };
+    tokenErrors = [];
+    onTokenRequest = () => {};
+  });
+
+  describe("requestAuthorization", () => {
+    test("returns the codes to display to the user", async () => {
+      const authorization = await client.device.requestAuthorization({ scope: "profile" });
+
+      expect(authorization).toEqual({
+        userCode: "WDJB-MJHT",
+        verificationUri: `${TEST_BASE_URI}/device`,
+        verificationUriComplete: `${TEST_BASE_URI}/device?user_code=WDJB-MJHT`,
+        expiresAt: expect.any(Number),
+      });
+
+      const body = requestBody(DEVICE_AUTHORIZATION_ENDPOINT);
+      expect(body?.get("client_id")).toBe(TEST_CLIENT_ID);
+      expect(body?.get("scope")).toBe("profile openid");
+      expect(body?.get("audience")).toBe(TEST_AUDIENCE);
+    });
+
+    test("throws when the OP does not support the device authorization grant", async () => {
+      oidcConfig = TEST_OIDC_CONFIG;
+      const otherClient = new IdaasClient({ issuerUrl: TEST_ISSUER_URI, clientId: TEST_CLIENT_ID });
+
+      const error = await otherClient.device.requestAuthorization().catch((e) => e);
+
+      expect(error).toBeInstanceOf(DiscoveryError);
+      expect(error.message).toContain("device_authorization_endpoint");
+    });
+  });
+
+  describe("poll", () => {
+    test("polls at the OP's interval until the user approves, then stores the tokens", async () => {
+      tokenErrors = ["authorization_pending", "slow_down"];
+      const onLogin = jest.fn();
+      const unsubscribe = client.on("login", onLogin);
+      await client.device.requestAuthorization();
+
+      const result = await client.device.poll();
+      unsubscribe();
+
+      expect(pollingDelays()).toEqual([2000, 2000, 7000]);
+      expect(requestBody(TOKEN_ENDPOINT)?.get("grant_type")).toBe("urn:ietf:params:oauth:grant-type:device_code");
+      expect(requestBody(TOKEN_ENDPOINT)?.get("device_code")).toBe(DEVICE_CODE);
+      expect(result).toEqual({
+        idTokenClaims: { sub: "test-sub" },
+        scope: TEST_TOKEN_RESPONSE.scope as string,
+        accessToken: TEST_ACCESS_TOKEN,
+      });
+      expect(spyOnValidateIdToken.mock.calls[0]?.[0].nonce).toBeUndefined();
+      expect(await client.getAccessToken()).toBe(TEST_ACCESS_TOKEN);
+      expect(onLogin).toHaveBeenCalledWith(expect.objectContaining({ flow: "device" }));
+    });
+
+    test("throws the OAuthError of a denied authorization and ends it", async () => {
+      tokenErrors = ["access_denied"];
+      await client.device.requestAuthorization();
+
+      const error = await client.device.poll().catch((e) => e);
+
+      expect(error).toBeInstanceOf(OAuthError);
+      expect(error.error).toBe("access_denied");
+      await expect(client.device.poll()).rejects.toBeInstanceOf(TransactionStateError);
+    });
+
+    test("throws a TimeoutError once the authorization has expired", async () => {
+      await client.device.requestAuthorization();
+
+      const now = Date.now();
+      const spyOnNow = spyOn(Date, "now").mockImplementation(() => now + 1800 * 1000);
+      await expect(client.device.poll()).rejects.toBeInstanceOf(TimeoutError);
+      spyOnNow.mockRestore();
+
+      expect(requestBody(TOKEN_ENDPOINT)).toBeUndefined();
+    });
+
+    test("stops polling when the authorization is cancelled", async () => {
+      tokenErrors = ["authorization_pending"];
+      await client.device.requestAuthorization();
+      spyOnSetTimeout.mockImplementationOnce(((callback: () => void) => {
+        client.device.cancel();
+        callback();
+        return 0;
+      }) as never);
+
+      await expect(client.device.poll()).rejects.toThrow("cancelled");
+      expect(requestBody(TOKEN_ENDPOINT)).toBeUndefined();
+    });
+
+    test("rejects a poll waiting for its interval as soon as the authorization is cancelled", async () => {
+      await client.device.requestAuthorization();
+      // The interval does not elapse
+      spyOnSetTimeout.mockImplementationOnce((() => 0) as never);
+
+      const poll = client.device.poll();
+      await Bun.sleep(10);
+      client.device.cancel();
+
+      await expect(poll).rejects.toBeInstanceOf(TransactionStateError);
+      expect(requestBody(TOKEN_ENDPOINT)).toBeUndefined();
+    });
+
+    test("does not store the tokens when the authorization is cancelled during a token request", async () => {
+      await client.device.requestAuthorization();
+      onTokenRequest = () => client.device.cancel();
+
+      await expect(client.device.poll()).rejects.toBeInstanceOf(TransactionStateError);
+      expect(localStorage.length).toBe(0);
+    });
+
+    test("keeps an authorization requested while the previous one was being denied", async () => {
+      tokenErrors = ["access_denied"];
+      await client.device.requestAuthorization();
+      onTokenRequest = async () => {
+        onTokenRequest = () => {};
+        await client.device.requestAuthorization();
+      };
+
+      await expect(client.device.poll()).rejects.toBeInstanceOf(OAuthError);
+
+      expect((await client.device.poll()).accessToken).toBe(TEST_ACCESS_TOKEN);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { afterAll, afterEach, describe, expect, jest, spyOn, test } from "bun:test";
+import { IdaasClient, NetworkError } from "../../../src";
+import type { AccessToken } from "../../../src/storage/StorageManager";
+import { TEST_ACCESS_TOKEN_OBJECT, TEST_AUDIENCE, TEST_CLIENT_ID, TEST_ISSUER_URI, TEST_SCOPE } from "../constants";
+import { mockFetch } from "../helpers";
+
+describe("IdaasClient events", () => {
+  // @ts-expect-error not full type
+  const spyOnFetch = spyOn(window, "fetch").mockImplementation(mockFetch);
+  const startLocation = window.location.href;
+
+  const client = new IdaasClient({
+    issuerUrl: TEST_ISSUER_URI,
+    clientId: TEST_CLIENT_ID,
+    storageType: "localstorage",
+  });
+
+  const storeToken = (token: AccessToken) => {
+    // @ts-expect-error private method call
+    client.storageManager.saveAccessToken(token);
+  };
+
+  const expiredToken = (): AccessToken => ({
+    ...TEST_ACCESS_TOKEN_OBJECT,
+    expiresAt: Math.floor(Date.now() / 1000) - 60,
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    jest.clearAllMocks();
+    window.location.href = startLocation;
+  });
+
+  test("emits tokenRefreshed with the details of the refreshed token", async () => {
+    const listener = jest.fn();
+    const unsubscribe = client.on("tokenRefreshed", listener);
+    storeToken(expiredToken());
+
+    await client.getAccessToken({ audience: TEST_AUDIENCE, scope: TEST_SCOPE });
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const [{ token }] = listener.mock.calls[0] ?? [];
+    expect(token).toMatchObject({ audience: TEST_AUDIENCE, scope: TEST_SCOPE, refreshable: true, dpopBound: false });
+    expect(token.expiresAt).toBeGreaterThan(Math.floor(Date.now() / 1000));
+    expect(token).not.toHaveProperty("accessToken");
+  });
+
+  test("emits refreshFailed when a refresh fails", async () => {
+    const listener = jest.fn();
+    const unsubscribe = client.on("refreshFailed", listener);
+    // @ts-expect-error not full type
+    spyOnFetch.mockImplementationOnce(() => Promise.reject(new Error("network down")));
+    storeToken(expiredToken());
+
+    await expect(client.getAccessToken({ audience: TEST_AUDIENCE, scope: TEST_SCOPE })).rejects.toBeInstanceOf(
+      NetworkError,
+    );
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0]?.[0]).toHaveProperty("error.cause.message", "network down");
+    expect(listener.mock.calls[0]?.[0]).toHaveProperty("token.audience", TEST_AUDIENCE);
+  });
+
+  test("emits refreshFailed when minting a token for a resource fails", async () => {
+    const listener = jest.fn();
+    const unsubscribe = client.on("refreshFailed", listener);
+    // @ts-expect-error not full type
+    spyOnFetch.mockImplementationOnce(() => Promise.reject(new Error("network down")));
+    storeToken({ ...TEST_ACCESS_TOKEN_OBJECT, grantedResources: ["https://api.example.com"] });
+
+    await expect(
+      client.getAccessToken({ audience: TEST_AUDIENCE, scope: TEST_SCOPE, resource: "https://api.example.com" }),
+    ).rejects.toBeInstanceOf(NetworkError);
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0]?.[0]).toHaveProperty("error.cause.message", "network down");
+    expect(listener.mock.calls[0]?.[0]).toHaveProperty("token.audience", TEST_AUDIENCE);
+  });
+
+  test("emits sessionExpired for expired tokens that cannot be refreshed", async () => {
+    const listener = jest.fn();
+    const unsubscribe = client.on("sessionExpired", listener);
+    storeToken({ ...expiredToken(), refreshToken: undefined });
+
+    await expect(client.getAccessToken({ audience: TEST_AUDIENCE, scope: TEST_SCOPE })).rejects.toThrow();
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0]?.[0]).toHaveProperty("token.refreshable", false);
+  });
+
+  test("emits stepUpRequired when stored tokens do not satisfy the requested acr", async () => {
+    const listener = jest.fn();
+    const unsubscribe = client.on("stepUpRequired", listener);
+    storeToken(TEST_ACCESS_TOKEN_OBJECT);
+
+    await expect(
+      client.getAccessToken({ audience: TEST_AUDIENCE, scope: TEST_SCOPE, acrValues: "phishing-resistant" }),
+    ).rejects.toThrow("Requested token not found");
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledWith({
+      tokenOptions: { audience: TEST_AUDIENCE, scope: TEST_SCOPE, acrValues: "phishing-resistant" },
+    });
+  });
+
+  test("emits stepUpRequired when parsing a step-up challenge", () => {
+    const listener = jest.fn();
+    const unsubscribe = client.on("stepUpRequired", listener);
+    const response = new Response(null, {
+      status: 401,
+      headers: { "WWW-Authenticate": 'Bearer error="insufficient_user_authentication", acr_values="mfa"' },
+    });
+
+    const tokenOptions = client.parseResponse(response);
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledWith({ tokenOptions });
+  });
+
+  test("emits logout after oidc.logout clears storage", async () => {
+    const listener = jest.fn(() => {
+      expect(localStorage.length).toBe(0);
+    });
+    const unsubscribe = client.on("logout", listener);
+    storeToken(TEST_ACCESS_TOKEN_OBJECT);
+
+    await client.oidc.logout();
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledWith({ flow: "oidc" });
+  });
+
+  test("does not call listeners removed with off", async () => {
+    const listener = jest.fn();
+    client.on("tokenRefreshed", listener);
+    client.off("tokenRefreshed", listener);
+    storeToken(expiredToken());
+
+    await client.getAccessToken({ audience: TEST_AUDIENCE, scope: TEST_SCOPE });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test("a throwing listener does not break the operation or other listeners", async () => {
+    const spyOnReportError = spyOn(globalThis, "reportError").mockImplementation(() => {});
+    const otherListener = jest.fn();
+    const unsubscribeThrowing = client.on("tokenRefreshed", () => {
+      throw new Error("listener failed");
+    });
+    const unsubscribeOther = client.on("tokenRefreshed", otherListener);
+    storeToken(expiredToken());
+
+    const accessToken = await client.getAccessToken({ audience: TEST_AUDIENCE, scope: TEST_SCOPE });
+    unsubscribeThrowing();
+    unsubscribeOther();
+
+    expect(accessToken).toBeString();
+    expect(otherListener).toHaveBeenCalledTimes(1);
+    expect(spyOnReportError).toHaveBeenCalledWith(new Error("listener failed"));
+  });
+});
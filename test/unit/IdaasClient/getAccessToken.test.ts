@@ -1,6 +1,6 @@
 import { afterAll, afterEach, describe, expect, jest, spyOn, test } from "bun:test";
 import { decodeProtectedHeader } from "jose";
-import { IdaasClient } from "../../../src";
+import { IdaasClient, TransactionStateError } from "../../../src";
 import type { AccessToken } from "../../../src/storage/StorageManager";
 import { generateDpopKeyMaterial } from "../../../src/utils/dpop";
 import { persistDpopKeyMaterial, retrievePersistedDpopKeyMaterial } from "../../../src/utils/dpopKeyStore";
@@ -20,7 +20,7 @@ import {
   TEST_SCOPE,
   TEST_TOKEN_RESPONSE,
 } from "../constants";
-import { blockIndexedDb, mockFetch } from "../helpers";
+import { blockIndexedDb, fakeIndexedDb, mockFetch } from "../helpers";
 
 describe("IdaasClient.getAccessToken", () => {
   afterAll(() => {
@@ -373,6 +373,7 @@ describe("IdaasClient.getAccessToken", () => {
       spyOnFetch.mockImplementation(async (url: string) => {
         if (url === `${TEST_BASE_URI}/token`) {
           return Promise.resolve({
+            ok: true,
             json: () => {
               restoreIndexedDb = blockIndexedDb();
               return Promise.resolve({ ...TEST_TOKEN_RESPONSE, token_type: "Bearer" });
@@ -411,6 +412,114 @@ describe("IdaasClient.getAccessToken", () => {
     });
   });
 
+  describe("concurrent refresh", () => {
+    const setLocks = (locks: unknown) => {
+      Object.defineProperty(navigator, "locks", { configurable: true, value: locks });
+    };
+
+    afterEach(() => {
+      Reflect.deleteProperty(navigator, "locks");
+    });
+
+    test("concurrent calls for the same expired token share a single refresh request", async () => {
+      storeToken({ ...TEST_ACCESS_TOKEN_OBJECT, expiresAt: 0 });
+
+      const tokens = await Promise.all([
+        NO_DEFAULT_IDAAS_CLIENT.getAccessToken({ audience: TEST_AUDIENCE }),
+        NO_DEFAULT_IDAAS_CLIENT.getAccessToken({ audience: TEST_AUDIENCE }),
+        NO_DEFAULT_IDAAS_CLIENT.getAccessToken({ audience: TEST_AUDIENCE }),
+      ]);
+
+      const tokenEndpointCalls = spyOnFetch.mock.calls.filter((call) => call[0] === `${TEST_BASE_URI}/token`);
+      expect(tokenEndpointCalls.length).toBe(1);
+      expect(tokens).toStrictEqual([TEST_ACCESS_TOKEN, TEST_ACCESS_TOKEN, TEST_ACCESS_TOKEN]);
+      expect(JSON.parse(localStorage.getItem(TEST_ACCESS_PAIR.key) as string).length).toBe(1);
+    });
+
+    test("refreshes while holding a Web Lock scoped to the client", async () => {
+      const requestedLocks: string[] = [];
+      setLocks({
+        request: async (name: string, _options: LockOptions, callback: () => Promise<unknown>) => {
+          requestedLocks.push(name);
+          return await callback();
+        },
+      });
+      storeToken({ ...TEST_ACCESS_TOKEN_OBJECT, expiresAt: 0 });
+
+      await NO_DEFAULT_IDAAS_CLIENT.getAccessToken({ audience: TEST_AUDIENCE });
+
+      expect(requestedLocks).toStrictEqual([`idaas-auth-js.${TEST_CLIENT_ID}.refresh`]);
+    });
+
+    test("uses the token refreshed by another tab instead of redeeming the refresh token again", async () => {
+      const expiredToken = { ...TEST_ACCESS_TOKEN_OBJECT, expiresAt: 0 };
+      const refreshedByOtherTab = {
+        ...TEST_ACCESS_TOKEN_OBJECT,
+        accessToken: "refreshedByOtherTab",
+        refreshToken: "rotatedRefreshToken",
+      };
+      setLocks({
+        request: async (_name: string, _options: LockOptions, callback: () => Promise<unknown>) => {
+          // The other tab held the lock first and replaced the stored token
+          localStorage.setItem(TEST_ACCESS_PAIR.key, JSON.stringify([refreshedByOtherTab]));
+          return await callback();
+        },
+      });
+      storeToken(expiredToken);
+
+      const token = await NO_DEFAULT_IDAAS_CLIENT.getAccessToken({ audience: TEST_AUDIENCE });
+
+      expect(token).toBe("refreshedByOtherTab");
+      expect(spyOnFetch.mock.calls.some((call) => call[0] === `${TEST_BASE_URI}/token`)).toBeFalse();
+    });
+
+    test("tabs sharing indexeddb storage redeem a refresh token once", async () => {
+      const { restore } = fakeIndexedDb();
+      const createClient = () =>
+        new IdaasClient({ issuerUrl: TEST_ISSUER_URI, clientId: TEST_CLIENT_ID, storageType: "indexeddb" });
+
+      try {
+        const tab = createClient();
+        // @ts-expect-error private method call
+        tab.storageManager.saveAccessToken({ ...TEST_ACCESS_TOKEN_OBJECT, accessToken: "expiredToken", expiresAt: 0 });
+        // @ts-expect-error private method call
+        await tab.storageManager.flush();
+        const otherTab = createClient();
+        // @ts-expect-error private method call
+        await otherTab.storageManager.ready();
+
+        const tokens = await Promise.all([
+          tab.getAccessToken({ audience: TEST_AUDIENCE }),
+          otherTab.getAccessToken({ audience: TEST_AUDIENCE }),
+        ]);
+
+        const tokenEndpointCalls = spyOnFetch.mock.calls.filter((call) => call[0] === `${TEST_BASE_URI}/token`);
+        expect(tokenEndpointCalls.length).toBe(1);
+        expect(tokens).toStrictEqual([TEST_ACCESS_TOKEN, TEST_ACCESS_TOKEN]);
+
+        tab.dispose();
+        otherTab.dispose();
+      } finally {
+        restore();
+      }
+    });
+
+    test("throws when the refresh token was redeemed elsewhere and no refreshed token is stored", async () => {
+      setLocks({
+        request: async (_name: string, _options: LockOptions, callback: () => Promise<unknown>) => {
+          localStorage.setItem(TEST_ACCESS_PAIR.key, JSON.stringify([]));
+          return await callback();
+        },
+      });
+      storeToken({ ...TEST_ACCESS_TOKEN_OBJECT, expiresAt: 0 });
+
+      const error = await NO_DEFAULT_IDAAS_CLIENT.getAccessToken({ audience: TEST_AUDIENCE }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(TransactionStateError);
+      expect(error.message).toBe("Refresh token was already redeemed and no refreshed token was stored");
+    });
+  });
+
   test("uses IdaasClient's defaultAudience if audience not provided in params", async () => {
     storeToken({ ...TEST_ACCESS_TOKEN_OBJECT, audience: TEST_DIFFERENT_AUDIENCE });
     const token = await SET_DEFAULTS_IDAAS_CLIENT.getAccessToken({ scope: TEST_SCOPE });
@@ -1,5 +1,6 @@
 import { afterAll, afterEach, describe, expect, jest, spyOn, test } from "bun:test";
 import { decodeProtectedHeader } from "jose";
+import { OAuthError } from "../../../src";
 import { generateDpopKeyMaterial } from "../../../src/utils/dpop";
 import { persistDpopKeyMaterial } from "../../../src/utils/dpopKeyStore";
 import {
@@ -51,6 +52,20 @@ describe("IdaasClient.getUserInfo", () => {
     expect(result).toBeNull();
   });
 
+  test("throws an OAuthError when the OP rejects the access token", async () => {
+    localStorage.setItem(TEST_ID_PAIR.key, JSON.stringify(TEST_ID_PAIR.data));
+    spyOnFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 401,
+      json: () => Promise.resolve({ error: "invalid_token" }),
+    } as Response);
+
+    const error = await NO_DEFAULT_IDAAS_CLIENT.getUserInfo(TEST_ACCESS_TOKEN).catch((e) => e);
+
+    expect(error).toBeInstanceOf(OAuthError);
+    expect(error).toMatchObject({ error: "invalid_token", status: 401 });
+  });
+
   test("returns user info when sub claim matches stored id token sub claim", async () => {
     // Store ID token with matching sub claim
     localStorage.setItem(TEST_ID_PAIR.key, JSON.stringify(TEST_ID_PAIR.data));
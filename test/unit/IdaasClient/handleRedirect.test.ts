@@ -14,10 +14,9 @@ import {
   TEST_ID_TOKEN_OBJECT,
   TEST_SCOPE,
   TEST_STATE,
-  TEST_TOKEN_PAIR,
   TEST_TOKEN_PARAMS,
 } from "../constants";
-import { mockFetch, storeData } from "../helpers";
+import { getStoredPendingAuthorizations, mockFetch, storeData, storePendingAuthorization } from "../helpers";
 
 describe("IdaasClient.handleRedirect", () => {
   // @ts-expect-error not full type
@@ -72,28 +71,89 @@ describe("IdaasClient.handleRedirect", () => {
     expect(result).toBeNull();
   });
 
+  describe("callback URL", () => {
+    test("handles an explicit callback URL without changing the current URL", async () => {
+      storeData({ pendingAuthorization: true });
+      const spyOnReplaceState = spyOn(window.history, "replaceState");
+
+      const result = await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect(
+        `com.example.app://callback?code=${TEST_CODE}&state=${TEST_STATE}`,
+      );
+
+      expect(result?.accessToken).toBe(TEST_ACCESS_TOKEN);
+      expect(spyOnReplaceState).not.toHaveBeenCalled();
+      expect(window.location.href).toBe(startLocation);
+    });
+
+    test("handles a response in the fragment", async () => {
+      storeData({ pendingAuthorization: true });
+      window.location.href = `${TEST_BASE_URI}/#code=${TEST_CODE}&state=${TEST_STATE}`;
+
+      const result = await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect();
+
+      expect(result?.accessToken).toBe(TEST_ACCESS_TOKEN);
+      expect(window.location.href).toBe(`${TEST_BASE_URI}/`);
+    });
+
+    test("removes only the authorization response from the current URL", async () => {
+      storeData({ pendingAuthorization: true });
+      window.location.href = `${TEST_BASE_URI}/callback?lang=fr&code=${TEST_CODE}&state=${TEST_STATE}#/orders`;
+
+      await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect();
+
+      expect(window.location.href).toBe(`${TEST_BASE_URI}/callback?lang=fr#/orders`);
+    });
+
+    test("keeps the current URL when cleanUrl is false", async () => {
+      storeData({ pendingAuthorization: true });
+      window.location.href = loginSuccessUrl;
+      const callbackUrl = window.location.href;
+
+      await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect(undefined, { cleanUrl: false });
+
+      expect(window.location.href).toBe(callbackUrl);
+    });
+  });
+
   describe("successful authorization flow", () => {
     beforeEach(() => {
       window.location.href = loginSuccessUrl;
     });
 
-    test("throws error if client params are not stored", () => {
+    test("throws error if no authorization request is pending", () => {
       expect(async () => {
         await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect();
-      }).toThrowError("client");
+      }).toThrowError("client state");
     });
 
     test("throws error if state does not match stored state", () => {
-      storeData({ clientParams: true });
+      storeData({ pendingAuthorization: true });
       window.location.href = `${TEST_BASE_URI}?code=${TEST_CODE}&state=different_state`;
 
       expect(async () => {
         await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect();
-      }).toThrowError();
+      }).toThrowError("client state");
+    });
+
+    test("throws error if the pending authorization request has expired", async () => {
+      storePendingAuthorization({ expiresAt: Math.floor(Date.now() / 1000) - 1 });
+
+      await expect(NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect()).rejects.toThrowError("expired");
+    });
+
+    test("completes the authorization request matching the state when several are pending", async () => {
+      storePendingAuthorization({ clientParams: { state: "other_state" }, tokenParams: { scope: "other" } });
+      storePendingAuthorization({});
+
+      await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect();
+
+      // @ts-expect-error accessing private var
+      expect(NO_DEFAULT_IDAAS_CLIENT.storageManager.getAccessTokens()[0]?.scope).toBe(TEST_SCOPE);
+      expect(getStoredPendingAuthorizations().map(({ clientParams }) => clientParams.state)).toEqual(["other_state"]);
     });
 
     test("makes a fetch request to the token endpoint", async () => {
-      storeData({ clientParams: true, tokenParams: true });
+      storeData({ pendingAuthorization: true });
       window.location.href = loginSuccessUrl;
 
       await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect();
@@ -104,35 +164,62 @@ describe("IdaasClient.handleRedirect", () => {
       expect(requestToTokenEndpoint).toBeTruthy();
     });
 
-    test("throws error if no token params stored", () => {
-      storeData({ clientParams: true });
+    test("returns the new tokens' details", async () => {
+      storeData({ pendingAuthorization: true });
       window.location.href = loginSuccessUrl;
 
-      expect(async () => {
-        await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect();
-      }).toThrowError();
+      const result = await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect();
+
+      expect(result).toEqual({
+        appState: undefined,
+        idTokenClaims: TEST_ID_TOKEN_OBJECT.decoded,
+        scope: TEST_SCOPE,
+        accessToken: TEST_ACCESS_TOKEN,
+      });
+    });
+
+    test("returns the app state passed to login", async () => {
+      const appState = { returnTo: "/orders/42" };
+      storePendingAuthorization({ clientParams: { appState } });
+      window.location.href = loginSuccessUrl;
+
+      const result = await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect<typeof appState>();
+
+      expect(result?.appState).toEqual(appState);
     });
 
-    test("removes tokenParams from storage after processing", async () => {
-      storeData({ clientParams: true, tokenParams: true });
+    test("sends the claims request of the login with the token request", async () => {
+      const claims = JSON.stringify({ id_token: { email: { essential: true } } });
+      storePendingAuthorization({ tokenParams: { claims } });
       window.location.href = loginSuccessUrl;
 
       await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect();
 
-      expect(localStorage.getItem(TEST_TOKEN_PAIR.key)).toBeNull();
+      const tokenRequest = spyOnFetch.mock.calls.find((call) => call[0] === `${TEST_BASE_URI}/token`);
+      const body = (tokenRequest?.[1] as RequestInit | undefined)?.body as URLSearchParams | undefined;
+      expect(body?.get("claims")).toBe(claims);
     });
 
-    test("removes tokenParams from storage when redirect handling fails", async () => {
-      storeData({ clientParams: true, tokenParams: true });
-      window.location.href = `${TEST_BASE_URI}?code=${TEST_CODE}&state=different_state`;
+    test("removes the pending authorization request from storage after processing", async () => {
+      storeData({ pendingAuthorization: true });
+      window.location.href = loginSuccessUrl;
+
+      await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect();
+
+      expect(getStoredPendingAuthorizations()).toEqual([]);
+    });
+
+    test("removes the pending authorization request from storage when redirect handling fails", async () => {
+      storeData({ pendingAuthorization: true });
+      window.location.href = `${TEST_BASE_URI}?error=access_denied&state=${TEST_STATE}`;
 
       await expect(NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect()).rejects.toThrowError();
 
-      expect(localStorage.getItem(TEST_TOKEN_PAIR.key)).toBeNull();
+      expect(getStoredPendingAuthorizations()).toEqual([]);
     });
 
     test("stores the ID token", async () => {
-      storeData({ clientParams: true, tokenParams: true });
+      storeData({ pendingAuthorization: true });
       window.location.href = loginSuccessUrl;
 
       await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect();
@@ -141,7 +228,7 @@ describe("IdaasClient.handleRedirect", () => {
     });
 
     test("stores the access token", async () => {
-      storeData({ clientParams: true, tokenParams: true });
+      storeData({ pendingAuthorization: true });
       window.location.href = loginSuccessUrl;
 
       await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect();
@@ -150,7 +237,7 @@ describe("IdaasClient.handleRedirect", () => {
     });
 
     test("stores access token with correct scope, audience, and acr", async () => {
-      storeData({ clientParams: true, tokenParams: true });
+      storeData({ pendingAuthorization: true });
       window.location.href = loginSuccessUrl;
 
       await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect();
@@ -164,7 +251,7 @@ describe("IdaasClient.handleRedirect", () => {
     });
 
     test("stores ID token with decoded claims", async () => {
-      storeData({ clientParams: true, tokenParams: true });
+      storeData({ pendingAuthorization: true });
       window.location.href = loginSuccessUrl;
 
       await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect();
@@ -178,11 +265,7 @@ describe("IdaasClient.handleRedirect", () => {
 
     test("passes requested acr values to id token validation", async () => {
       const requestedAcrValues = "1 2";
-      localStorage.setItem(
-        TEST_TOKEN_PAIR.key,
-        JSON.stringify({ ...TEST_TOKEN_PARAMS, acrValues: requestedAcrValues, requireIdToken: true }),
-      );
-      storeData({ clientParams: true });
+      storePendingAuthorization({ tokenParams: { acrValues: requestedAcrValues, requireIdToken: true } });
       window.location.href = loginSuccessUrl;
 
       await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect();
@@ -197,17 +280,15 @@ describe("IdaasClient.handleRedirect", () => {
         token_type: "Bearer",
       };
 
-      localStorage.setItem(
-        TEST_TOKEN_PAIR.key,
-        JSON.stringify({ ...TEST_TOKEN_PARAMS, scope: "profile email", requireIdToken: false }),
-      );
-      storeData({ clientParams: true, idToken: true });
+      storePendingAuthorization({ tokenParams: { scope: "profile email", requireIdToken: false } });
+      storeData({ idToken: true });
       window.location.href = loginSuccessUrl;
 
       // @ts-expect-error not full type
       spyOn(window, "fetch").mockImplementation((url: string) => {
         if (url === `${TEST_BASE_URI}/token`) {
           return Promise.resolve({
+            ok: true,
             json: () => Promise.resolve(tokenResponseWithoutIdToken),
           } as Response);
         }
@@ -226,16 +307,9 @@ describe("IdaasClient.handleRedirect", () => {
       const keyMaterial = await generateDpopKeyMaterial("ES256");
       const dpopKeyRef = await persistDpopKeyMaterial({ alg: "ES256", ...keyMaterial });
 
-      localStorage.setItem(
-        TEST_TOKEN_PAIR.key,
-        JSON.stringify({
-          ...TEST_TOKEN_PARAMS,
-          dpop: { alg: "ES256", includeJkt: true },
-          dpopKeyRef,
-          requireIdToken: true,
-        }),
-      );
-      storeData({ clientParams: true });
+      storePendingAuthorization({
+        tokenParams: { dpop: { alg: "ES256", includeJkt: true }, dpopKeyRef, requireIdToken: true },
+      });
       window.location.href = loginSuccessUrl;
 
       await NO_DEFAULT_IDAAS_CLIENT.oidc.handleRedirect();
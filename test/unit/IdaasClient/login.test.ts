@@ -10,15 +10,13 @@ import {
   TEST_ACR_CLAIM,
   TEST_BASE_URI,
   TEST_CLIENT_ID,
-  TEST_CLIENT_PAIR,
   TEST_DIFFERENT_SCOPE,
   TEST_ISSUER_URI,
   TEST_OIDC_CONFIG,
   TEST_REDIRECT_URI,
   TEST_SCOPE,
-  TEST_TOKEN_PAIR,
 } from "../constants";
-import { getUrlParams, mockFetch } from "../helpers";
+import { getStoredPendingAuthorizations, getUrlParams, mockFetch, storePendingAuthorization } from "../helpers";
 
 async function getGeneratedAuthUrlResult<T>(spy: { mock: { results: { value: unknown }[] } }): Promise<T> {
   const result = spy.mock.results[0];
@@ -91,27 +89,55 @@ describe("IdaasClient.oidc.login", () => {
   });
 
   describe("login with redirect", () => {
-    test("client params are saved", async () => {
+    test("the authorization request is saved under its state", async () => {
       await NO_DEFAULT_IDAAS_CLIENT.oidc.login();
 
-      expect(localStorage.getItem(TEST_CLIENT_PAIR.key)).toBeTruthy();
+      const { state } = await getGeneratedAuthUrlResult<{ state: string }>(spyOnGenerateAuthorizationUrl);
+      const [pendingAuthorization] = getStoredPendingAuthorizations();
+      expect(pendingAuthorization?.clientParams.state).toBe(state);
+      expect(pendingAuthorization?.tokenParams.scope).toBeTruthy();
+      expect(pendingAuthorization?.expiresAt).toBeGreaterThan(Math.floor(Date.now() / 1000));
     });
 
-    test("token params are saved", async () => {
+    test("keeps the authorization requests of other logins in progress", async () => {
+      await NO_DEFAULT_IDAAS_CLIENT.oidc.login({}, { audience: "https://api.example.com/a" });
+      await NO_DEFAULT_IDAAS_CLIENT.oidc.login({}, { audience: "https://api.example.com/b" });
+
+      expect(getStoredPendingAuthorizations().map(({ tokenParams }) => tokenParams.audience)).toEqual([
+        "https://api.example.com/a",
+        "https://api.example.com/b",
+      ]);
+    });
+
+    test("removes expired authorization requests", async () => {
+      storePendingAuthorization({ expiresAt: Math.floor(Date.now() / 1000) - 1 });
+
       await NO_DEFAULT_IDAAS_CLIENT.oidc.login();
 
-      expect(localStorage.getItem(TEST_TOKEN_PAIR.key)).toBeTruthy();
+      expect(getStoredPendingAuthorizations()).toHaveLength(1);
+      expect(getStoredPendingAuthorizations()[0]?.expiresAt).toBeGreaterThan(Math.floor(Date.now() / 1000));
+    });
+
+    test("client params include the app state", async () => {
+      await NO_DEFAULT_IDAAS_CLIENT.oidc.login({ appState: { returnTo: "/orders/42" } });
+
+      const [pendingAuthorization] = getStoredPendingAuthorizations();
+      expect(pendingAuthorization?.clientParams.appState).toEqual({ returnTo: "/orders/42" });
+    });
+
+    test("auth url requests the response in the fragment when responseMode is fragment", async () => {
+      await NO_DEFAULT_IDAAS_CLIENT.oidc.login({ responseMode: "fragment" });
+
+      const { url: authUrl } = await getGeneratedAuthUrlResult<{ url: string }>(spyOnGenerateAuthorizationUrl);
+      expect(getUrlParams(authUrl).response_mode).toBe("fragment");
     });
 
     test("token params include acrValues when acrValues are passed", async () => {
       const acrValues = `${TEST_ACR_CLAIM} different`;
       await NO_DEFAULT_IDAAS_CLIENT.oidc.login({}, { acrValues });
 
-      const tokenParamsRaw = localStorage.getItem(TEST_TOKEN_PAIR.key);
-      expect(tokenParamsRaw).toBeTruthy();
-
-      const tokenParams = JSON.parse(tokenParamsRaw as string) as { acrValues?: string };
-      expect(tokenParams.acrValues).toBe(acrValues);
+      const [pendingAuthorization] = getStoredPendingAuthorizations();
+      expect(pendingAuthorization?.tokenParams.acrValues).toBe(acrValues);
     });
 
     test("generates authorization URL with all required parameters", async () => {
@@ -255,54 +281,49 @@ describe("IdaasClient.oidc.login", () => {
     test("token params persist DPoP key reference when includeJkt is enabled", async () => {
       await NO_DEFAULT_IDAAS_CLIENT.oidc.login({}, { dpop: { includeJkt: true, alg: "ES256" } });
 
-      const tokenParamsRaw = localStorage.getItem(TEST_TOKEN_PAIR.key);
-      expect(tokenParamsRaw).toBeTruthy();
-
-      const tokenParams = JSON.parse(tokenParamsRaw as string) as {
-        dpopKeyRef?: string;
-        dpopKeyMaterial?: unknown;
-      };
-
-      expect(tokenParams.dpopKeyRef).toBeTruthy();
-      expect(tokenParams.dpopKeyMaterial).toBeUndefined();
-      expect((tokenParamsRaw as string).includes("privateJwk")).toBeFalse();
+      const [pendingAuthorization] = getStoredPendingAuthorizations();
+      expect(pendingAuthorization?.tokenParams.dpopKeyRef).toBeTruthy();
+      expect(pendingAuthorization?.tokenParams).not.toHaveProperty("dpopKeyMaterial");
+      expect(JSON.stringify(pendingAuthorization).includes("privateJwk")).toBeFalse();
     });
 
-    test("cleans abandoned redirect DPoP key before saving new token params", async () => {
+    test("cleans the DPoP key of an expired redirect before saving new token params", async () => {
       const keyMaterial = await generateDpopKeyMaterial("ES256");
       const abandonedDpopKeyRef = await persistDpopKeyMaterial({ alg: "ES256", ...keyMaterial });
-      localStorage.setItem(
-        TEST_TOKEN_PAIR.key,
-        JSON.stringify({
-          ...TEST_TOKEN_PAIR.data,
-          dpop: { alg: "ES256", includeJkt: true },
-          dpopKeyRef: abandonedDpopKeyRef,
-        }),
-      );
+      storePendingAuthorization({
+        tokenParams: { dpop: { alg: "ES256", includeJkt: true }, dpopKeyRef: abandonedDpopKeyRef },
+        expiresAt: Math.floor(Date.now() / 1000) - 1,
+      });
 
       await NO_DEFAULT_IDAAS_CLIENT.oidc.login({}, { dpop: { includeJkt: true, alg: "ES256" } });
 
-      const tokenParamsRaw = localStorage.getItem(TEST_TOKEN_PAIR.key);
-      expect(tokenParamsRaw).toBeTruthy();
-
-      const tokenParams = JSON.parse(tokenParamsRaw as string) as { dpopKeyRef?: string };
-      expect(tokenParams.dpopKeyRef).toBeTruthy();
-      expect(tokenParams.dpopKeyRef).not.toBe(abandonedDpopKeyRef);
+      const [pendingAuthorization] = getStoredPendingAuthorizations();
+      const dpopKeyRef = pendingAuthorization?.tokenParams.dpopKeyRef;
+      expect(dpopKeyRef).toBeTruthy();
+      expect(dpopKeyRef).not.toBe(abandonedDpopKeyRef);
       expect(await retrievePersistedDpopKeyMaterial(abandonedDpopKeyRef)).toBeUndefined();
-      expect(await retrievePersistedDpopKeyMaterial(tokenParams.dpopKeyRef as string)).toBeDefined();
+      expect(await retrievePersistedDpopKeyMaterial(dpopKeyRef as string)).toBeDefined();
     });
 
-    test("token params do not persist DPoP key reference when includeJkt is disabled", async () => {
-      await NO_DEFAULT_IDAAS_CLIENT.oidc.login({}, { dpop: { includeJkt: false, alg: "ES256" } });
+    test("keeps the DPoP key of another redirect in progress", async () => {
+      const keyMaterial = await generateDpopKeyMaterial("ES256");
+      const pendingDpopKeyRef = await persistDpopKeyMaterial({ alg: "ES256", ...keyMaterial });
+      storePendingAuthorization({
+        tokenParams: { dpop: { alg: "ES256", includeJkt: true }, dpopKeyRef: pendingDpopKeyRef },
+      });
 
-      const tokenParamsRaw = localStorage.getItem(TEST_TOKEN_PAIR.key);
-      expect(tokenParamsRaw).toBeTruthy();
+      await NO_DEFAULT_IDAAS_CLIENT.oidc.login({}, { dpop: { includeJkt: true, alg: "ES256" } });
 
-      const tokenParams = JSON.parse(tokenParamsRaw as string) as {
-        dpopKeyRef?: unknown;
-      };
+      expect(getStoredPendingAuthorizations()).toHaveLength(2);
+      expect(await retrievePersistedDpopKeyMaterial(pendingDpopKeyRef)).toBeDefined();
+    });
+
+    test("token params do not persist DPoP key reference when includeJkt is disabled", async () => {
+      await NO_DEFAULT_IDAAS_CLIENT.oidc.login({}, { dpop: { includeJkt: false, alg: "ES256" } });
 
-      expect(tokenParams.dpopKeyRef).toBeUndefined();
+      const [pendingAuthorization] = getStoredPendingAuthorizations();
+      expect(pendingAuthorization).toBeDefined();
+      expect(pendingAuthorization?.tokenParams.dpopKeyRef).toBeUndefined();
     });
 
     test("auth url does not contain claims request if acrValues is not passed", async () => {
@@ -323,9 +344,43 @@ describe("IdaasClient.oidc.login", () => {
       expect(acr_values).toBeUndefined();
     });
 
+    test("auth url contains the authorization request params passed to login", async () => {
+      await NO_DEFAULT_IDAAS_CLIENT.oidc.login({
+        prompt: "login",
+        loginHint: "user@example.com",
+        uiLocales: "fr",
+        extraParams: { organization: "acme" },
+      });
+
+      const { url: authUrl } = await getGeneratedAuthUrlResult<{ url: string }>(spyOnGenerateAuthorizationUrl);
+      const { prompt, login_hint, ui_locales, organization } = getUrlParams(authUrl);
+
+      expect(prompt).toBe("login");
+      expect(login_hint).toBe("user@example.com");
+      expect(ui_locales).toBe("fr");
+      expect(organization).toBe("acme");
+    });
+
+    test("token params include the claims request for the token request", async () => {
+      const claims = { id_token: { email: { essential: true } } };
+      await NO_DEFAULT_IDAAS_CLIENT.oidc.login({ claims });
+
+      const [pendingAuthorization] = getStoredPendingAuthorizations();
+      expect(JSON.parse(pendingAuthorization?.tokenParams.claims as string)).toEqual(claims);
+    });
+
+    test("throws before redirecting when extraParams override a reserved param", async () => {
+      const startUrl = window.location.href;
+
+      await expect(NO_DEFAULT_IDAAS_CLIENT.oidc.login({ extraParams: { state: "fixed" } })).rejects.toThrow(
+        "cannot be set through extraParams",
+      );
+      expect(window.location.href).toBe(startUrl);
+    });
+
     test("redirects to the url provided by generateAuthorizationUrl", async () => {
       // @ts-expect-error same as all other .mockResolvedValue issues
-      spyOnGenerateAuthorizationUrl.mockResolvedValueOnce({ url: TEST_REDIRECT_URI });
+      spyOnGenerateAuthorizationUrl.mockResolvedValueOnce({ url: TEST_REDIRECT_URI, usedResource: [] });
 
       await NO_DEFAULT_IDAAS_CLIENT.oidc.login();
       const newLocation = formatUrl(window.location.href);
@@ -1,16 +1,19 @@
 import { afterAll, afterEach, describe, expect, jest, spyOn, test } from "bun:test";
+import { TransactionStateError } from "../../../src";
+import * as browser from "../../../src/utils/browser";
 import {
   NO_DEFAULT_IDAAS_CLIENT,
   TEST_ACCESS_PAIR,
   TEST_BASE_URI,
   TEST_CLIENT_ID,
-  TEST_TOKEN_PAIR,
+  TEST_ID_TOKEN_OBJECT,
+  TEST_REFRESH_TOKEN,
 } from "../constants";
-import { blockIndexedDb, getUrlParams, mockFetch, storeData } from "../helpers";
+import { blockIndexedDb, getUrlParams, mockFetch, storeData, storePendingAuthorization } from "../helpers";
 
 describe("IdaasClient.oidc.logout", () => {
   // @ts-expect-error not full type
-  const _spyOnFetch = spyOn(window, "fetch").mockImplementation(mockFetch);
+  const spyOnFetch = spyOn(window, "fetch").mockImplementation(mockFetch);
   const startLocation = window.location.href;
 
   afterAll(() => {
@@ -23,8 +26,13 @@ describe("IdaasClient.oidc.logout", () => {
     window.location.href = startLocation;
   });
 
+  const revocationRequests = () =>
+    spyOnFetch.mock.calls
+      .filter((call) => call[0] === `${TEST_BASE_URI}/revoke`)
+      .map((call) => (call[1] as RequestInit).body as URLSearchParams);
+
   test("clears stored data and redirects even without ID token", async () => {
-    storeData({ tokenParams: true, clientParams: true, accessToken: true });
+    storeData({ pendingAuthorization: true, accessToken: true });
 
     await NO_DEFAULT_IDAAS_CLIENT.oidc.logout();
 
@@ -35,14 +43,14 @@ describe("IdaasClient.oidc.logout", () => {
   });
 
   test("removes all stored data, if ID token stored", async () => {
-    storeData({ idToken: true, tokenParams: true, clientParams: true, accessToken: true });
+    storeData({ idToken: true, pendingAuthorization: true, accessToken: true });
     await NO_DEFAULT_IDAAS_CLIENT.oidc.logout();
 
     expect(localStorage.length).toBe(0);
   });
 
   test("generates valid logout url with no redirectUri", async () => {
-    storeData({ idToken: true, tokenParams: true, clientParams: true, accessToken: true });
+    storeData({ idToken: true, pendingAuthorization: true, accessToken: true });
     await NO_DEFAULT_IDAAS_CLIENT.oidc.logout();
 
     const { client_id, post_logout_redirect_uri } = getUrlParams(window.location.href);
@@ -52,7 +60,7 @@ describe("IdaasClient.oidc.logout", () => {
   });
 
   test("generates valid logout url with redirectUri", async () => {
-    storeData({ idToken: true, tokenParams: true, clientParams: true, accessToken: true });
+    storeData({ idToken: true, pendingAuthorization: true, accessToken: true });
     const redirectUri = TEST_BASE_URI;
 
     await NO_DEFAULT_IDAAS_CLIENT.oidc.logout({ redirectUri });
@@ -63,15 +71,12 @@ describe("IdaasClient.oidc.logout", () => {
   });
 
   test("clears stored data and redirects when DPoP cleanup fails", async () => {
-    storeData({ idToken: true, tokenParams: true, clientParams: true, accessToken: true });
+    storeData({ idToken: true, pendingAuthorization: true, accessToken: true });
     localStorage.setItem(
       TEST_ACCESS_PAIR.key,
       JSON.stringify([{ ...TEST_ACCESS_PAIR.data[0], dpopKeyRef: "shared-dpop-key-ref" }]),
     );
-    localStorage.setItem(
-      TEST_TOKEN_PAIR.key,
-      JSON.stringify({ ...TEST_TOKEN_PAIR.data, dpopKeyRef: "shared-dpop-key-ref" }),
-    );
+    storePendingAuthorization({ tokenParams: { dpopKeyRef: "shared-dpop-key-ref" } });
 
     const restoreIndexedDb = blockIndexedDb();
 
@@ -86,15 +91,12 @@ describe("IdaasClient.oidc.logout", () => {
   });
 
   test("RBA logout clears stored data when DPoP cleanup fails", async () => {
-    storeData({ idToken: true, tokenParams: true, clientParams: true, accessToken: true });
+    storeData({ idToken: true, pendingAuthorization: true, accessToken: true });
     localStorage.setItem(
       TEST_ACCESS_PAIR.key,
       JSON.stringify([{ ...TEST_ACCESS_PAIR.data[0], dpopKeyRef: "shared-dpop-key-ref" }]),
     );
-    localStorage.setItem(
-      TEST_TOKEN_PAIR.key,
-      JSON.stringify({ ...TEST_TOKEN_PAIR.data, dpopKeyRef: "shared-dpop-key-ref" }),
-    );
+    storePendingAuthorization({ tokenParams: { dpopKeyRef: "shared-dpop-key-ref" } });
 
     const restoreIndexedDb = blockIndexedDb();
 
@@ -106,4 +108,186 @@ describe("IdaasClient.oidc.logout", () => {
       restoreIndexedDb();
     }
   });
+
+  test("revokes stored refresh tokens before clearing storage", async () => {
+    storeData({ idToken: true, accessToken: true });
+
+    await NO_DEFAULT_IDAAS_CLIENT.oidc.logout();
+
+    const requests = revocationRequests();
+    expect(requests.length).toBe(1);
+    expect(requests[0]?.get("token")).toBe(TEST_REFRESH_TOKEN);
+    expect(requests[0]?.get("token_type_hint")).toBe("refresh_token");
+    expect(requests[0]?.get("client_id")).toBe(TEST_CLIENT_ID);
+    expect(localStorage.length).toBe(0);
+  });
+
+  test("revokes access tokens when revokeAccessTokens is set", async () => {
+    storeData({ idToken: true, accessToken: true });
+
+    await NO_DEFAULT_IDAAS_CLIENT.oidc.logout({ revokeAccessTokens: true });
+
+    expect(revocationRequests().map((body) => body.get("token_type_hint"))).toEqual(["refresh_token", "access_token"]);
+  });
+
+  test("clears stored data and redirects when revocation fails", async () => {
+    storeData({ idToken: true, accessToken: true });
+    spyOnFetch.mockImplementation(
+      // @ts-expect-error not full type
+      async (url: string) => {
+        if (url === `${TEST_BASE_URI}/revoke`) {
+          return { ok: false, status: 503, json: () => Promise.reject(new Error("not json")) };
+        }
+        return await mockFetch(url);
+      },
+    );
+
+    try {
+      await NO_DEFAULT_IDAAS_CLIENT.oidc.logout();
+
+      expect(revocationRequests().length).toBe(1);
+      expect(localStorage.length).toBe(0);
+      expect(window.location.href).toContain("/endsession");
+    } finally {
+      // @ts-expect-error not full type
+      spyOnFetch.mockImplementation(mockFetch);
+    }
+  });
+
+  describe("logout options", () => {
+    const logoutUrlParams = () => new URL(window.location.href).searchParams;
+
+    test("sends the stored ID token as id_token_hint", async () => {
+      storeData({ idToken: true, accessToken: true });
+
+      await NO_DEFAULT_IDAAS_CLIENT.oidc.logout();
+
+      expect(logoutUrlParams().get("id_token_hint")).toBe(TEST_ID_TOKEN_OBJECT.encoded);
+    });
+
+    test("does not send id_token_hint when idTokenHint is false", async () => {
+      storeData({ idToken: true, accessToken: true });
+
+      await NO_DEFAULT_IDAAS_CLIENT.oidc.logout({ idTokenHint: false });
+
+      expect(logoutUrlParams().has("id_token_hint")).toBeFalse();
+    });
+
+    test("sends logout_hint and ui_locales", async () => {
+      await NO_DEFAULT_IDAAS_CLIENT.oidc.logout({ logoutHint: "user@example.com", uiLocales: "fr-CA fr" });
+
+      expect(logoutUrlParams().get("logout_hint")).toBe("user@example.com");
+      expect(logoutUrlParams().get("ui_locales")).toBe("fr-CA fr");
+    });
+
+    test("only clears the local session when localOnly is set", async () => {
+      storeData({ idToken: true, accessToken: true });
+
+      await NO_DEFAULT_IDAAS_CLIENT.oidc.logout({ localOnly: true, redirectUri: TEST_BASE_URI });
+
+      expect(localStorage.length).toBe(0);
+      expect(window.location.href).toBe(startLocation);
+      expect(revocationRequests()).toHaveLength(1);
+    });
+
+    test("logs out in a popup that returns to the redirect URI", async () => {
+      storeData({ idToken: true, accessToken: true });
+      const popup = { closed: false, close: jest.fn(), location: { href: "about:blank" } };
+      const spyOnOpenPopup = spyOn(browser, "openPopup").mockImplementation((url: string) => {
+        if (url) {
+          // The OP redirects back with the state it was sent
+          popup.location.href = `${TEST_BASE_URI}/logged-out?state=${new URL(url).searchParams.get("state")}`;
+        }
+        return popup as unknown as Window;
+      });
+
+      try {
+        await NO_DEFAULT_IDAAS_CLIENT.oidc.logout({ popup: true, redirectUri: `${TEST_BASE_URI}/logged-out` });
+
+        expect(new URL(spyOnOpenPopup.mock.calls[1]?.[0] as string).pathname).toBe("/endsession");
+        expect(popup.close).toHaveBeenCalled();
+        expect(window.location.href).toBe(startLocation);
+        expect(localStorage.length).toBe(0);
+      } finally {
+        spyOnOpenPopup.mockRestore();
+      }
+    });
+
+    test("resolves once the logout popup is opened when no redirect URI is given", async () => {
+      storeData({ idToken: true, accessToken: true });
+      const popup = { closed: false, close: jest.fn(), location: { href: "about:blank" } };
+      const spyOnOpenPopup = spyOn(browser, "openPopup").mockReturnValue(popup as unknown as Window);
+      const spyOnListenToLogoutPopup = spyOn(browser, "listenToLogoutPopup");
+
+      try {
+        await NO_DEFAULT_IDAAS_CLIENT.oidc.logout({ popup: true });
+
+        expect(new URL(spyOnOpenPopup.mock.calls[1]?.[0] as string).pathname).toBe("/endsession");
+        expect(spyOnListenToLogoutPopup).not.toHaveBeenCalled();
+        // The OP's logout page is left for the user to close
+        expect(popup.close).not.toHaveBeenCalled();
+        expect(localStorage.length).toBe(0);
+      } finally {
+        spyOnOpenPopup.mockRestore();
+        spyOnListenToLogoutPopup.mockRestore();
+      }
+    });
+  });
+
+  describe("handleLogoutRedirect", () => {
+    const logoutRedirectUri = `${TEST_BASE_URI}/logged-out`;
+
+    const logoutWithRedirect = async () => {
+      await NO_DEFAULT_IDAAS_CLIENT.oidc.logout({ redirectUri: logoutRedirectUri });
+      return new URL(window.location.href).searchParams.get("state");
+    };
+
+    test("validates the state returned by the OP", async () => {
+      const state = await logoutWithRedirect();
+      expect(state).toBeTruthy();
+      window.location.href = `${logoutRedirectUri}?state=${state}&tab=home`;
+
+      expect(await NO_DEFAULT_IDAAS_CLIENT.oidc.handleLogoutRedirect()).toBeTrue();
+      expect(window.location.href).toBe(`${logoutRedirectUri}?tab=home`);
+      expect(localStorage.length).toBe(0);
+    });
+
+    test("throws when the state does not match", async () => {
+      await logoutWithRedirect();
+
+      await expect(
+        NO_DEFAULT_IDAAS_CLIENT.oidc.handleLogoutRedirect(`${logoutRedirectUri}?state=forged`),
+      ).rejects.toThrowError(TransactionStateError);
+      expect(localStorage.length).toBe(0);
+    });
+
+    test("returns false when no logout is in progress", async () => {
+      expect(
+        await NO_DEFAULT_IDAAS_CLIENT.oidc.handleLogoutRedirect(`${logoutRedirectUri}?state=unexpected`),
+      ).toBeFalse();
+    });
+
+    test("returns false when the URL is not a logout callback", async () => {
+      expect(await NO_DEFAULT_IDAAS_CLIENT.oidc.handleLogoutRedirect(logoutRedirectUri)).toBeFalse();
+    });
+
+    test("leaves a login callback and the logout in progress untouched", async () => {
+      await logoutWithRedirect();
+      const loginCallbackUrl = `${TEST_BASE_URI}/callback?code=authorization-code&state=login-state`;
+      window.location.href = loginCallbackUrl;
+
+      expect(await NO_DEFAULT_IDAAS_CLIENT.oidc.handleLogoutRedirect()).toBeFalse();
+      expect(window.location.href).toBe(loginCallbackUrl);
+      expect(localStorage.length).toBe(1);
+    });
+  });
+
+  test("RBA logout revokes stored refresh tokens", async () => {
+    storeData({ idToken: true, accessToken: true });
+
+    await NO_DEFAULT_IDAAS_CLIENT.rba.logout();
+
+    expect(revocationRequests().map((body) => body.get("token"))).toEqual([TEST_REFRESH_TOKEN]);
+    expect(localStorage.length).toBe(0);
+  });
 });
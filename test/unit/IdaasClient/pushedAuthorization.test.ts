@@ -0,0 +1,135 @@
+import { afterAll, afterEach, describe, expect, jest, spyOn, test } from "bun:test";
+import { IdaasClient, OAuthError } from "../../../src";
+import * as browser from "../../../src/utils/browser";
+import { TEST_BASE_URI, TEST_CLIENT_ID, TEST_ISSUER_URI, TEST_OIDC_CONFIG } from "../constants";
+import { getStoredPendingAuthorizations, mockFetch } from "../helpers";
+
+const PAR_ENDPOINT = `${TEST_BASE_URI}/par`;
+const REQUEST_URI = "urn:ietf:params:oauth:request_uri:bwc4JK-ESC0w8acc191e-Y1LTC2";
+
+describe("IdaasClient.oidc.login with pushed authorization requests", () => {
+  const startLocation = TEST_BASE_URI;
+  let parResponse: object = {
+    ok: true,
+    status: 201,
+    json: () => Promise.resolve({ request_uri: REQUEST_URI, expires_in: 60 }),
+  };
+  let oidcConfig: object = { ...TEST_OIDC_CONFIG, pushed_authorization_request_endpoint: PAR_ENDPOINT };
+
+  const spyOnFetch = spyOn(window, "fetch").mockImplementation(
+    // @ts-expect-error not full type
+    async (url: string) => {
+      if (url === PAR_ENDPOINT) {
+        return parResponse;
+      }
+      if (url === `${TEST_ISSUER_URI}/.well-known/openid-configuration`) {
+        return { ok: true, json: () => Promise.resolve(oidcConfig) };
+      }
+      return await mockFetch(url);
+    },
+  );
+
+  const createClient = (requirePushedAuthorizationRequests?: boolean) =>
+    new IdaasClient(
+      { issuerUrl: TEST_ISSUER_URI, clientId: TEST_CLIENT_ID, storageType: "localstorage" },
+      { requirePushedAuthorizationRequests },
+    );
+
+  const pushedParams = () => {
+    const call = spyOnFetch.mock.calls.find((call) => call[0] === PAR_ENDPOINT);
+    return (call?.[1] as RequestInit | undefined)?.body as URLSearchParams | undefined;
+  };
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    jest.clearAllMocks();
+    window.location.href = startLocation;
+    parResponse = {
+      ok: true,
+      status: 201,
+      json: () => Promise.resolve({ request_uri: REQUEST_URI, expires_in: 60 }),
+    };
+    oidcConfig = { ...TEST_OIDC_CONFIG, pushed_authorization_request_endpoint: PAR_ENDPOINT };
+  });
+
+  test("pushes the authorization parameters and redirects with the request_uri only", async () => {
+    await createClient().oidc.login({}, { acrValues: "knowledge" });
+
+    const params = pushedParams();
+    expect(params?.get("client_id")).toBe(TEST_CLIENT_ID);
+    expect(params?.get("acr_values")).toBe("knowledge");
+    expect(params?.get("code_challenge_method")).toBe("S256");
+    expect(params?.get("state")).toBeTruthy();
+
+    const redirectUrl = new URL(window.location.href);
+    expect(redirectUrl.origin + redirectUrl.pathname).toBe(TEST_OIDC_CONFIG.authorization_endpoint);
+    expect([...redirectUrl.searchParams.entries()]).toEqual([
+      ["client_id", TEST_CLIENT_ID],
+      ["request_uri", REQUEST_URI],
+    ]);
+  });
+
+  test("opens the popup with the request_uri", async () => {
+    // The popup is opened blank before discovery and navigated to the authorization URL once it is known
+    const spyOnOpenPopup = spyOn(browser, "openPopup").mockImplementation((url: string) => {
+      if (!url) {
+        return window;
+      }
+      throw new Error("popup not available in tests");
+    });
+
+    await expect(createClient().oidc.login({ popup: true })).rejects.toThrow("popup not available in tests");
+
+    const popupUrl = new URL(spyOnOpenPopup.mock.calls[1]?.[0] as string);
+    expect(popupUrl.searchParams.get("request_uri")).toBe(REQUEST_URI);
+    expect(popupUrl.searchParams.get("response_mode")).toBeNull();
+    expect(pushedParams()?.get("response_mode")).toBe("web_message");
+    spyOnOpenPopup.mockRestore();
+  });
+
+  test("falls back to the full authorization URL when the OP does not support PAR", async () => {
+    oidcConfig = TEST_OIDC_CONFIG;
+
+    await createClient().oidc.login();
+
+    expect(pushedParams()).toBeUndefined();
+    expect(new URL(window.location.href).searchParams.get("code_challenge")).toBeTruthy();
+  });
+
+  test("throws when PAR is required but the OP does not support it", async () => {
+    oidcConfig = TEST_OIDC_CONFIG;
+
+    await expect(createClient(true).oidc.login()).rejects.toThrow("Pushed authorization requests are required");
+
+    expect(window.location.href).toBe(`${startLocation}/`);
+    expect(getStoredPendingAuthorizations()).toEqual([]);
+  });
+
+  test("throws when the OP requires PAR but does not advertise its endpoint", async () => {
+    oidcConfig = { ...TEST_OIDC_CONFIG, require_pushed_authorization_requests: true };
+
+    await expect(createClient(false).oidc.login()).rejects.toThrow("Pushed authorization requests are required");
+
+    expect(window.location.href).toBe(`${startLocation}/`);
+  });
+
+  test("throws the OAuthError of a rejected pushed authorization request", async () => {
+    parResponse = {
+      ok: false,
+      status: 400,
+      json: () => Promise.resolve({ error: "invalid_request", error_description: "Invalid redirect_uri" }),
+    };
+
+    const error = await createClient()
+      .oidc.login()
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(OAuthError);
+    expect(error.error).toBe("invalid_request");
+    expect(getStoredPendingAuthorizations()).toEqual([]);
+  });
+});
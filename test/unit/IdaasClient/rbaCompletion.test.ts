@@ -24,6 +24,7 @@ describe("IdaasClient.rba completion", () => {
     state: "test-state",
     codeVerifier: "test-code-verifier",
     usedScope: "openid profile email",
+    usedResource: [],
   });
 
   const spyOnGetAuthRequestId = spyOn(api, "getAuthRequestId").mockResolvedValue({
@@ -198,4 +199,47 @@ describe("IdaasClient.rba completion", () => {
 
     expect(localStorage.getItem(TEST_ACCESS_TOKEN_KEY)).toBeNull();
   });
+
+  test("emits challenge and completion events", async () => {
+    const client = new IdaasClient({
+      issuerUrl: TEST_ISSUER_URI,
+      clientId: TEST_CLIENT_ID,
+      storageType: "localstorage",
+    });
+    const events: string[] = [];
+    const onChallengeIssued = jest.fn(() => events.push("rbaChallengeIssued"));
+    const onCompleted = jest.fn(() => events.push("rbaCompleted"));
+    const onLogin = jest.fn(() => events.push("login"));
+    client.on("rbaChallengeIssued", onChallengeIssued);
+    client.on("rbaCompleted", onCompleted);
+    client.on("login", onLogin);
+
+    spyOnRequestToken.mockResolvedValueOnce({
+      access_token: "access-token",
+      token_type: "Bearer",
+      expires_in: "300",
+    });
+
+    await client.rba.requestChallenge(
+      {
+        userId: "user@example.com",
+        strict: true,
+        preferredAuthenticationMethod: "PASSWORD",
+      },
+      {
+        includeOpenidScope: false,
+        scope: "api:read",
+      },
+    );
+    await client.rba.submitChallenge({ response: "password" });
+
+    expect(events).toEqual(["rbaChallengeIssued", "rbaCompleted", "login"]);
+    expect(onChallengeIssued).toHaveBeenCalledWith(
+      expect.objectContaining({ method: "PASSWORD", pollForCompletion: false }),
+    );
+    expect(onLogin).toHaveBeenCalledWith({
+      flow: "rba",
+      token: expect.objectContaining({ scope: "api:read", dpopBound: false, refreshable: false }),
+    });
+  });
 });
@@ -0,0 +1,169 @@
+import { afterAll, afterEach, describe, expect, jest, spyOn, test } from "bun:test";
+import { TimeoutError } from "../../../src";
+import * as api from "../../../src/api";
+import { IdaasClient } from "../../../src/IdaasClient";
+import * as jwt from "../../../src/utils/jwt";
+import * as urlUtils from "../../../src/utils/url";
+import { TEST_CLIENT_ID, TEST_ISSUER_URI, TEST_OIDC_CONFIG } from "../constants";
+
+describe("IdaasClient.rba.poll", () => {
+  // @ts-expect-error non full type
+  spyOn(window, "fetch").mockImplementation(async (url: string) => {
+    if (url === `${TEST_ISSUER_URI}/.well-known/openid-configuration`) {
+      return Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve(TEST_OIDC_CONFIG),
+      } as Response);
+    }
+
+    throw new Error(`Unexpected fetch call in test: ${url}`);
+  });
+
+  spyOn(urlUtils, "generateAuthorizationUrl").mockResolvedValue({
+    url: `${TEST_ISSUER_URI}/authorizejwt?scope=openid%20profile%20email`,
+    nonce: "test-nonce",
+    state: "test-state",
+    codeVerifier: "test-code-verifier",
+    usedScope: "openid profile email",
+    usedResource: [],
+  });
+
+  spyOn(api, "getAuthRequestId").mockResolvedValue({
+    authRequestKey: "test-auth-request-key",
+    applicationId: "test-application-id",
+  });
+
+  spyOn(api, "requestAuthChallenge").mockResolvedValue({
+    token: "challenge-token",
+  } as never);
+
+  const spyOnSubmitAuthChallenge = spyOn(api, "submitAuthChallenge").mockResolvedValue({
+    status: "NO_RESPONSE",
+    token: "challenge-token",
+  } as never);
+
+  spyOn(api, "requestToken").mockResolvedValue({
+    access_token: "access-token",
+    id_token: "id-token",
+    token_type: "Bearer",
+    expires_in: "300",
+  });
+  spyOn(jwt, "validateIdToken").mockResolvedValue({
+    idToken: "encoded-id-token",
+    decodedJwt: {
+      sub: "test-sub",
+      nonce: "test-nonce",
+    },
+  });
+
+  const requestPushChallenge = async () => {
+    const client = new IdaasClient({
+      issuerUrl: TEST_ISSUER_URI,
+      clientId: TEST_CLIENT_ID,
+      storageType: "localstorage",
+    });
+
+    await client.rba.requestChallenge({
+      userId: "user@example.com",
+      strict: true,
+      preferredAuthenticationMethod: "TOKENPUSH",
+    });
+
+    return client;
+  };
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    jest.clearAllMocks();
+  });
+
+  test("reports every status and backs off until the user responds", async () => {
+    const client = await requestPushChallenge();
+    spyOnSubmitAuthChallenge
+      .mockResolvedValueOnce({ status: "NO_RESPONSE" } as never)
+      .mockResolvedValueOnce({ status: "NO_RESPONSE" } as never)
+      .mockResolvedValueOnce({ status: "CONFIRM", authenticationCompleted: true, token: "completed-token" } as never);
+    const spyOnSetTimeout = spyOn(globalThis, "setTimeout");
+    const onStatus = jest.fn();
+
+    const response = await client.rba.poll({ intervalMs: 10, backoff: 2, onStatus });
+
+    const waits = spyOnSetTimeout.mock.calls.map(([, ms]) => ms);
+    spyOnSetTimeout.mockRestore();
+
+    expect(response.authenticationCompleted).toBe(true);
+    expect(onStatus.mock.calls).toEqual([["NO_RESPONSE"], ["NO_RESPONSE"], ["CONFIRM"]]);
+    expect(waits).toEqual([10, 20]);
+    expect(client.isAuthenticated()).toBe(true);
+  });
+
+  test("caps the interval between two requests", async () => {
+    const client = await requestPushChallenge();
+    spyOnSubmitAuthChallenge
+      .mockResolvedValueOnce({ status: "NO_RESPONSE" } as never)
+      .mockResolvedValueOnce({ status: "NO_RESPONSE" } as never)
+      .mockResolvedValueOnce({ status: "CONFIRM", authenticationCompleted: true, token: "completed-token" } as never);
+    const originalSetTimeout = globalThis.setTimeout;
+    const spyOnSetTimeout = spyOn(globalThis, "setTimeout").mockImplementation(
+      // @ts-expect-error not full type
+      (callback: () => void) => originalSetTimeout(callback, 0),
+    );
+
+    await client.rba.poll({ intervalMs: 20 * 1000, backoff: 2 });
+
+    const waits = spyOnSetTimeout.mock.calls.map(([, ms]) => ms);
+    spyOnSetTimeout.mockRestore();
+
+    expect(waits).toEqual([20 * 1000, 30 * 1000]);
+  });
+
+  test.each([{ intervalMs: 0 }, { intervalMs: -10 }, { intervalMs: Number.NaN }, { backoff: 0.5 }, { backoff: -1 }])(
+    "rejects %p without polling",
+    async (options) => {
+      const client = await requestPushChallenge();
+
+      await expect(client.rba.poll(options)).rejects.toThrow(/must be/);
+      expect(spyOnSubmitAuthChallenge).not.toHaveBeenCalled();
+      expect(await client.rba.resume()).toMatchObject({ method: "TOKENPUSH", pollForCompletion: true });
+    },
+  );
+
+  test("throws a TimeoutError once the user did not respond in time and keeps the transaction", async () => {
+    const client = await requestPushChallenge();
+
+    const poll = client.rba.poll({ intervalMs: 10, timeoutMs: 30 });
+
+    await expect(poll).rejects.toBeInstanceOf(TimeoutError);
+    expect(await client.rba.resume()).toMatchObject({ method: "TOKENPUSH", pollForCompletion: true });
+  });
+
+  test("rejects with the abort reason once the signal is aborted", async () => {
+    const client = await requestPushChallenge();
+    const controller = new AbortController();
+
+    const poll = client.rba.poll({
+      intervalMs: 1000,
+      signal: controller.signal,
+      onStatus: () => controller.abort(new Error("The user left the page")),
+    });
+
+    await expect(poll).rejects.toThrow("The user left the page");
+    expect(spyOnSubmitAuthChallenge).toHaveBeenCalledTimes(1);
+  });
+
+  test("resolves without completing once the transaction is cancelled", async () => {
+    const client = await requestPushChallenge();
+    const onStatus = jest.fn();
+
+    const poll = client.rba.poll({ intervalMs: 1000, onStatus });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await client.rba.cancel();
+
+    expect((await poll).authenticationCompleted).toBeFalsy();
+    expect(onStatus).toHaveBeenCalledTimes(1);
+  });
+});
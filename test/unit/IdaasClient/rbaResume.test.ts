@@ -0,0 +1,188 @@
+import { afterAll, afterEach, describe, expect, jest, spyOn, test } from "bun:test";
+import type { TokenOptions } from "../../../src";
+import * as api from "../../../src/api";
+import { IdaasClient } from "../../../src/IdaasClient";
+import { retrievePersistedDpopKeyMaterial } from "../../../src/utils/dpopKeyStore";
+import * as jwt from "../../../src/utils/jwt";
+import * as urlUtils from "../../../src/utils/url";
+import { TEST_CLIENT_ID, TEST_ISSUER_URI, TEST_OIDC_CONFIG } from "../constants";
+import { blockIndexedDb } from "../helpers";
+
+const RBA_TRANSACTION_STORAGE_KEY = `entrust.${TEST_CLIENT_ID}.rbaTransaction`;
+
+describe("IdaasClient.rba.resume", () => {
+  // @ts-expect-error non full type
+  spyOn(window, "fetch").mockImplementation(async (url: string) => {
+    if (url === `${TEST_ISSUER_URI}/.well-known/openid-configuration`) {
+      return Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve(TEST_OIDC_CONFIG),
+      } as Response);
+    }
+
+    throw new Error(`Unexpected fetch call in test: ${url}`);
+  });
+
+  spyOn(urlUtils, "generateAuthorizationUrl").mockResolvedValue({
+    url: `${TEST_ISSUER_URI}/authorizejwt?scope=openid%20profile%20email`,
+    nonce: "test-nonce",
+    state: "test-state",
+    codeVerifier: "test-code-verifier",
+    usedScope: "openid profile email",
+    usedResource: [],
+  });
+
+  spyOn(api, "getAuthRequestId").mockResolvedValue({
+    authRequestKey: "test-auth-request-key",
+    applicationId: "test-application-id",
+  });
+
+  spyOn(api, "requestAuthChallenge").mockResolvedValue({
+    token: "challenge-token",
+    pushMutualChallenge: "42",
+  } as never);
+
+  const spyOnSubmitAuthChallenge = spyOn(api, "submitAuthChallenge");
+  const spyOnRequestToken = spyOn(api, "requestToken");
+  const spyOnValidateIdToken = spyOn(jwt, "validateIdToken").mockResolvedValue({
+    idToken: "encoded-id-token",
+    decodedJwt: {
+      sub: "test-sub",
+      nonce: "test-nonce",
+    },
+  });
+
+  const createClient = () =>
+    new IdaasClient({
+      issuerUrl: TEST_ISSUER_URI,
+      clientId: TEST_CLIENT_ID,
+      storageType: "localstorage",
+    });
+
+  const requestPushChallenge = async (client: IdaasClient, tokenOptions?: TokenOptions) =>
+    await client.rba.requestChallenge(
+      {
+        userId: "user@example.com",
+        password: "secret-password",
+        strict: true,
+        preferredAuthenticationMethod: "TOKENPUSH",
+      },
+      tokenOptions,
+    );
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    jest.clearAllMocks();
+  });
+
+  test("stores the transaction without the password", async () => {
+    await requestPushChallenge(createClient());
+
+    const storedTransaction = localStorage.getItem(RBA_TRANSACTION_STORAGE_KEY);
+    expect(storedTransaction).toContain("challenge-token");
+    expect(storedTransaction).toContain("test-code-verifier");
+    expect(storedTransaction).not.toContain("secret-password");
+  });
+
+  test("resumes the transaction in a new client and polls it to completion", async () => {
+    await requestPushChallenge(createClient());
+
+    // The page was reloaded while the user approved the push notification
+    const client = createClient();
+    const challenge = await client.rba.resume();
+
+    expect(challenge).toMatchObject({
+      method: "TOKENPUSH",
+      pollForCompletion: true,
+      pushMutualChallenge: "42",
+      userId: "user@example.com",
+    });
+
+    spyOnSubmitAuthChallenge.mockResolvedValueOnce({
+      status: "CONFIRM",
+      authenticationCompleted: true,
+      token: "completed-token",
+    } as never);
+    spyOnRequestToken.mockResolvedValueOnce({
+      access_token: "access-token",
+      id_token: "id-token",
+      token_type: "Bearer",
+      expires_in: "300",
+    });
+
+    const response = await client.rba.poll();
+
+    expect(response.authenticationCompleted).toBe(true);
+    expect(spyOnSubmitAuthChallenge).toHaveBeenCalledWith(
+      expect.objectContaining({ authRequestKey: "test-auth-request-key", applicationId: "test-application-id" }),
+      "TOKENPUSH",
+      "challenge-token",
+      new URL(TEST_ISSUER_URI).origin,
+    );
+    expect(spyOnRequestToken).toHaveBeenCalledWith(
+      TEST_OIDC_CONFIG.token_endpoint,
+      expect.objectContaining({
+        code: "test-auth-request-key",
+        code_verifier: "test-code-verifier",
+        jwt: "completed-token",
+      }),
+      undefined,
+    );
+    expect(spyOnValidateIdToken).toHaveBeenCalledWith(expect.objectContaining({ nonce: "test-nonce" }));
+    expect(client.isAuthenticated()).toBe(true);
+    expect(localStorage.getItem(RBA_TRANSACTION_STORAGE_KEY)).toBeNull();
+  });
+
+  test("returns null once the transaction expired", async () => {
+    await requestPushChallenge(createClient());
+
+    const now = Date.now();
+    const spyOnNow = spyOn(Date, "now").mockImplementation(() => now + 11 * 60 * 1000);
+    const challenge = await createClient().rba.resume();
+    spyOnNow.mockRestore();
+
+    expect(challenge).toBeNull();
+    expect(localStorage.getItem(RBA_TRANSACTION_STORAGE_KEY)).toBeNull();
+  });
+
+  test("clears the stored transaction when it is cancelled", async () => {
+    const client = createClient();
+    await requestPushChallenge(client);
+    spyOnSubmitAuthChallenge.mockResolvedValueOnce({} as never);
+
+    await client.rba.cancel();
+
+    expect(localStorage.getItem(RBA_TRANSACTION_STORAGE_KEY)).toBeNull();
+    expect(await createClient().rba.resume()).toBeNull();
+  });
+
+  test("issues the challenge when the transaction cannot be stored", async () => {
+    const restoreIndexedDb = blockIndexedDb();
+
+    try {
+      const challenge = await requestPushChallenge(createClient(), { dpop: { alg: "ES256", includeJkt: true } });
+
+      expect(challenge).toMatchObject({ method: "TOKENPUSH", pollForCompletion: true });
+      expect(localStorage.getItem(RBA_TRANSACTION_STORAGE_KEY)).toBeNull();
+    } finally {
+      restoreIndexedDb();
+    }
+  });
+
+  test("cleans up the DPoP key of an expired transaction on logout", async () => {
+    await requestPushChallenge(createClient(), { dpop: { alg: "ES256", includeJkt: true } });
+    const { dpopKeyRef } = JSON.parse(localStorage.getItem(RBA_TRANSACTION_STORAGE_KEY) ?? "{}").transaction;
+
+    const now = Date.now();
+    const spyOnNow = spyOn(Date, "now").mockImplementation(() => now + 11 * 60 * 1000);
+    await createClient().rba.logout();
+    spyOnNow.mockRestore();
+
+    expect(dpopKeyRef).toBeString();
+    expect(await retrievePersistedDpopKeyMaterial(dpopKeyRef)).toBeUndefined();
+  });
+});
@@ -1,6 +1,7 @@
 import { afterAll, afterEach, describe, expect, jest, spyOn, test } from "bun:test";
 import * as api from "../../../src/api";
 import { IdaasClient } from "../../../src/IdaasClient";
+import * as passkey from "../../../src/utils/passkey";
 import * as urlUtils from "../../../src/utils/url";
 import { TEST_CLIENT_ID, TEST_ISSUER_URI, TEST_OIDC_CONFIG } from "../constants";
 
@@ -32,8 +33,14 @@ describe("IdaasClient.rba.requestChallenge", () => {
     state: "test-state",
     codeVerifier: "test-code-verifier",
     usedScope: "profile email",
+    usedResource: [],
   });
 
+  const spyOnQueryUserAuthOptions = spyOn(api, "queryUserAuthOptions").mockResolvedValue({
+    authenticationTypes: ["FIDO"],
+    availableSecondFactor: [],
+  } as never);
+
   afterAll(() => {
     jest.restoreAllMocks();
   });
@@ -118,4 +125,22 @@ describe("IdaasClient.rba.requestChallenge", () => {
       }),
     );
   });
+
+  test("sends the origin and RP ID provided by the environment", async () => {
+    spyOnRequestAuthChallenge.mockResolvedValueOnce({
+      token: "test-token",
+      fidoChallenge: { challenge: "test-challenge" },
+    } as never);
+    spyOn(passkey, "buildPubKeyRequestOptions").mockReturnValueOnce({} as never);
+    const client = new IdaasClient({
+      issuerUrl: TEST_ISSUER_URI,
+      clientId: TEST_CLIENT_ID,
+      environment: { getOrigin: () => "https://app.example.com" },
+    });
+
+    await client.rba.requestChallenge({ userId: "user@example.com", preferredAuthenticationMethod: "FIDO" });
+
+    expect(spyOnQueryUserAuthOptions.mock.calls[0]?.[0].origin).toBe("https://app.example.com");
+    expect(spyOnRequestAuthChallenge.mock.calls[0]?.[0].rpId).toBe("app.example.com");
+  });
 });
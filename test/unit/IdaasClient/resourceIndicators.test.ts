@@ -0,0 +1,211 @@
+import { afterAll, afterEach, describe, expect, jest, spyOn, test } from "bun:test";
+import { IdaasClient } from "../../../src";
+import type { AccessToken } from "../../../src/storage/StorageManager";
+import {
+  TEST_ACCESS_TOKEN,
+  TEST_ACCESS_TOKEN_OBJECT,
+  TEST_AUDIENCE,
+  TEST_BASE_URI,
+  TEST_CLIENT_ID,
+  TEST_DIFFERENT_ACCESS_TOKEN,
+  TEST_ISSUER_URI,
+  TEST_REFRESH_TOKEN,
+  TEST_TOKEN_RESPONSE,
+} from "../constants";
+import { mockFetch } from "../helpers";
+
+const ORDERS_API = "https://api.example.com/orders";
+const BILLING_API = "https://api.example.com/billing";
+const ROTATED_REFRESH_TOKEN = "rotatedrefreshtoken";
+
+describe("IdaasClient resource indicators", () => {
+  // @ts-expect-error not full type
+  const spyOnFetch = spyOn(window, "fetch").mockImplementation(mockFetch);
+
+  const client = new IdaasClient(
+    {
+      issuerUrl: TEST_ISSUER_URI,
+      clientId: TEST_CLIENT_ID,
+      storageType: "localstorage",
+    },
+    { audience: TEST_AUDIENCE },
+  );
+
+  // The token stored at login, issued for both resources
+  const loginToken: AccessToken = {
+    ...TEST_ACCESS_TOKEN_OBJECT,
+    accessToken: TEST_DIFFERENT_ACCESS_TOKEN,
+    resource: [ORDERS_API, BILLING_API],
+    grantedResources: [ORDERS_API, BILLING_API],
+  };
+
+  const storeToken = (token: AccessToken) => {
+    // @ts-expect-error private method call
+    client.storageManager.saveAccessToken(token);
+  };
+
+  const storedTokens = (): AccessToken[] => {
+    // @ts-expect-error private method call
+    return client.storageManager.getAccessTokens();
+  };
+
+  const tokenRequests = () =>
+    spyOnFetch.mock.calls
+      .filter((call) => call[0] === `${TEST_BASE_URI}/token`)
+      .map((call) => (call[1] as RequestInit).body as URLSearchParams);
+
+  const mockRotatingTokenEndpoint = () => {
+    spyOnFetch.mockImplementation(
+      // @ts-expect-error not full type
+      async (url: string) => {
+        if (url === `${TEST_BASE_URI}/token`) {
+          return {
+            ok: true,
+            json: () => Promise.resolve({ ...TEST_TOKEN_RESPONSE, refresh_token: ROTATED_REFRESH_TOKEN }),
+          };
+        }
+        return await mockFetch(url);
+      },
+    );
+  };
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    jest.clearAllMocks();
+    // @ts-expect-error not full type
+    spyOnFetch.mockImplementation(mockFetch);
+  });
+
+  test("returns a stored token issued for the requested resource", async () => {
+    storeToken(loginToken);
+
+    expect(await client.getAccessToken({ resource: ORDERS_API })).toBe(TEST_DIFFERENT_ACCESS_TOKEN);
+    expect(tokenRequests()).toHaveLength(0);
+  });
+
+  test("mints a token for a granted resource with the refresh token", async () => {
+    storeToken({ ...loginToken, resource: [ORDERS_API] });
+
+    expect(await client.getAccessToken({ resource: BILLING_API })).toBe(TEST_ACCESS_TOKEN);
+
+    const [body] = tokenRequests();
+    expect(body?.get("grant_type")).toBe("refresh_token");
+    expect(body?.get("refresh_token")).toBe(TEST_REFRESH_TOKEN);
+    expect(body?.getAll("resource")).toEqual([BILLING_API]);
+  });
+
+  test("stores the minted token next to the login token", async () => {
+    storeToken({ ...loginToken, resource: [ORDERS_API] });
+
+    await client.getAccessToken({ resource: BILLING_API });
+
+    const [sourceToken, mintedToken] = storedTokens();
+    expect(sourceToken?.accessToken).toBe(TEST_DIFFERENT_ACCESS_TOKEN);
+    expect(mintedToken).toMatchObject({
+      accessToken: TEST_ACCESS_TOKEN,
+      audience: TEST_AUDIENCE,
+      resource: [BILLING_API],
+      grantedResources: [ORDERS_API, BILLING_API],
+    });
+
+    // The minted token is reused without another token request
+    expect(await client.getAccessToken({ resource: BILLING_API })).toBe(TEST_ACCESS_TOKEN);
+    expect(tokenRequests()).toHaveLength(1);
+  });
+
+  test("keeps the login token refreshable when the refresh token is rotated", async () => {
+    mockRotatingTokenEndpoint();
+    storeToken({ ...loginToken, resource: [ORDERS_API] });
+
+    await client.getAccessToken({ resource: BILLING_API });
+
+    expect(storedTokens().map((token) => token.refreshToken)).toEqual([ROTATED_REFRESH_TOKEN, ROTATED_REFRESH_TOKEN]);
+  });
+
+  test("shares a single token request between concurrent calls", async () => {
+    storeToken({ ...loginToken, resource: [ORDERS_API] });
+
+    const accessTokens = await Promise.all([
+      client.getAccessToken({ resource: BILLING_API }),
+      client.getAccessToken({ resource: BILLING_API }),
+    ]);
+
+    expect(accessTokens).toEqual([TEST_ACCESS_TOKEN, TEST_ACCESS_TOKEN]);
+    expect(tokenRequests()).toHaveLength(1);
+    expect(storedTokens()).toHaveLength(2);
+  });
+
+  test("refreshes a source token and its minted token that expire together", async () => {
+    // The OP rotates the refresh token on every request and rejects a redeemed one
+    let currentRefreshToken = TEST_REFRESH_TOKEN;
+    let issued = 0;
+    spyOnFetch.mockImplementation(
+      // @ts-expect-error not full type
+      async (url: string, init: RequestInit) => {
+        if (url !== `${TEST_BASE_URI}/token`) {
+          return await mockFetch(url);
+        }
+        if ((init.body as URLSearchParams).get("refresh_token") !== currentRefreshToken) {
+          return { ok: false, status: 400, json: () => Promise.resolve({ error: "invalid_grant" }) };
+        }
+        issued++;
+        currentRefreshToken = `${ROTATED_REFRESH_TOKEN}${issued}`;
+        return {
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              ...TEST_TOKEN_RESPONSE,
+              access_token: `refreshedaccesstoken${issued}`,
+              refresh_token: currentRefreshToken,
+            }),
+        };
+      },
+    );
+    const expiresAt = Math.floor(Date.now() / 1000) - 1;
+    storeToken({ ...loginToken, resource: [ORDERS_API], expiresAt });
+    storeToken({ ...loginToken, accessToken: TEST_ACCESS_TOKEN, resource: [BILLING_API], expiresAt });
+
+    const accessTokens = await Promise.all([
+      client.getAccessToken({ resource: ORDERS_API }),
+      client.getAccessToken({ resource: BILLING_API }),
+    ]);
+
+    expect(new Set(accessTokens)).toEqual(new Set(["refreshedaccesstoken1", "refreshedaccesstoken2"]));
+    expect(tokenRequests().map((body) => body.get("refresh_token"))).toEqual([
+      TEST_REFRESH_TOKEN,
+      `${ROTATED_REFRESH_TOKEN}1`,
+    ]);
+    expect(storedTokens().map((token) => token.refreshToken)).toEqual([
+      `${ROTATED_REFRESH_TOKEN}2`,
+      `${ROTATED_REFRESH_TOKEN}2`,
+    ]);
+  });
+
+  test("requests the token's resources when refreshing it", async () => {
+    storeToken({ ...loginToken, expiresAt: Math.floor(Date.now() / 1000) - 1 });
+
+    await client.getAccessToken({ resource: ORDERS_API });
+
+    expect(tokenRequests()[0]?.getAll("resource")).toEqual([ORDERS_API, BILLING_API]);
+    expect(storedTokens()).toEqual([
+      expect.objectContaining({ accessToken: TEST_ACCESS_TOKEN, resource: [ORDERS_API, BILLING_API] }),
+    ]);
+  });
+
+  test("throws when no stored token was granted the resource", async () => {
+    storeToken(loginToken);
+
+    await expect(client.getAccessToken({ resource: "https://api.example.com/admin" })).rejects.toThrow(
+      "Requested token not found",
+    );
+    expect(tokenRequests()).toHaveLength(0);
+  });
+
+  test("throws for a resource that is not an absolute URI", async () => {
+    await expect(client.getAccessToken({ resource: "orders" })).rejects.toThrow("must be an absolute URI");
+  });
+});
@@ -0,0 +1,141 @@
+import { afterAll, afterEach, describe, expect, jest, spyOn, test } from "bun:test";
+import { IdaasClient } from "../../../src";
+import type { AccessToken } from "../../../src/storage/StorageManager";
+import {
+  TEST_ACCESS_TOKEN,
+  TEST_ACCESS_TOKEN_OBJECT,
+  TEST_AUDIENCE,
+  TEST_BASE_URI,
+  TEST_CLIENT_ID,
+  TEST_DIFFERENT_ACCESS_TOKEN,
+  TEST_DIFFERENT_AUDIENCE,
+  TEST_ISSUER_URI,
+  TEST_OIDC_CONFIG,
+  TEST_REFRESH_TOKEN,
+} from "../constants";
+import { mockFetch } from "../helpers";
+
+describe("IdaasClient.revokeTokens", () => {
+  // @ts-expect-error not full type
+  const spyOnFetch = spyOn(window, "fetch").mockImplementation(mockFetch);
+
+  const client = new IdaasClient(
+    {
+      issuerUrl: TEST_ISSUER_URI,
+      clientId: TEST_CLIENT_ID,
+      storageType: "localstorage",
+    },
+    { audience: TEST_AUDIENCE },
+  );
+
+  const otherToken: AccessToken = {
+    ...TEST_ACCESS_TOKEN_OBJECT,
+    accessToken: TEST_DIFFERENT_ACCESS_TOKEN,
+    audience: TEST_DIFFERENT_AUDIENCE,
+    refreshToken: undefined,
+  };
+
+  const storeTokens = () => {
+    // @ts-expect-error private method call
+    client.storageManager.saveAccessToken(TEST_ACCESS_TOKEN_OBJECT);
+    // @ts-expect-error private method call
+    client.storageManager.saveAccessToken(otherToken);
+  };
+
+  const storedTokens = (): AccessToken[] => {
+    // @ts-expect-error private method call
+    return client.storageManager.getAccessTokens();
+  };
+
+  const revocationRequests = () =>
+    spyOnFetch.mock.calls
+      .filter((call) => call[0] === `${TEST_BASE_URI}/revoke`)
+      .map((call) => (call[1] as RequestInit).body as URLSearchParams);
+
+  const mockRevocationResponse = (response: object) => {
+    spyOnFetch.mockImplementation(
+      // @ts-expect-error not full type
+      async (url: string) => {
+        if (url === `${TEST_BASE_URI}/revoke`) {
+          return response;
+        }
+        return await mockFetch(url);
+      },
+    );
+  };
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    jest.clearAllMocks();
+    // @ts-expect-error not full type
+    spyOnFetch.mockImplementation(mockFetch);
+  });
+
+  test("revokes and removes the tokens of the default audience", async () => {
+    storeTokens();
+
+    await client.revokeTokens();
+
+    expect(revocationRequests().map((body) => [body.get("token"), body.get("token_type_hint")])).toEqual([
+      [TEST_REFRESH_TOKEN, "refresh_token"],
+      [TEST_ACCESS_TOKEN, "access_token"],
+    ]);
+    expect(storedTokens()).toEqual([otherToken]);
+  });
+
+  test("only revokes tokens of the requested audience", async () => {
+    storeTokens();
+
+    await client.revokeTokens({ audience: TEST_DIFFERENT_AUDIENCE });
+
+    expect(revocationRequests().map((body) => body.get("token"))).toEqual([TEST_DIFFERENT_ACCESS_TOKEN]);
+    expect(storedTokens()).toEqual([TEST_ACCESS_TOKEN_OBJECT]);
+  });
+
+  test("leaves access tokens unrevoked when revokeAccessTokens is false", async () => {
+    storeTokens();
+
+    await client.revokeTokens({ revokeAccessTokens: false });
+
+    expect(revocationRequests().map((body) => body.get("token_type_hint"))).toEqual(["refresh_token"]);
+    expect(storedTokens()).toEqual([otherToken]);
+  });
+
+  test("throws and keeps the tokens when revocation fails", async () => {
+    storeTokens();
+    mockRevocationResponse({
+      ok: false,
+      status: 400,
+      json: () => Promise.resolve({ error: "invalid_request", error_description: "revocation rejected" }),
+    });
+
+    await expect(client.revokeTokens()).rejects.toThrow("revocation rejected");
+
+    expect(storedTokens()).toEqual([TEST_ACCESS_TOKEN_OBJECT, otherToken]);
+  });
+
+  test("throws and keeps the tokens when the provider has no revocation endpoint", async () => {
+    storeTokens();
+    spyOnFetch.mockImplementation(
+      // @ts-expect-error not full type
+      async (url: string) => {
+        if (url === `${TEST_ISSUER_URI}/.well-known/openid-configuration`) {
+          return { ok: true, json: () => Promise.resolve({ ...TEST_OIDC_CONFIG, revocation_endpoint: undefined }) };
+        }
+        return await mockFetch(url);
+      },
+    );
+    const clientWithoutRevocation = new IdaasClient(
+      { issuerUrl: TEST_ISSUER_URI, clientId: TEST_CLIENT_ID, storageType: "localstorage" },
+      { audience: TEST_AUDIENCE },
+    );
+
+    await expect(clientWithoutRevocation.revokeTokens()).rejects.toThrow("no revocation_endpoint is advertised");
+
+    expect(storedTokens()).toEqual([TEST_ACCESS_TOKEN_OBJECT, otherToken]);
+  });
+});
@@ -0,0 +1,112 @@
+import { afterAll, afterEach, beforeAll, describe, expect, jest, spyOn, test } from "bun:test";
+import * as api from "../../../src/api";
+import { IdaasClient } from "../../../src/IdaasClient";
+import * as jwt from "../../../src/utils/jwt";
+import { TEST_CLIENT_ID, TEST_ISSUER_URI, TEST_OIDC_CONFIG } from "../constants";
+
+describe("IdaasClient outside the browser", () => {
+  const browserGlobals = ["window", "document"] as const;
+  const descriptors = browserGlobals.map((name) => Object.getOwnPropertyDescriptor(globalThis, name));
+
+  spyOn(globalThis, "fetch").mockImplementation(
+    // @ts-expect-error not full type
+    async (url: string) => {
+      if (url === `${TEST_ISSUER_URI}/.well-known/openid-configuration`) {
+        return { ok: true, json: () => Promise.resolve(TEST_OIDC_CONFIG) };
+      }
+
+      throw new Error(`Unexpected fetch call in test: ${url}`);
+    },
+  );
+
+  const spyOnGetAuthRequestId = spyOn(api, "getAuthRequestId").mockResolvedValue({
+    authRequestKey: "test-auth-request-key",
+    applicationId: "test-application-id",
+  });
+  spyOn(api, "requestAuthChallenge").mockResolvedValue({ token: "challenge-token" } as never);
+  spyOn(api, "submitAuthChallenge").mockResolvedValue({
+    status: "CONFIRM",
+    authenticationCompleted: true,
+    token: "completed-token",
+  } as never);
+  const spyOnRequestToken = spyOn(api, "requestToken");
+  spyOn(jwt, "validateIdToken").mockImplementation(async ({ nonce }) => ({
+    idToken: "encoded-id-token",
+    decodedJwt: { sub: "test-sub", nonce },
+  }));
+
+  // Counts the random values of the PKCE verifier, state, and nonce drawn from the provided crypto
+  const getRandomValues = jest.fn(<T extends ArrayBufferView | null>(array: T) => crypto.getRandomValues(array));
+  const environmentCrypto = { subtle: crypto.subtle, getRandomValues } as unknown as Crypto;
+
+  beforeAll(() => {
+    for (const name of browserGlobals) {
+      Reflect.deleteProperty(globalThis, name);
+    }
+  });
+
+  afterAll(() => {
+    browserGlobals.forEach((name, index) => {
+      const descriptor = descriptors[index];
+      if (descriptor) {
+        Object.defineProperty(globalThis, name, descriptor);
+      }
+    });
+    jest.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test("logs in with RBA and refreshes the token", async () => {
+    expect(typeof window).toBe("undefined");
+    expect(typeof document).toBe("undefined");
+
+    const client = new IdaasClient(
+      {
+        issuerUrl: TEST_ISSUER_URI,
+        clientId: TEST_CLIENT_ID,
+        environment: { getOrigin: () => "https://app.example.com", crypto: environmentCrypto },
+      },
+      { useRefreshToken: true },
+    );
+    spyOnRequestToken
+      .mockResolvedValueOnce({
+        access_token: "access-token",
+        refresh_token: "refresh-token",
+        id_token: "id-token",
+        token_type: "Bearer",
+        expires_in: "300",
+      })
+      .mockResolvedValueOnce({
+        access_token: "refreshed-access-token",
+        refresh_token: "rotated-refresh-token",
+        token_type: "Bearer",
+        expires_in: "300",
+      });
+
+    await client.rba.requestChallenge({
+      userId: "user@example.com",
+      preferredAuthenticationMethod: "TOKENPUSH",
+      strict: true,
+    });
+    const response = await client.rba.poll({ intervalMs: 10 });
+
+    expect(response.authenticationCompleted).toBe(true);
+    expect(spyOnGetAuthRequestId.mock.calls[0]?.[0]).toContain("code_challenge=");
+    expect(getRandomValues).toHaveBeenCalled();
+    expect(await client.getAccessToken()).toBe("access-token");
+
+    const now = Date.now();
+    const spyOnNow = spyOn(Date, "now").mockImplementation(() => now + 300 * 1000);
+    const refreshedAccessToken = await client.getAccessToken();
+    spyOnNow.mockRestore();
+
+    expect(refreshedAccessToken).toBe("refreshed-access-token");
+    expect(spyOnRequestToken.mock.calls[1]?.[1]).toMatchObject({
+      grant_type: "refresh_token",
+      refresh_token: "refresh-token",
+    });
+  });
+});
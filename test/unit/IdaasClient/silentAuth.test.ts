@@ -0,0 +1,227 @@
+import { afterAll, afterEach, describe, expect, jest, spyOn, test } from "bun:test";
+import {
+  ConsentRequiredError,
+  IdaasClient,
+  InteractionRequiredError,
+  LoginRequiredError,
+  OAuthError,
+  TimeoutError,
+} from "../../../src";
+import type { AccessToken } from "../../../src/storage/StorageManager";
+import * as browser from "../../../src/utils/browser";
+import * as jwt from "../../../src/utils/jwt";
+import * as urlUtils from "../../../src/utils/url";
+import {
+  TEST_ACCESS_TOKEN,
+  TEST_ACR_CLAIM,
+  TEST_BASE_URI,
+  TEST_CLIENT_ID,
+  TEST_CODE,
+  TEST_ID_TOKEN_OBJECT,
+  TEST_ISSUER_URI,
+  TEST_OIDC_CONFIG,
+} from "../constants";
+import { mockFetch } from "../helpers";
+
+describe("IdaasClient.oidc silent authentication", () => {
+  // @ts-expect-error not full type
+  const spyOnFetch = spyOn(window, "fetch").mockImplementation(mockFetch);
+  spyOn(jwt, "readAccessToken").mockImplementation(() => {
+    return {
+      sub: "testingsubclaim",
+      acr: TEST_ACR_CLAIM,
+      nbf: "0",
+      exp: "9999999999",
+      iat: "0",
+      iss: TEST_BASE_URI,
+      jti: "testing-jti",
+    };
+  });
+  spyOn(jwt, "validateIdToken").mockImplementation(async () => {
+    return { decodedJwt: TEST_ID_TOKEN_OBJECT.decoded, idToken: TEST_ID_TOKEN_OBJECT.encoded };
+  });
+  const spyOnGenerateAuthorizationUrl = spyOn(urlUtils, "generateAuthorizationUrl");
+  // The authorize endpoint is not loaded in tests, the response is posted to the window instead
+  const spyOnOpenHiddenIframe = spyOn(browser, "openHiddenIframe").mockImplementation(() => {
+    const iframe = document.createElement("iframe");
+    document.body.appendChild(iframe);
+    return iframe;
+  });
+
+  const client = new IdaasClient({
+    issuerUrl: TEST_ISSUER_URI,
+    clientId: TEST_CLIENT_ID,
+    storageType: "memory",
+  });
+
+  const storedTokens = (): AccessToken[] => {
+    // @ts-expect-error private method call
+    return client.storageManager.getAccessTokens();
+  };
+
+  const getAuthorizationUrl = async () => {
+    const result = spyOnGenerateAuthorizationUrl.mock.results[0];
+    if (!result) throw new Error("generateAuthorizationUrl spy was not called");
+    const { url } = await (result.value as ReturnType<typeof urlUtils.generateAuthorizationUrl>);
+    return new URL(url);
+  };
+
+  const waitForIframe = async () => {
+    while (spyOnOpenHiddenIframe.mock.results.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    return spyOnOpenHiddenIframe.mock.results[0]?.value as HTMLIFrameElement;
+  };
+
+  /**
+   * Waits for the iframe to be opened and posts the given authorization response from it.
+   */
+  const respondFromIframe = async (response: { code?: string; error?: string; error_description?: string }) => {
+    const iframe = await waitForIframe();
+    const state = (await getAuthorizationUrl()).searchParams.get("state");
+
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        origin: TEST_BASE_URI,
+        source: iframe.contentWindow,
+        data: {
+          type: "authorization_response",
+          response: { code: null, error: null, error_description: null, state, ...response },
+        },
+      }),
+    );
+
+    return iframe;
+  };
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    // @ts-expect-error private method call
+    client.storageManager.remove();
+  });
+
+  test("requests authorization with prompt=none and response_mode=web_message", async () => {
+    const accessTokenPromise = client.oidc.getAccessTokenSilently();
+    await respondFromIframe({ code: TEST_CODE });
+    await accessTokenPromise;
+
+    const params = (await getAuthorizationUrl()).searchParams;
+    expect(params.get("prompt")).toBe("none");
+    expect(params.get("response_mode")).toBe("web_message");
+  });
+
+  test("exchanges the code, stores the tokens and removes the iframe", async () => {
+    const accessTokenPromise = client.oidc.getAccessTokenSilently();
+    const iframe = await respondFromIframe({ code: TEST_CODE });
+
+    expect(await accessTokenPromise).toBe(TEST_ACCESS_TOKEN);
+    expect(storedTokens().map((token) => token.accessToken)).toEqual([TEST_ACCESS_TOKEN]);
+    expect(iframe.isConnected).toBe(false);
+    expect(spyOnFetch.mock.calls.some((call) => call[0] === `${TEST_BASE_URI}/token`)).toBe(true);
+  });
+
+  test("ignores authorization responses from other windows", async () => {
+    const accessTokenPromise = client.oidc.getAccessTokenSilently();
+    await waitForIframe();
+    window.dispatchEvent(
+      new MessageEvent("message", {
+        origin: TEST_BASE_URI,
+        source: window,
+        data: { type: "authorization_response", response: { error: "login_required" } },
+      }),
+    );
+    await respondFromIframe({ code: TEST_CODE });
+
+    expect(await accessTokenPromise).toBe(TEST_ACCESS_TOKEN);
+  });
+
+  test("throws LoginRequiredError for login_required", async () => {
+    const accessTokenPromise = client.oidc.getAccessTokenSilently();
+    await respondFromIframe({ error: "login_required", error_description: "No active session" });
+
+    const error = await accessTokenPromise.catch((e) => e);
+    expect(error).toBeInstanceOf(LoginRequiredError);
+    expect(error).toBeInstanceOf(InteractionRequiredError);
+    expect(error.error).toBe("login_required");
+    expect(error.error_description).toBe("No active session");
+    expect(error.message).toBe("No active session");
+    expect(storedTokens()).toEqual([]);
+  });
+
+  test("throws ConsentRequiredError for consent_required", async () => {
+    const accessTokenPromise = client.oidc.getAccessTokenSilently();
+    await respondFromIframe({ error: "consent_required" });
+
+    await expect(accessTokenPromise).rejects.toBeInstanceOf(ConsentRequiredError);
+  });
+
+  test("throws InteractionRequiredError for other interaction errors", async () => {
+    const accessTokenPromise = client.oidc.getAccessTokenSilently();
+    await respondFromIframe({ error: "account_selection_required" });
+
+    const error = await accessTokenPromise.catch((e) => e);
+    expect(error).toBeInstanceOf(InteractionRequiredError);
+    expect(error).not.toBeInstanceOf(LoginRequiredError);
+    expect(error.error).toBe("account_selection_required");
+  });
+
+  test("throws a generic error for other authorization errors", async () => {
+    const accessTokenPromise = client.oidc.getAccessTokenSilently();
+    await respondFromIframe({ error: "server_error" });
+
+    const error = await accessTokenPromise.catch((e) => e);
+    expect(error).toBeInstanceOf(OAuthError);
+    expect(error).not.toBeInstanceOf(InteractionRequiredError);
+    expect(error.error).toBe("server_error");
+  });
+
+  test("times out when the OP does not respond", async () => {
+    const accessTokenPromise = client.oidc.getAccessTokenSilently({ timeoutSeconds: 0.01 });
+
+    await expect(accessTokenPromise).rejects.toBeInstanceOf(TimeoutError);
+    const iframe = spyOnOpenHiddenIframe.mock.results[0]?.value as HTMLIFrameElement;
+    expect(iframe.isConnected).toBe(false);
+  });
+
+  test("throws if web_message is not supported by the OP", async () => {
+    spyOnFetch.mockImplementationOnce(
+      // @ts-expect-error not full type
+      async () => ({
+        ok: true,
+        json: () => Promise.resolve({ ...TEST_OIDC_CONFIG, response_modes_supported: ["query"] }),
+      }),
+    );
+    const otherClient = new IdaasClient({ issuerUrl: TEST_ISSUER_URI, clientId: TEST_CLIENT_ID });
+
+    await expect(otherClient.oidc.getAccessTokenSilently()).rejects.toThrow("web_message is not supported");
+    expect(spyOnOpenHiddenIframe).not.toHaveBeenCalled();
+  });
+
+  describe("checkSession", () => {
+    test("returns true when tokens were stored", async () => {
+      const sessionPromise = client.oidc.checkSession();
+      await respondFromIframe({ code: TEST_CODE });
+
+      expect(await sessionPromise).toBe(true);
+      expect(storedTokens()).toHaveLength(1);
+    });
+
+    test("returns false when user interaction is required", async () => {
+      const sessionPromise = client.oidc.checkSession();
+      await respondFromIframe({ error: "login_required" });
+
+      expect(await sessionPromise).toBe(false);
+    });
+
+    test("rethrows other errors", async () => {
+      const sessionPromise = client.oidc.checkSession();
+      await respondFromIframe({ error: "server_error" });
+
+      await expect(sessionPromise).rejects.toBeInstanceOf(OAuthError);
+    });
+  });
+});
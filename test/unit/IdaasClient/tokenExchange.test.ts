@@ -0,0 +1,163 @@
+import { afterAll, afterEach, describe, expect, jest, spyOn, test } from "bun:test";
+import { IdaasClient, OAuthError, TransactionStateError } from "../../../src";
+import type { AccessToken } from "../../../src/storage/StorageManager";
+import { generateDpopKeyMaterial } from "../../../src/utils/dpop";
+import { persistDpopKeyMaterial } from "../../../src/utils/dpopKeyStore";
+import {
+  TEST_ACCESS_TOKEN,
+  TEST_ACCESS_TOKEN_OBJECT,
+  TEST_AUDIENCE,
+  TEST_BASE_URI,
+  TEST_CLIENT_ID,
+  TEST_DIFFERENT_ACCESS_TOKEN,
+  TEST_ISSUER_URI,
+  TEST_TOKEN_RESPONSE,
+} from "../constants";
+import { mockFetch } from "../helpers";
+
+const DOWNSTREAM_API = "https://api.example.com/downstream";
+const ACCESS_TOKEN_TYPE = "urn:ietf:params:oauth:token-type:access_token";
+const JWT_TOKEN_TYPE = "urn:ietf:params:oauth:token-type:jwt";
+
+describe("IdaasClient.exchangeToken", () => {
+  // @ts-expect-error not full type
+  const spyOnFetch = spyOn(window, "fetch").mockImplementation(mockFetch);
+
+  const client = new IdaasClient(
+    { issuerUrl: TEST_ISSUER_URI, clientId: TEST_CLIENT_ID, storageType: "localstorage" },
+    { audience: TEST_AUDIENCE },
+  );
+
+  // The token stored at login, exchanged by default
+  const loginToken: AccessToken = { ...TEST_ACCESS_TOKEN_OBJECT, accessToken: TEST_DIFFERENT_ACCESS_TOKEN };
+
+  const storeToken = (token: AccessToken) => {
+    // @ts-expect-error private method call
+    client.storageManager.saveAccessToken(token);
+  };
+
+  const storedTokens = (): AccessToken[] => {
+    // @ts-expect-error private method call
+    return client.storageManager.getAccessTokens();
+  };
+
+  const tokenRequests = () =>
+    spyOnFetch.mock.calls.filter((call) => call[0] === `${TEST_BASE_URI}/token`).map((call) => call[1] as RequestInit);
+
+  const exchangeResponse = (response: object = {}) => ({
+    ok: true,
+    json: () => Promise.resolve({ ...TEST_TOKEN_RESPONSE, issued_token_type: ACCESS_TOKEN_TYPE, ...response }),
+  });
+
+  const mockTokenEndpoint = (response: object = exchangeResponse()) => {
+    spyOnFetch.mockImplementation(
+      // @ts-expect-error not full type
+      async (url: string) => {
+        if (url === `${TEST_BASE_URI}/token`) {
+          return response;
+        }
+        return await mockFetch(url);
+      },
+    );
+  };
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    jest.clearAllMocks();
+    // @ts-expect-error not full type
+    spyOnFetch.mockImplementation(mockFetch);
+  });
+
+  test("exchanges the stored access token and stores the new token under its audience", async () => {
+    storeToken(loginToken);
+    mockTokenEndpoint();
+
+    const exchangedToken = await client.exchangeToken({ audience: DOWNSTREAM_API, scope: "orders:read" });
+
+    const body = tokenRequests()[0]?.body as URLSearchParams;
+    expect(body.get("grant_type")).toBe("urn:ietf:params:oauth:grant-type:token-exchange");
+    expect(body.get("subject_token")).toBe(TEST_DIFFERENT_ACCESS_TOKEN);
+    expect(body.get("subject_token_type")).toBe(ACCESS_TOKEN_TYPE);
+    expect(body.get("audience")).toBe(DOWNSTREAM_API);
+    expect(body.get("scope")).toBe("orders:read");
+    expect(body.has("actor_token_type")).toBe(false);
+
+    expect(exchangedToken).toBe(TEST_ACCESS_TOKEN);
+    expect(storedTokens()).toEqual([
+      loginToken,
+      expect.objectContaining({ accessToken: TEST_ACCESS_TOKEN, audience: DOWNSTREAM_API, dpopBound: false }),
+    ]);
+    expect(await client.getAccessToken({ audience: DOWNSTREAM_API, scope: TEST_TOKEN_RESPONSE.scope })).toBe(
+      TEST_ACCESS_TOKEN,
+    );
+    expect(tokenRequests()).toHaveLength(1);
+  });
+
+  test("exchanges the given subject token on behalf of an actor", async () => {
+    await client.exchangeToken({
+      subjectToken: "external-subject-token",
+      subjectTokenType: JWT_TOKEN_TYPE,
+      audience: DOWNSTREAM_API,
+      requestedTokenType: JWT_TOKEN_TYPE,
+      actorToken: "actor-token",
+    });
+
+    const body = tokenRequests()[0]?.body as URLSearchParams;
+    expect(body.get("subject_token")).toBe("external-subject-token");
+    expect(body.get("subject_token_type")).toBe(JWT_TOKEN_TYPE);
+    expect(body.get("requested_token_type")).toBe(JWT_TOKEN_TYPE);
+    expect(body.get("actor_token")).toBe("actor-token");
+    expect(body.get("actor_token_type")).toBe(ACCESS_TOKEN_TYPE);
+  });
+
+  test("proves possession of a DPoP-bound subject token", async () => {
+    const keyMaterial = await generateDpopKeyMaterial("ES256");
+    const dpopKeyRef = await persistDpopKeyMaterial({ alg: "ES256", ...keyMaterial });
+    const dpopClient = new IdaasClient(
+      { issuerUrl: TEST_ISSUER_URI, clientId: TEST_CLIENT_ID, storageType: "localstorage" },
+      { audience: TEST_AUDIENCE, dpop: { alg: "ES256" } },
+    );
+    storeToken({ ...loginToken, dpopBound: true, dpopKeyRef });
+    mockTokenEndpoint(exchangeResponse({ token_type: "DPoP" }));
+
+    await dpopClient.exchangeToken({ audience: DOWNSTREAM_API });
+
+    const headers = tokenRequests()[0]?.headers as Record<string, string> | undefined;
+    expect(headers?.DPoP).toBeTruthy();
+    expect(storedTokens()[1]).toMatchObject({ audience: DOWNSTREAM_API, dpopBound: true, dpopKeyRef });
+  });
+
+  test("returns a token of another type without storing it", async () => {
+    storeToken(loginToken);
+    mockTokenEndpoint(exchangeResponse({ access_token: "issued-jwt", issued_token_type: JWT_TOKEN_TYPE }));
+
+    const exchangedToken = await client.exchangeToken({ audience: DOWNSTREAM_API, requestedTokenType: JWT_TOKEN_TYPE });
+
+    expect(exchangedToken).toBe("issued-jwt");
+    expect(storedTokens()).toEqual([loginToken]);
+  });
+
+  test("throws a TransactionStateError when there is no token to exchange", async () => {
+    await expect(client.exchangeToken({ audience: DOWNSTREAM_API })).rejects.toBeInstanceOf(TransactionStateError);
+    expect(tokenRequests()).toHaveLength(0);
+  });
+
+  test("throws the OAuthError of a rejected exchange and stores nothing", async () => {
+    storeToken(loginToken);
+    mockTokenEndpoint({
+      ok: false,
+      status: 400,
+      json: () => Promise.resolve({ error: "invalid_target", error_description: "Unknown audience" }),
+    });
+
+    const error = await client.exchangeToken({ audience: DOWNSTREAM_API }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(OAuthError);
+    expect(error.error).toBe("invalid_target");
+    expect(storedTokens()).toEqual([loginToken]);
+  });
+});
@@ -0,0 +1,153 @@
+import { afterAll, afterEach, describe, expect, jest, spyOn, test } from "bun:test";
+import { IdaasClient } from "../../../src";
+import type { AccessToken } from "../../../src/storage/StorageManager";
+import { generateDpopKeyMaterial } from "../../../src/utils/dpop";
+import { persistDpopKeyMaterial, retrievePersistedDpopKeyMaterial } from "../../../src/utils/dpopKeyStore";
+import {
+  TEST_ACCESS_TOKEN_OBJECT,
+  TEST_ACR_CLAIM,
+  TEST_AUDIENCE,
+  TEST_CLIENT_ID,
+  TEST_DIFFERENT_ACCESS_TOKEN,
+  TEST_DIFFERENT_AUDIENCE,
+  TEST_ISSUER_URI,
+  TEST_SCOPE,
+} from "../constants";
+import { mockFetch } from "../helpers";
+
+describe("IdaasClient token inventory", () => {
+  // @ts-expect-error not full type
+  const _spyOnFetch = spyOn(window, "fetch").mockImplementation(mockFetch);
+
+  const client = new IdaasClient(
+    {
+      issuerUrl: TEST_ISSUER_URI,
+      clientId: TEST_CLIENT_ID,
+      storageType: "localstorage",
+    },
+    { audience: TEST_AUDIENCE },
+  );
+
+  const otherToken: AccessToken = {
+    accessToken: TEST_DIFFERENT_ACCESS_TOKEN,
+    audience: TEST_DIFFERENT_AUDIENCE,
+    scope: "read write",
+    expiresAt: Math.floor(Date.now() / 1000) + 300,
+    dpopBound: true,
+    dpopKeyRef: "unused-key-ref",
+  };
+
+  const storeToken = (token: AccessToken) => {
+    // @ts-expect-error private method call
+    client.storageManager.saveAccessToken(token);
+  };
+
+  const storedTokens = (): AccessToken[] => {
+    // @ts-expect-error private method call
+    return client.storageManager.getAccessTokens();
+  };
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    jest.clearAllMocks();
+  });
+
+  describe("getTokens", () => {
+    test("describes every stored token without exposing it", async () => {
+      storeToken(TEST_ACCESS_TOKEN_OBJECT);
+      storeToken(otherToken);
+
+      const tokens = await client.getTokens();
+
+      expect(tokens).toEqual([
+        {
+          audience: TEST_AUDIENCE,
+          scope: TEST_SCOPE,
+          acr: TEST_ACR_CLAIM,
+          expiresAt: TEST_ACCESS_TOKEN_OBJECT.expiresAt,
+          maxAgeExpiry: TEST_ACCESS_TOKEN_OBJECT.maxAgeExpiry,
+          dpopBound: false,
+          refreshable: true,
+        },
+        {
+          audience: TEST_DIFFERENT_AUDIENCE,
+          scope: "read write",
+          acr: undefined,
+          expiresAt: otherToken.expiresAt,
+          maxAgeExpiry: undefined,
+          dpopBound: true,
+          refreshable: false,
+        },
+      ]);
+      expect(JSON.stringify(tokens)).not.toContain(TEST_DIFFERENT_ACCESS_TOKEN);
+    });
+
+    test("returns an empty list when no tokens are stored", async () => {
+      expect(await client.getTokens()).toEqual([]);
+    });
+  });
+
+  describe("getTokenDetails", () => {
+    test("defaults to the tokens of the default audience", async () => {
+      storeToken(TEST_ACCESS_TOKEN_OBJECT);
+      storeToken(otherToken);
+
+      const tokens = await client.getTokenDetails();
+
+      expect(tokens.map((token) => token.audience)).toEqual([TEST_AUDIENCE]);
+    });
+
+    test("selects tokens that have all requested scopes", async () => {
+      storeToken(TEST_ACCESS_TOKEN_OBJECT);
+      storeToken(otherToken);
+
+      expect(await client.getTokenDetails({ audience: TEST_DIFFERENT_AUDIENCE, scope: "write" })).toHaveLength(1);
+      expect(await client.getTokenDetails({ audience: TEST_DIFFERENT_AUDIENCE, scope: "write admin" })).toEqual([]);
+    });
+
+    test("selects tokens issued for one of the requested acr values", async () => {
+      storeToken(TEST_ACCESS_TOKEN_OBJECT);
+
+      expect(await client.getTokenDetails({ acrValues: `other ${TEST_ACR_CLAIM}` })).toHaveLength(1);
+      expect(await client.getTokenDetails({ acrValues: "other" })).toEqual([]);
+    });
+  });
+
+  describe("removeToken", () => {
+    test("removes only the selected tokens", async () => {
+      storeToken(TEST_ACCESS_TOKEN_OBJECT);
+      storeToken(otherToken);
+
+      await client.removeToken({ audience: TEST_DIFFERENT_AUDIENCE });
+
+      expect(storedTokens()).toEqual([TEST_ACCESS_TOKEN_OBJECT]);
+    });
+
+    test("cleans up DPoP key material no other token uses", async () => {
+      const keyMaterial = await generateDpopKeyMaterial("ES256");
+      const dpopKeyRef = await persistDpopKeyMaterial({ alg: "ES256", ...keyMaterial });
+      storeToken({ ...otherToken, dpopKeyRef });
+
+      await client.removeToken({ audience: TEST_DIFFERENT_AUDIENCE });
+
+      expect(storedTokens()).toEqual([]);
+      expect(await retrievePersistedDpopKeyMaterial(dpopKeyRef)).toBeUndefined();
+    });
+
+    test("keeps DPoP key material still used by another token", async () => {
+      const keyMaterial = await generateDpopKeyMaterial("ES256");
+      const dpopKeyRef = await persistDpopKeyMaterial({ alg: "ES256", ...keyMaterial });
+      storeToken({ ...TEST_ACCESS_TOKEN_OBJECT, dpopBound: true, dpopKeyRef });
+      storeToken({ ...otherToken, dpopKeyRef });
+
+      await client.removeToken({ audience: TEST_DIFFERENT_AUDIENCE });
+
+      expect(storedTokens()).toHaveLength(1);
+      expect(await retrievePersistedDpopKeyMaterial(dpopKeyRef)).toBeDefined();
+    });
+  });
+});
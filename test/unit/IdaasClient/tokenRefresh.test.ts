@@ -0,0 +1,143 @@
+import { afterAll, afterEach, describe, expect, jest, spyOn, test } from "bun:test";
+import { IdaasClient } from "../../../src";
+import type { AccessToken } from "../../../src/storage/StorageManager";
+import { TEST_ACCESS_TOKEN_OBJECT, TEST_BASE_URI, TEST_CLIENT_ID, TEST_ISSUER_URI } from "../constants";
+import { mockFetch } from "../helpers";
+
+describe("IdaasClient.startTokenRefresh", () => {
+  // @ts-expect-error not full type
+  const spyOnFetch = spyOn(window, "fetch").mockImplementation(mockFetch);
+
+  const client = new IdaasClient({
+    issuerUrl: TEST_ISSUER_URI,
+    clientId: TEST_CLIENT_ID,
+    storageType: "localstorage",
+  });
+
+  const storeToken = (token: AccessToken) => {
+    // @ts-expect-error private method call
+    client.storageManager.saveAccessToken(token);
+  };
+
+  const tokenEndpointCalls = () => spyOnFetch.mock.calls.filter((call) => call[0] === `${TEST_BASE_URI}/token`);
+
+  const setVisibility = (visibilityState: DocumentVisibilityState) => {
+    Object.defineProperty(document, "visibilityState", { configurable: true, value: visibilityState });
+    document.dispatchEvent(new Event("visibilitychange"));
+  };
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    client.stopTokenRefresh();
+    setVisibility("visible");
+    localStorage.clear();
+    jest.clearAllMocks();
+  });
+
+  test("refreshes a token that expires within the lead time", async () => {
+    storeToken({ ...TEST_ACCESS_TOKEN_OBJECT, accessToken: "expiring", expiresAt: Math.floor(Date.now() / 1000) + 30 });
+
+    client.startTokenRefresh({ leadTimeSeconds: 60, jitterSeconds: 0 });
+    await Bun.sleep(10);
+
+    expect(tokenEndpointCalls().length).toBe(1);
+    // @ts-expect-error private method call
+    const storedTokens: AccessToken[] = client.storageManager.getAccessTokens();
+    expect(storedTokens.map((token) => token.accessToken)).not.toContain("expiring");
+  });
+
+  test("does not refresh tokens outside the lead time", async () => {
+    storeToken({ ...TEST_ACCESS_TOKEN_OBJECT, expiresAt: Math.floor(Date.now() / 1000) + 600 });
+
+    client.startTokenRefresh({ leadTimeSeconds: 60, jitterSeconds: 0 });
+    await Bun.sleep(10);
+
+    expect(tokenEndpointCalls().length).toBe(0);
+  });
+
+  test("does not refresh tokens without a refresh token", async () => {
+    storeToken({ ...TEST_ACCESS_TOKEN_OBJECT, refreshToken: undefined, expiresAt: Math.floor(Date.now() / 1000) + 30 });
+
+    client.startTokenRefresh({ leadTimeSeconds: 60, jitterSeconds: 0 });
+    await Bun.sleep(10);
+
+    expect(tokenEndpointCalls().length).toBe(0);
+  });
+
+  test("picks up tokens saved after the scheduler started", async () => {
+    client.startTokenRefresh({ leadTimeSeconds: 60, jitterSeconds: 0 });
+    storeToken({ ...TEST_ACCESS_TOKEN_OBJECT, expiresAt: Math.floor(Date.now() / 1000) + 30 });
+    await Bun.sleep(10);
+
+    expect(tokenEndpointCalls().length).toBe(1);
+  });
+
+  test("pauses while the document is hidden and catches up when it becomes visible", async () => {
+    setVisibility("hidden");
+    storeToken({ ...TEST_ACCESS_TOKEN_OBJECT, expiresAt: Math.floor(Date.now() / 1000) + 30 });
+
+    client.startTokenRefresh({ leadTimeSeconds: 60, jitterSeconds: 0 });
+    await Bun.sleep(10);
+    expect(tokenEndpointCalls().length).toBe(0);
+
+    setVisibility("visible");
+    await Bun.sleep(10);
+    expect(tokenEndpointCalls().length).toBe(1);
+  });
+
+  test("does not refresh after being stopped", async () => {
+    client.startTokenRefresh({ leadTimeSeconds: 60, jitterSeconds: 0 });
+    client.stopTokenRefresh();
+    storeToken({ ...TEST_ACCESS_TOKEN_OBJECT, expiresAt: Math.floor(Date.now() / 1000) + 30 });
+    await Bun.sleep(10);
+
+    expect(tokenEndpointCalls().length).toBe(0);
+  });
+
+  test("reports refresh failures to onError", async () => {
+    // @ts-expect-error not full type
+    spyOnFetch.mockImplementationOnce(() => Promise.reject(new Error("network down")));
+    storeToken({ ...TEST_ACCESS_TOKEN_OBJECT, expiresAt: Math.floor(Date.now() / 1000) + 30 });
+    const onError = jest.fn();
+
+    client.startTokenRefresh({ leadTimeSeconds: 60, jitterSeconds: 0, onError });
+    await Bun.sleep(10);
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0]?.[0]).toHaveProperty("cause.message", "network down");
+  });
+
+  test("stops retrying a token once the OP rejects its refresh token", async () => {
+    // @ts-expect-error not full type
+    spyOnFetch.mockImplementationOnce(async () => ({
+      ok: false,
+      status: 400,
+      json: () => Promise.resolve({ error: "invalid_grant" }),
+    }));
+    storeToken({ ...TEST_ACCESS_TOKEN_OBJECT, expiresAt: Math.floor(Date.now() / 1000) + 30 });
+    const onError = jest.fn();
+
+    client.startTokenRefresh({ leadTimeSeconds: 60, jitterSeconds: 0, onError });
+    // Failed refreshes are retried after a second
+    await Bun.sleep(1100);
+
+    expect(tokenEndpointCalls().length).toBe(1);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  test("stops retrying a token once it has expired", async () => {
+    // @ts-expect-error not full type
+    spyOnFetch.mockImplementationOnce(() => Promise.reject(new Error("network down")));
+    storeToken({ ...TEST_ACCESS_TOKEN_OBJECT, expiresAt: Math.floor(Date.now() / 1000) - 30 });
+    const onError = jest.fn();
+
+    client.startTokenRefresh({ leadTimeSeconds: 60, jitterSeconds: 0, onError });
+    await Bun.sleep(1100);
+
+    expect(tokenEndpointCalls().length).toBe(1);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+});
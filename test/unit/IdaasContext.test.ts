@@ -1,10 +1,14 @@
-import { describe, expect, test } from "bun:test";
+import { afterEach, beforeEach, describe, expect, jest, spyOn, test } from "bun:test";
+import { exportJWK, generateKeyPair, type JWK, jwtVerify, SignJWT } from "jose";
+import { DiscoveryError, type IdaasEnvironment } from "../../src";
 import { IdaasContext } from "../../src/IdaasContext";
+import { StorageManager } from "../../src/storage/StorageManager";
 import { retrievePersistedDpopKeyMaterial } from "../../src/utils/dpopKeyStore";
-import { TEST_BASE_URI, TEST_CLIENT_ID } from "./constants";
+import { TEST_BASE_URI, TEST_CLIENT_ID, TEST_ISSUER_URI, TEST_JWKS_ENDPOINT, TEST_OIDC_CONFIG } from "./constants";
+import { mockFetch } from "./helpers";
 
 describe("IdaasContext", () => {
-  const createContext = () =>
+  const createContext = (environment?: IdaasEnvironment) =>
     new IdaasContext({
       issuerUrl: TEST_BASE_URI,
       clientId: TEST_CLIENT_ID,
@@ -13,7 +17,9 @@ describe("IdaasContext", () => {
         acrValues: "",
         useRefreshToken: false,
         includeOpenidScope: true,
+        requirePushedAuthorizationRequests: false,
       },
+      environment,
     });
 
   test("persists key material for the requested algorithm after another algorithm is used", async () => {
@@ -31,4 +37,227 @@ describe("IdaasContext", () => {
 
     expect(persistedKeyMaterial?.alg).toBe("ES256");
   });
+
+  describe("getConfig", () => {
+    const tokenOptions = {
+      scope: "openid profile email",
+      acrValues: "",
+      useRefreshToken: false,
+      includeOpenidScope: true,
+      requirePushedAuthorizationRequests: false,
+    };
+    // @ts-expect-error not full type
+    const spyOnFetch = spyOn(window, "fetch").mockImplementation(mockFetch);
+
+    afterEach(() => {
+      localStorage.clear();
+      jest.clearAllMocks();
+      // @ts-expect-error not full type
+      spyOnFetch.mockImplementation(mockFetch);
+    });
+
+    test("uses static metadata without discovery", async () => {
+      const context = new IdaasContext({
+        issuerUrl: TEST_ISSUER_URI,
+        clientId: TEST_CLIENT_ID,
+        tokenOptions,
+        metadata: TEST_OIDC_CONFIG,
+      });
+
+      expect(await context.getConfig()).toEqual(TEST_OIDC_CONFIG);
+      expect(spyOnFetch).not.toHaveBeenCalled();
+    });
+
+    test("rejects static metadata of another issuer", async () => {
+      const context = new IdaasContext({
+        issuerUrl: TEST_BASE_URI,
+        clientId: TEST_CLIENT_ID,
+        tokenOptions,
+        metadata: TEST_OIDC_CONFIG,
+      });
+
+      await expect(context.getConfig()).rejects.toBeInstanceOf(DiscoveryError);
+    });
+
+    test("reuses discovered metadata cached in storage until it expires", async () => {
+      const createCachingContext = () =>
+        new IdaasContext({
+          issuerUrl: TEST_ISSUER_URI,
+          clientId: TEST_CLIENT_ID,
+          tokenOptions,
+          discoveryCacheTtl: 3600,
+          storageManager: new StorageManager(TEST_CLIENT_ID, "localstorage"),
+        });
+
+      await createCachingContext().getConfig();
+      expect(await createCachingContext().getConfig()).toEqual(TEST_OIDC_CONFIG);
+      expect(spyOnFetch).toHaveBeenCalledTimes(1);
+
+      const now = Date.now();
+      const spyOnNow = spyOn(Date, "now").mockImplementation(() => now + 3601 * 1000);
+      await createCachingContext().getConfig();
+      spyOnNow.mockRestore();
+      expect(spyOnFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test("retries discovery after a failure", async () => {
+      const context = new IdaasContext({ issuerUrl: TEST_ISSUER_URI, clientId: TEST_CLIENT_ID, tokenOptions });
+      spyOnFetch.mockImplementationOnce(
+        // @ts-expect-error not full type
+        async () => ({ ok: false, status: 503 }),
+      );
+
+      await expect(context.getConfig()).rejects.toThrow("status 503");
+      expect(await context.getConfig()).toEqual(TEST_OIDC_CONFIG);
+    });
+  });
+
+  describe("getJwks", () => {
+    const tokenOptions = {
+      scope: "openid profile email",
+      acrValues: "",
+      useRefreshToken: false,
+      includeOpenidScope: true,
+      requirePushedAuthorizationRequests: false,
+    };
+
+    const createSigningKey = async (kid: string) => {
+      const { privateKey, publicKey } = await generateKeyPair("ES256", { extractable: true });
+      const publicJwk: JWK = { ...(await exportJWK(publicKey)), kid, alg: "ES256" };
+      const sign = () =>
+        new SignJWT({ sub: "user" })
+          .setProtectedHeader({ alg: "ES256", kid })
+          .setIssuer(TEST_ISSUER_URI)
+          .setAudience(TEST_CLIENT_ID)
+          .setExpirationTime("5m")
+          .sign(privateKey);
+      return { publicJwk, sign };
+    };
+
+    let publishedKeys: JWK[] = [];
+    const spyOnFetch = spyOn(window, "fetch");
+    const jwksRequests = () => spyOnFetch.mock.calls.filter((call) => call[0] === TEST_JWKS_ENDPOINT);
+
+    beforeEach(() => {
+      spyOnFetch.mockImplementation(
+        // @ts-expect-error not full type
+        async (url: string) => {
+          if (url === TEST_JWKS_ENDPOINT) {
+            return { ok: true, json: () => Promise.resolve({ keys: publishedKeys }) };
+          }
+          return await mockFetch(url);
+        },
+      );
+    });
+
+    afterEach(() => {
+      localStorage.clear();
+      jest.clearAllMocks();
+      publishedKeys = [];
+    });
+
+    test("verifies tokens with pinned keys without fetching them", async () => {
+      const key = await createSigningKey("pinned");
+      const context = new IdaasContext({
+        issuerUrl: TEST_ISSUER_URI,
+        clientId: TEST_CLIENT_ID,
+        tokenOptions,
+        jwks: { keys: [key.publicJwk] },
+      });
+
+      const { payload } = await jwtVerify(await key.sign(), context.getJwks());
+
+      expect(payload.sub).toBe("user");
+      expect(spyOnFetch).not.toHaveBeenCalled();
+    });
+
+    test("fetches the keys once for every validation", async () => {
+      const key = await createSigningKey("key-1");
+      publishedKeys = [key.publicJwk];
+      const context = new IdaasContext({ issuerUrl: TEST_ISSUER_URI, clientId: TEST_CLIENT_ID, tokenOptions });
+
+      await jwtVerify(await key.sign(), context.getJwks());
+      await jwtVerify(await key.sign(), context.getJwks());
+
+      expect(jwksRequests()).toHaveLength(1);
+    });
+
+    test("fetches the keys again for a token signed with an unknown key once the cooldown has passed", async () => {
+      const oldKey = await createSigningKey("key-1");
+      const newKey = await createSigningKey("key-2");
+      publishedKeys = [oldKey.publicJwk];
+      const context = new IdaasContext({ issuerUrl: TEST_ISSUER_URI, clientId: TEST_CLIENT_ID, tokenOptions });
+      await jwtVerify(await oldKey.sign(), context.getJwks());
+
+      publishedKeys = [newKey.publicJwk];
+      const newToken = await newKey.sign();
+      await expect(jwtVerify(newToken, context.getJwks())).rejects.toThrow("no applicable key found");
+      expect(jwksRequests()).toHaveLength(1);
+
+      const now = Date.now();
+      const spyOnNow = spyOn(Date, "now").mockImplementation(() => now + 31 * 1000);
+      const { payload } = await jwtVerify(newToken, context.getJwks());
+      spyOnNow.mockRestore();
+
+      expect(payload.sub).toBe("user");
+      expect(jwksRequests()).toHaveLength(2);
+    });
+
+    test("reuses keys cached in storage", async () => {
+      const key = await createSigningKey("key-1");
+      publishedKeys = [key.publicJwk];
+      const createCachingContext = () =>
+        new IdaasContext({
+          issuerUrl: TEST_ISSUER_URI,
+          clientId: TEST_CLIENT_ID,
+          tokenOptions,
+          jwksCacheTtl: 3600,
+          storageManager: new StorageManager(TEST_CLIENT_ID, "localstorage"),
+        });
+
+      await jwtVerify(await key.sign(), createCachingContext().getJwks());
+      await jwtVerify(await key.sign(), createCachingContext().getJwks());
+
+      expect(jwksRequests()).toHaveLength(1);
+    });
+  });
+
+  describe("environment", () => {
+    test("reads the origin and RP ID of the current page by default", () => {
+      const context = createContext();
+
+      expect(context.getOrigin()).toBe(window.location.origin);
+      expect(context.getRpId()).toBe(window.location.hostname);
+    });
+
+    test("derives the RP ID from the provided origin", () => {
+      const context = createContext({ getOrigin: () => "https://app.example.com:8443" });
+
+      expect(context.getOrigin()).toBe("https://app.example.com:8443");
+      expect(context.getRpId()).toBe("app.example.com");
+    });
+
+    test("prefers the provided RP ID", () => {
+      const context = createContext({ getOrigin: () => "https://login.app.example.com", getRpId: () => "example.com" });
+
+      expect(context.getRpId()).toBe("example.com");
+    });
+
+    test("uses the provided crypto for its own DPoP keys only", async () => {
+      const generateKey = jest.fn((...args: Parameters<SubtleCrypto["generateKey"]>) =>
+        crypto.subtle.generateKey(...args),
+      );
+      const providedCrypto = { subtle: { generateKey }, randomUUID: () => crypto.randomUUID() } as unknown as Crypto;
+      const context = createContext({ crypto: providedCrypto });
+      const otherContext = createContext();
+
+      await otherContext.getDpopJkt({ alg: "ES256", includeJkt: true });
+      expect(generateKey).not.toHaveBeenCalled();
+
+      await context.getDpopJkt({ alg: "ES256", includeJkt: true });
+      expect(context.crypto).toBe(providedCrypto);
+      expect(otherContext.crypto).toBe(globalThis.crypto);
+      expect(generateKey).toHaveBeenCalledTimes(1);
+    });
+  });
 });
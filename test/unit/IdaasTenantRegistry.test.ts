@@ -0,0 +1,140 @@
+import { afterAll, afterEach, describe, expect, jest, spyOn, test } from "bun:test";
+import { IdaasTenantRegistry } from "../../src";
+import type { IdaasClient } from "../../src/IdaasClient";
+import type { AccessToken } from "../../src/storage/StorageManager";
+import {
+  TEST_ACCESS_TOKEN,
+  TEST_ACCESS_TOKEN_OBJECT,
+  TEST_AUDIENCE,
+  TEST_CLIENT_ID,
+  TEST_DIFFERENT_ACCESS_TOKEN,
+  TEST_ID_TOKEN_OBJECT,
+  TEST_ISSUER_URI,
+} from "./constants";
+import { mockFetch } from "./helpers";
+
+const OTHER_ISSUER_URI = "https://other.testing.com/issuer";
+
+describe("IdaasTenantRegistry", () => {
+  // @ts-expect-error not full type
+  spyOn(window, "fetch").mockImplementation(mockFetch);
+
+  // Both tenants use the same client ID, so only the issuer tells their sessions apart
+  const createRegistry = () =>
+    new IdaasTenantRegistry({
+      storageType: "sessionstorage",
+      tenants: {
+        acme: {
+          options: { issuerUrl: TEST_ISSUER_URI, clientId: TEST_CLIENT_ID, storageType: "localstorage" },
+          tokenOptions: { audience: TEST_AUDIENCE },
+        },
+        globex: {
+          options: { issuerUrl: OTHER_ISSUER_URI, clientId: TEST_CLIENT_ID, storageType: "localstorage" },
+          tokenOptions: { audience: TEST_AUDIENCE },
+        },
+      },
+    });
+
+  const storeSession = (client: IdaasClient, accessToken: AccessToken) => {
+    // @ts-expect-error private method call
+    client.storageManager.saveIdToken(TEST_ID_TOKEN_OBJECT);
+    // @ts-expect-error private method call
+    client.storageManager.saveAccessToken(accessToken);
+  };
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    jest.clearAllMocks();
+  });
+
+  test("namespaces each tenant's storage by issuer and client ID", () => {
+    const registry = createRegistry();
+
+    storeSession(registry.getClient("acme"), TEST_ACCESS_TOKEN_OBJECT);
+
+    const namespace = `${encodeURIComponent(TEST_ISSUER_URI)}|${encodeURIComponent(TEST_CLIENT_ID)}`;
+    expect(localStorage.getItem(`entrust.${namespace}.accessTokens`)).not.toBeNull();
+    expect(localStorage.getItem(`entrust.${TEST_CLIENT_ID}.accessTokens`)).toBeNull();
+    expect(registry.getClient("acme").isAuthenticated()).toBe(true);
+    expect(registry.getClient("globex").isAuthenticated()).toBe(false);
+  });
+
+  test("keeps tenants apart whose issuer and client ID only differ in where they are split", () => {
+    const registry = new IdaasTenantRegistry({
+      tenants: {
+        initech: {
+          options: { issuerUrl: "https://login.testing.com/a", clientId: "b.c", storageType: "localstorage" },
+        },
+        hooli: { options: { issuerUrl: "https://login.testing.com/a.b", clientId: "c", storageType: "localstorage" } },
+      },
+    });
+
+    storeSession(registry.getClient("initech"), TEST_ACCESS_TOKEN_OBJECT);
+
+    expect(registry.getClient("initech").isAuthenticated()).toBe(true);
+    expect(registry.getClient("hooli").isAuthenticated()).toBe(false);
+  });
+
+  test("remembers the active tenant across registries", () => {
+    const registry = createRegistry();
+    const onTenantChange = jest.fn();
+    registry.onTenantChange(onTenantChange);
+
+    const client = registry.switchTenant("globex");
+    registry.switchTenant("globex");
+
+    expect(client).toBe(registry.getClient("globex"));
+    expect(registry.client).toBe(client);
+    expect(onTenantChange.mock.calls).toEqual([["globex"]]);
+    expect(createRegistry().activeTenantId).toBe("globex");
+  });
+
+  test("routes getAccessToken and logout to the active tenant unless a tenant is given", async () => {
+    const registry = createRegistry();
+    storeSession(registry.getClient("acme"), TEST_ACCESS_TOKEN_OBJECT);
+    storeSession(registry.getClient("globex"), {
+      ...TEST_ACCESS_TOKEN_OBJECT,
+      accessToken: TEST_DIFFERENT_ACCESS_TOKEN,
+    });
+    registry.switchTenant("acme");
+
+    expect(await registry.getAccessToken()).toBe(TEST_ACCESS_TOKEN);
+    expect(await registry.getAccessToken({ tenantId: "globex" })).toBe(TEST_DIFFERENT_ACCESS_TOKEN);
+
+    await registry.logout({ localOnly: true });
+
+    expect(registry.getClient("acme").isAuthenticated()).toBe(false);
+    expect(registry.getClient("globex").isAuthenticated()).toBe(true);
+  });
+
+  test("throws for unknown tenants and when no tenant is active", () => {
+    const registry = createRegistry();
+
+    expect(() => registry.client).toThrow("No tenant is active");
+    expect(() => registry.switchTenant("initech")).toThrow("Tenant initech is not registered");
+    expect(() => registry.register("acme", { issuerUrl: TEST_ISSUER_URI, clientId: TEST_CLIENT_ID })).toThrow(
+      "Tenant acme is already registered",
+    );
+  });
+
+  test("leaves no tenant active once the active tenant is removed", () => {
+    const registry = createRegistry();
+    registry.switchTenant("acme");
+    const onTenantChange = jest.fn();
+    registry.onTenantChange(onTenantChange);
+
+    const spyOnDispose = spyOn(registry.getClient("acme"), "dispose");
+
+    registry.unregister("acme");
+
+    expect(spyOnDispose).toHaveBeenCalledTimes(1);
+    expect(registry.tenantIds).toEqual(["globex"]);
+    expect(registry.activeTenantId).toBeUndefined();
+    expect(onTenantChange).toHaveBeenCalledWith(undefined);
+  });
+});
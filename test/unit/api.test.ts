@@ -1,5 +1,15 @@
 import { describe, expect, it, spyOn } from "bun:test";
-import { fetchOpenidConfiguration, getUserInfo, requestToken } from "../../src/api";
+import {
+  fetchJwks,
+  fetchOpenidConfiguration,
+  getUserInfo,
+  type OidcConfig,
+  requestAuthChallenge,
+  requestToken,
+  revokeToken,
+  validateOidcConfig,
+} from "../../src/api";
+import { DiscoveryError, IdaasApiError, NetworkError, OAuthError } from "../../src/errors";
 
 describe("api.ts", () => {
   describe("fetchOpenidConfiguration", () => {
@@ -26,24 +36,91 @@ describe("api.ts", () => {
       expect(expectedUrl).toBe("https://example.com/.well-known/openid-configuration");
     });
 
+    const oidcConfig = {
+      issuer: "https://example.com",
+      authorization_endpoint: "https://example.com/authorize",
+      token_endpoint: "https://example.com/token",
+      jwks_uri: "https://example.com/jwks",
+    };
+
     it("should be callable and return a promise", async () => {
       // Mock fetch to avoid actual network requests in tests
       const mockFetch = spyOn(globalThis, "fetch").mockResolvedValueOnce({
         ok: true,
-        json: async () => ({ issuer: "https://example.com" }),
+        json: async () => oidcConfig,
       } as Response);
 
       const result = fetchOpenidConfiguration("https://example.com");
       expect(result).toBeInstanceOf(Promise);
+      expect(await result).toEqual(oidcConfig as OidcConfig);
 
       // Clean up
       mockFetch.mockRestore();
     });
+
+    it("throws a DiscoveryError for an unsuccessful response", async () => {
+      const fetchSpy = spyOn(globalThis, "fetch").mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        json: async () => ({}),
+      } as Response);
+
+      const error = await fetchOpenidConfiguration("https://example.com").catch((e) => e);
+
+      expect(error).toBeInstanceOf(DiscoveryError);
+      expect(error.message).toContain("status 404");
+      fetchSpy.mockRestore();
+    });
+
+    it("throws a DiscoveryError when the issuer does not match", async () => {
+      const fetchSpy = spyOn(globalThis, "fetch").mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ ...oidcConfig, issuer: "https://attacker.example" }),
+      } as Response);
+
+      await expect(fetchOpenidConfiguration("https://example.com")).rejects.toThrow(
+        'issuer "https://attacker.example" does not match',
+      );
+      fetchSpy.mockRestore();
+    });
+
+    it("throws a DiscoveryError when a required endpoint is missing", () => {
+      expect(() => validateOidcConfig({ ...oidcConfig, token_endpoint: undefined }, "https://example.com")).toThrow(
+        "missing the token_endpoint",
+      );
+    });
+  });
+
+  describe("fetchJwks", () => {
+    it("returns the key set", async () => {
+      const jwks = { keys: [{ kty: "EC", kid: "key-1", crv: "P-256", x: "x", y: "y" }] };
+      const fetchSpy = spyOn(globalThis, "fetch").mockResolvedValueOnce({
+        ok: true,
+        json: async () => jwks,
+      } as Response);
+
+      expect(await fetchJwks("https://example.com/jwks")).toEqual(jwks);
+      fetchSpy.mockRestore();
+    });
+
+    it("throws a DiscoveryError for a response that is not a key set", async () => {
+      const fetchSpy = spyOn(globalThis, "fetch").mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ keys: "none" }),
+      } as Response);
+
+      const error = await fetchJwks("https://example.com/jwks").catch((e) => e);
+
+      expect(error).toBeInstanceOf(DiscoveryError);
+      expect(error.message).toContain("not a JSON Web Key Set");
+      fetchSpy.mockRestore();
+    });
   });
 
   describe("requestToken", () => {
     it("includes DPoP header when dpop proof is provided", async () => {
       const fetchSpy = spyOn(globalThis, "fetch").mockResolvedValueOnce({
+        ok: true,
         json: async () => ({ access_token: "a", token_type: "DPoP", expires_in: "300" }),
         headers: {
           get: () => null,
@@ -64,11 +141,136 @@ describe("api.ts", () => {
       expect(headers.DPoP).toBe("signed-dpop-proof");
       fetchSpy.mockRestore();
     });
+
+    it("sends one resource param per resource indicator", async () => {
+      const fetchSpy = spyOn(globalThis, "fetch").mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ access_token: "a", token_type: "Bearer", expires_in: "300" }),
+      } as unknown as Response);
+
+      await requestToken("https://example.com/token", {
+        grant_type: "refresh_token",
+        client_id: "client",
+        refresh_token: "refresh",
+        resource: ["https://api.example.com/orders", "https://api.example.com/billing"],
+      });
+
+      const body = fetchSpy.mock.calls[0]?.[1]?.body as URLSearchParams;
+      expect(body.getAll("resource")).toEqual(["https://api.example.com/orders", "https://api.example.com/billing"]);
+      expect(body.get("refresh_token")).toBe("refresh");
+      fetchSpy.mockRestore();
+    });
+
+    it("throws an OAuthError with the details of an error response", async () => {
+      const fetchSpy = spyOn(globalThis, "fetch").mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        json: async () => ({
+          error: "invalid_grant",
+          error_description: "Refresh token expired",
+          error_uri: "https://example.com/errors/invalid_grant",
+        }),
+      } as unknown as Response);
+
+      const error = await requestToken("https://example.com/token", {
+        grant_type: "refresh_token",
+        client_id: "client",
+        refresh_token: "refresh",
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(OAuthError);
+      expect(error).toMatchObject({
+        error: "invalid_grant",
+        error_description: "Refresh token expired",
+        error_uri: "https://example.com/errors/invalid_grant",
+        status: 400,
+        message: "Refresh token expired",
+      });
+      fetchSpy.mockRestore();
+    });
+
+    it("throws a NetworkError when the request cannot be sent", async () => {
+      const cause = new TypeError("Failed to fetch");
+      const fetchSpy = spyOn(globalThis, "fetch").mockRejectedValueOnce(cause);
+
+      const error = await requestToken("https://example.com/token", {
+        grant_type: "refresh_token",
+        client_id: "client",
+        refresh_token: "refresh",
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.cause).toBe(cause);
+      fetchSpy.mockRestore();
+    });
+  });
+
+  describe("revokeToken", () => {
+    it("throws a server_error OAuthError when the error response has no OAuth body", async () => {
+      const fetchSpy = spyOn(globalThis, "fetch").mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        json: async () => {
+          throw new SyntaxError("Unexpected end of JSON input");
+        },
+      } as unknown as Response);
+
+      const error = await revokeToken("https://example.com/revoke", {
+        token: "refresh",
+        token_type_hint: "refresh_token",
+        client_id: "client",
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(OAuthError);
+      expect(error).toMatchObject({ error: "server_error", status: 503 });
+      expect(error.message).toBe("Token revocation failed with status 503");
+      fetchSpy.mockRestore();
+    });
+  });
+
+  describe("requestAuthChallenge", () => {
+    it("throws an IdaasApiError with the details of an error response", async () => {
+      const fetchSpy = spyOn(globalThis, "fetch").mockResolvedValueOnce(
+        new Response(JSON.stringify({ errorCode: "user_locked", errorMessage: "The user is locked" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }),
+      );
+
+      const error = await requestAuthChallenge(
+        { userId: "user", applicationId: "application" },
+        "PASSWORD",
+        "https://example.com",
+      ).catch((e) => e);
+
+      expect(error).toBeInstanceOf(IdaasApiError);
+      expect(error).toMatchObject({
+        errorCode: "user_locked",
+        errorMessage: "The user is locked",
+        status: 400,
+        message: "The user is locked",
+      });
+      fetchSpy.mockRestore();
+    });
+
+    it("throws a NetworkError when the request cannot be sent", async () => {
+      const fetchSpy = spyOn(globalThis, "fetch").mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+      const error = await requestAuthChallenge(
+        { userId: "user", applicationId: "application" },
+        "PASSWORD",
+        "https://example.com",
+      ).catch((e) => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      fetchSpy.mockRestore();
+    });
   });
 
   describe("getUserInfo", () => {
     it("uses DPoP auth scheme and header when proof is provided", async () => {
       const fetchSpy = spyOn(globalThis, "fetch").mockResolvedValueOnce({
+        ok: true,
         text: async () => "{}",
       } as unknown as Response);
 
@@ -79,5 +281,19 @@ describe("api.ts", () => {
       expect(headers.DPoP).toBe("dpop-proof");
       fetchSpy.mockRestore();
     });
+
+    it("throws an OAuthError when the OP rejects the access token", async () => {
+      const fetchSpy = spyOn(globalThis, "fetch").mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: async () => ({ error: "invalid_token", error_description: "The access token expired" }),
+      } as unknown as Response);
+
+      const error = await getUserInfo("https://example.com/userinfo", "access-token").catch((e) => e);
+
+      expect(error).toBeInstanceOf(OAuthError);
+      expect(error).toMatchObject({ error: "invalid_token", status: 401 });
+      fetchSpy.mockRestore();
+    });
   });
 });
@@ -1,4 +1,5 @@
 import { beforeEach, describe, expect, it, mock } from "bun:test";
+import { PopupError } from "../../src/errors";
 import { browserSupportsPasskey, openPopup } from "../../src/utils/browser";
 
 describe("browser.ts", () => {
@@ -64,6 +65,7 @@ describe("browser.ts", () => {
       window.open = windowOpenMock as unknown as typeof window.open;
 
       expect(() => openPopup("https://example.com")).toThrow("Unable to open popup, blocked by browser");
+      expect(() => openPopup("https://example.com")).toThrow(PopupError);
 
       // Restore
       window.open = originalWindowOpen;
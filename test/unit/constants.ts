@@ -1,8 +1,14 @@
-import type { JWTPayload } from "jose";
+import { createLocalJWKSet, type JWTPayload } from "jose";
 import { IdaasClient } from "../../src";
 import type { OidcConfig, TokenResponse } from "../../src/api";
 import type { AuthorizeResponse } from "../../src/models";
-import type { AccessToken, ClientParams, IdToken, TokenParams } from "../../src/storage/StorageManager";
+import type {
+  AccessToken,
+  ClientParams,
+  IdToken,
+  PendingAuthorization,
+  TokenParams,
+} from "../../src/storage/StorageManager";
 import type { ValidateIdTokenParams, ValidateUserInfoTokenParams } from "../../src/utils/jwt";
 
 export const TEST_BASE_URI = "https://testing.com";
@@ -82,11 +88,14 @@ export const TEST_JWT_PAYLOAD: JWTPayload = {
   azp: TEST_CLIENT_ID,
 };
 
+// An empty key set, tests that verify signatures mock jwtVerify or provide their own keys
+export const TEST_JWKS = createLocalJWKSet({ keys: [] });
+
 export const TEST_VALIDATE_USER_INFO_PARAMS: ValidateUserInfoTokenParams = {
   userInfoToken: "adsa",
   issuer: TEST_ISSUER_URI,
   clientId: TEST_CLIENT_ID,
-  jwksEndpoint: TEST_JWKS_ENDPOINT,
+  jwks: TEST_JWKS,
 };
 
 export const TEST_VALIDATE_ID_TOKEN_PARAMS: ValidateIdTokenParams = {
@@ -96,7 +105,7 @@ export const TEST_VALIDATE_ID_TOKEN_PARAMS: ValidateIdTokenParams = {
   nonce: TEST_NONCE,
   idTokenSigningAlgValuesSupported: TEST_ID_TOKEN_SIGNING_ALG_SUPPORTED,
   acrValuesSupported: TEST_ACR_SUPPORTED,
-  jwksEndpoint: TEST_JWKS_ENDPOINT,
+  jwks: TEST_JWKS,
 };
 
 export const TEST_ID_TOKEN_OBJECT: IdToken = {
@@ -112,13 +121,14 @@ export const TEST_OIDC_CONFIG: OidcConfig = {
   jwks_uri: TEST_JWKS_ENDPOINT,
   registration_endpoint: `${TEST_BASE_URI}/registration`,
   scopes_supported: ["openid", "profile", "email", "offline_access"],
-  response_modes_supported: ["query", "web_message"],
+  response_modes_supported: ["query", "fragment", "web_message"],
   grant_types_supported: ["0", "1", "2", "3"],
   acr_values_supported: TEST_ACR_SUPPORTED,
   subject_types_supported: ["0", "1", "2", "3"],
   id_token_signing_alg_values_supported: TEST_ID_TOKEN_SIGNING_ALG_SUPPORTED,
   claims_supported: ["0", "1", "2", "3"],
   end_session_endpoint: `${TEST_BASE_URI}/endsession`,
+  revocation_endpoint: `${TEST_BASE_URI}/revoke`,
 };
 
 export const TEST_AUTH_RESPONSE: AuthorizeResponse = {
@@ -151,16 +161,15 @@ export const TEST_ID_PAIR = {
   data: TEST_ID_TOKEN_OBJECT,
 };
 
-export const TEST_CLIENT_PARAMS_KEY = `entrust.${TEST_CLIENT_ID}.clientParams`;
-
-export const TEST_CLIENT_PAIR = {
-  key: TEST_CLIENT_PARAMS_KEY,
-  data: TEST_CLIENT_PARAMS,
+export const TEST_PENDING_AUTHORIZATION: PendingAuthorization = {
+  clientParams: TEST_CLIENT_PARAMS,
+  tokenParams: TEST_TOKEN_PARAMS,
+  expiresAt: Math.floor(Date.now() / 1000) + 600,
 };
 
-export const TEST_TOKEN_PARAMS_KEY = `entrust.${TEST_CLIENT_ID}.tokenParams`;
+export const TEST_PENDING_AUTHORIZATIONS_KEY = `entrust.${TEST_CLIENT_ID}.pendingAuthorizations`;
 
-export const TEST_TOKEN_PAIR = {
-  key: TEST_TOKEN_PARAMS_KEY,
-  data: TEST_TOKEN_PARAMS,
+export const TEST_PENDING_AUTHORIZATIONS_PAIR = {
+  key: TEST_PENDING_AUTHORIZATIONS_KEY,
+  data: { [TEST_STATE]: TEST_PENDING_AUTHORIZATION },
 };
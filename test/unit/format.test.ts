@@ -1,5 +1,5 @@
 import { afterAll, beforeAll, describe, expect, it, setSystemTime } from "bun:test";
-import { calculateEpochExpiry, formatUrl, sanitizeUri } from "../../src/utils/format";
+import { calculateEpochExpiry, formatUrl, sanitizeUri, toResourceList } from "../../src/utils/format";
 
 describe("formatUrl", () => {
   const expected = "https://test.com";
@@ -52,3 +52,25 @@ describe("sanitizeUri", () => {
     expect(sanitizeUri(url)).toBe("https://test.com/");
   });
 });
+
+describe("toResourceList", () => {
+  it("should wrap a single resource", () => {
+    expect(toResourceList("https://api.example.com")).toEqual(["https://api.example.com"]);
+  });
+
+  it("should remove duplicates and empty values", () => {
+    expect(toResourceList(["https://a.example.com", " ", "https://a.example.com", "https://b.example.com"])).toEqual([
+      "https://a.example.com",
+      "https://b.example.com",
+    ]);
+  });
+
+  it("should return an empty list when no resource is given", () => {
+    expect(toResourceList()).toEqual([]);
+  });
+
+  it("should reject relative URIs and fragments", () => {
+    expect(() => toResourceList("/api")).toThrow("must be an absolute URI");
+    expect(() => toResourceList("https://api.example.com#part")).toThrow("must not include a fragment");
+  });
+});
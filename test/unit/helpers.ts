@@ -1,11 +1,18 @@
-import type { AccessToken, ClientParams, IdToken, TokenParams } from "../../src/storage/StorageManager";
+import type {
+  AccessToken,
+  ClientParams,
+  IdToken,
+  PendingAuthorization,
+  TokenParams,
+} from "../../src/storage/StorageManager";
 import {
   TEST_ACCESS_PAIR,
   TEST_BASE_URI,
-  TEST_CLIENT_PAIR,
   TEST_ID_PAIR,
   TEST_OIDC_CONFIG,
-  TEST_TOKEN_PAIR,
+  TEST_PENDING_AUTHORIZATION,
+  TEST_PENDING_AUTHORIZATIONS_KEY,
+  TEST_PENDING_AUTHORIZATIONS_PAIR,
   TEST_TOKEN_RESPONSE,
   TEST_USER_INFO_STR,
 } from "./constants";
@@ -59,6 +66,7 @@ export const mockFetch = async (url: string) => {
   switch (url) {
     case `${TEST_BASE_URI}/token`: {
       return Promise.resolve({
+        ok: true,
         json: () => Promise.resolve(TEST_TOKEN_RESPONSE),
         headers: {
           get: () => null,
@@ -67,11 +75,18 @@ export const mockFetch = async (url: string) => {
     }
     case `${TEST_BASE_URI}/issuer/.well-known/openid-configuration`: {
       return Promise.resolve({
+        ok: true,
         json: () => Promise.resolve(TEST_OIDC_CONFIG),
       });
     }
+    case `${TEST_BASE_URI}/revoke`: {
+      return Promise.resolve({
+        ok: true,
+      });
+    }
     case `${TEST_BASE_URI}/userinfo`: {
       return Promise.resolve({
+        ok: true,
         text: () => Promise.resolve(TEST_USER_INFO_STR),
       });
     }
@@ -81,25 +96,45 @@ export const mockFetch = async (url: string) => {
 interface StoreData {
   idToken?: boolean;
   accessToken?: boolean;
-  clientParams?: boolean;
-  tokenParams?: boolean;
+  pendingAuthorization?: boolean;
 }
 
-export const storeData = ({ idToken, accessToken, clientParams, tokenParams }: StoreData) => {
+export const storeData = ({ idToken, accessToken, pendingAuthorization }: StoreData) => {
   if (idToken) {
     localStorage.setItem(TEST_ID_PAIR.key, JSON.stringify(TEST_ID_PAIR.data));
   }
   if (accessToken) {
     localStorage.setItem(TEST_ACCESS_PAIR.key, JSON.stringify(TEST_ACCESS_PAIR.data));
   }
-  if (clientParams) {
-    localStorage.setItem(TEST_CLIENT_PAIR.key, JSON.stringify(TEST_CLIENT_PAIR.data));
-  }
-  if (tokenParams) {
-    localStorage.setItem(TEST_TOKEN_PAIR.key, JSON.stringify(TEST_TOKEN_PAIR.data));
+  if (pendingAuthorization) {
+    localStorage.setItem(TEST_PENDING_AUTHORIZATIONS_PAIR.key, JSON.stringify(TEST_PENDING_AUTHORIZATIONS_PAIR.data));
   }
 };
 
+interface PendingAuthorizationOverrides {
+  clientParams?: Partial<ClientParams>;
+  tokenParams?: Partial<TokenParams>;
+  expiresAt?: number;
+}
+
+/**
+ * Stores a pending authorization next to those already stored, overriding parts of the test pending authorization.
+ */
+export const storePendingAuthorization = ({ clientParams, tokenParams, expiresAt }: PendingAuthorizationOverrides) => {
+  const pendingAuthorization: PendingAuthorization = {
+    clientParams: { ...TEST_PENDING_AUTHORIZATION.clientParams, ...clientParams },
+    tokenParams: { ...TEST_PENDING_AUTHORIZATION.tokenParams, ...tokenParams },
+    expiresAt: expiresAt ?? TEST_PENDING_AUTHORIZATION.expiresAt,
+  };
+  const pendingAuthorizations = JSON.parse(localStorage.getItem(TEST_PENDING_AUTHORIZATIONS_KEY) ?? "{}");
+  pendingAuthorizations[pendingAuthorization.clientParams.state] = pendingAuthorization;
+  localStorage.setItem(TEST_PENDING_AUTHORIZATIONS_KEY, JSON.stringify(pendingAuthorizations));
+};
+
+export const getStoredPendingAuthorizations = (): PendingAuthorization[] => {
+  return Object.values(JSON.parse(localStorage.getItem(TEST_PENDING_AUTHORIZATIONS_KEY) ?? "{}"));
+};
+
 export const getUrlParams = (href: string) => {
   const url = new URL(href);
   const searchParams = url.searchParams;
@@ -113,17 +148,10 @@ export const getUrlParams = (href: string) => {
   return paramData;
 };
 
-export const blockIndexedDb = (): (() => void) => {
+const replaceIndexedDb = (value: unknown): (() => void) => {
   const originalIndexedDb = globalThis.indexedDB;
 
-  Object.defineProperty(globalThis, "indexedDB", {
-    configurable: true,
-    value: {
-      open: () => {
-        throw new Error("IndexedDB blocked");
-      },
-    },
-  });
+  Object.defineProperty(globalThis, "indexedDB", { configurable: true, value });
 
   return () => {
     if (originalIndexedDb) {
@@ -137,3 +165,79 @@ export const blockIndexedDb = (): (() => void) => {
     Reflect.deleteProperty(globalThis, "indexedDB");
   };
 };
+
+export const blockIndexedDb = (): (() => void) =>
+  replaceIndexedDb({
+    open: () => {
+      throw new Error("IndexedDB blocked");
+    },
+  });
+
+/**
+ * Replaces IndexedDB with an in-memory database that supports the requests the SDK makes.
+ * @param failWrites an error every `add` and `put` request fails with, e.g. a `QuotaExceededError`
+ * @returns the object stores by name, and a function that restores the original IndexedDB
+ */
+export const fakeIndexedDb = ({ failWrites }: { failWrites?: Error } = {}) => {
+  const stores = new Map<string, Map<IDBValidKey, unknown>>();
+
+  const request = <T>(run: () => T) => {
+    const req: { result?: T; error?: Error; onsuccess?: () => void; onerror?: () => void } = {};
+    setTimeout(() => {
+      try {
+        req.result = run();
+        req.onsuccess?.();
+      } catch (error) {
+        req.error = error as Error;
+        req.onerror?.();
+      }
+    });
+    return req;
+  };
+
+  const write = (values: Map<IDBValidKey, unknown>, value: unknown, key: IDBValidKey) =>
+    request(() => {
+      if (failWrites) {
+        throw failWrites;
+      }
+      values.set(key, value);
+      return key;
+    });
+
+  const db = {
+    objectStoreNames: { contains: (name: string) => stores.has(name) },
+    createObjectStore: (name: string) => stores.set(name, new Map()),
+    close: () => undefined,
+    transaction: (name: string) => {
+      const values = stores.get(name);
+      if (!values) {
+        throw new DOMException(`No objectStore named ${name}`, "NotFoundError");
+      }
+
+      return {
+        objectStore: () => ({
+          get: (key: IDBValidKey) => request(() => values.get(key)),
+          add: (value: unknown, key: IDBValidKey) => write(values, value, key),
+          put: (value: { id: string }, key?: IDBValidKey) => write(values, value, key ?? value.id),
+          delete: (key: IDBValidKey) => request(() => values.delete(key)),
+        }),
+        set oncomplete(callback: () => void) {
+          setTimeout(callback);
+        },
+      };
+    },
+  };
+
+  const restore = replaceIndexedDb({
+    open: () => {
+      const openRequest: { result: typeof db; onupgradeneeded?: () => void; onsuccess?: () => void } = { result: db };
+      setTimeout(() => {
+        openRequest.onupgradeneeded?.();
+        openRequest.onsuccess?.();
+      });
+      return openRequest;
+    },
+  });
+
+  return { stores, restore };
+};
@@ -0,0 +1,169 @@
+import { afterAll, afterEach, beforeAll, describe, expect, jest, spyOn, test } from "bun:test";
+import { StorageManager } from "../../../src/storage/StorageManager";
+import { EncryptedStore, StorageDecryptionError } from "../../../src/storage/stores";
+import * as storageKeyStore from "../../../src/utils/storageKeyStore";
+import { getAccessToken, getIdToken } from "../helpers";
+
+const generateKey = async () => {
+  return await window.crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+};
+
+describe("EncryptedStore", () => {
+  const values = new Map<string, string>();
+  const innerStore = {
+    get: (key: string) => values.get(key) ?? null,
+    save: (key: string, data: string) => {
+      values.set(key, data);
+    },
+    delete: (key: string) => {
+      values.delete(key);
+    },
+  };
+  let key: CryptoKey;
+
+  beforeAll(async () => {
+    key = await generateKey();
+  });
+
+  afterEach(() => {
+    values.clear();
+  });
+
+  test("round-trips values without storing the plaintext", async () => {
+    const store = new EncryptedStore(innerStore, async () => key);
+
+    await store.save("entrust.client.idToken", "secret-id-token");
+
+    expect(values.get("entrust.client.idToken")).not.toContain("secret-id-token");
+    expect(await store.get("entrust.client.idToken")).toBe("secret-id-token");
+  });
+
+  test("returns null for missing values", async () => {
+    const store = new EncryptedStore(innerStore, async () => key);
+
+    expect(await store.get("entrust.client.idToken")).toBeNull();
+  });
+
+  test("loads the key once", async () => {
+    const loadKey = jest.fn(async () => key);
+    const store = new EncryptedStore(innerStore, loadKey);
+
+    await store.save("a", "1");
+    await store.save("b", "2");
+    await store.get("a");
+
+    expect(loadKey).toHaveBeenCalledTimes(1);
+  });
+
+  test("rejects tampered values", async () => {
+    const store = new EncryptedStore(innerStore, async () => key);
+    await store.save("entrust.client.idToken", "secret-id-token");
+
+    const encrypted = values.get("entrust.client.idToken") ?? "";
+    values.set("entrust.client.idToken", `${encrypted.slice(0, -4)}AAAA`);
+
+    await expect(store.get("entrust.client.idToken")).rejects.toBeInstanceOf(StorageDecryptionError);
+  });
+
+  test("rejects values moved to another key", async () => {
+    const store = new EncryptedStore(innerStore, async () => key);
+    await store.save("entrust.client.idToken", "secret-id-token");
+
+    values.set("entrust.client.accessTokens", values.get("entrust.client.idToken") ?? "");
+
+    await expect(store.get("entrust.client.accessTokens")).rejects.toBeInstanceOf(StorageDecryptionError);
+  });
+
+  test("rejects values encrypted under another key", async () => {
+    await new EncryptedStore(innerStore, async () => await generateKey()).save("entrust.client.idToken", "secret");
+
+    const store = new EncryptedStore(innerStore, async () => key);
+
+    await expect(store.get("entrust.client.idToken")).rejects.toBeInstanceOf(StorageDecryptionError);
+  });
+
+  test("rejects unencrypted values", async () => {
+    values.set("entrust.client.idToken", JSON.stringify(getIdToken()));
+    const store = new EncryptedStore(innerStore, async () => key);
+
+    await expect(store.get("entrust.client.idToken")).rejects.toBeInstanceOf(StorageDecryptionError);
+  });
+});
+
+describe("StorageManager with encryptStorage", () => {
+  const spyOnLoadKey = spyOn(storageKeyStore, "loadStorageEncryptionKey");
+
+  beforeAll(async () => {
+    const key = await generateKey();
+    spyOnLoadKey.mockImplementation(async () => key);
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    spyOnLoadKey.mockClear();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("writes encrypted values to localStorage", async () => {
+    const sm = new StorageManager("test-client", "localstorage", undefined, true);
+    await sm.ready();
+
+    const accessToken = getAccessToken();
+    sm.saveAccessToken(accessToken);
+    await sm.flush();
+
+    const stored = localStorage.getItem("entrust.test-client.accessTokens");
+    expect(stored).not.toBeNull();
+    expect(stored).not.toContain(accessToken.accessToken);
+
+    const reloaded = new StorageManager("test-client", "localstorage", undefined, true);
+    await reloaded.ready();
+    expect(reloaded.getAccessTokens()).toStrictEqual([accessToken]);
+  });
+
+  test("clears the session when a stored value cannot be decrypted", async () => {
+    const sm = new StorageManager("test-client", "localstorage", undefined, true);
+    await sm.ready();
+    sm.saveAccessToken(getAccessToken());
+    sm.saveIdToken(getIdToken());
+    await sm.flush();
+
+    localStorage.setItem("entrust.test-client.idToken", "tampered");
+
+    const reloaded = new StorageManager("test-client", "localstorage", undefined, true);
+    await reloaded.ready();
+    await reloaded.flush();
+
+    expect(reloaded.getAccessTokens()).toEqual([]);
+    expect(reloaded.getIdToken()).toBeUndefined();
+    expect(localStorage.getItem("entrust.test-client.accessTokens")).toBeNull();
+    expect(localStorage.getItem("entrust.test-client.idToken")).toBeNull();
+  });
+
+  test("drops cached OP metadata that cannot be decrypted, so later sessions are kept", async () => {
+    localStorage.setItem("entrust.test-client.oidcConfig", "tampered");
+    localStorage.setItem("entrust.test-client.jwks", "tampered");
+
+    const accessToken = getAccessToken();
+    const sm = new StorageManager("test-client", "localstorage", undefined, true);
+    await sm.ready();
+    sm.saveAccessToken(accessToken);
+    await sm.flush();
+
+    expect(localStorage.getItem("entrust.test-client.oidcConfig")).toBeNull();
+    expect(localStorage.getItem("entrust.test-client.jwks")).toBeNull();
+
+    const reloaded = new StorageManager("test-client", "localstorage", undefined, true);
+    await reloaded.ready();
+    expect(reloaded.getAccessTokens()).toStrictEqual([accessToken]);
+  });
+
+  test("does not encrypt memory storage", async () => {
+    new StorageManager("test-client", "memory", undefined, true);
+
+    expect(spyOnLoadKey).not.toHaveBeenCalled();
+  });
+});
@@ -1,8 +1,42 @@
-import { describe, expect, it } from "bun:test";
+import { afterEach, describe, expect, it, jest } from "bun:test";
+import { IdaasClient } from "../../../src";
+import type { Store } from "../../../src/models";
 import { StorageManager } from "../../../src/storage/StorageManager";
+import { StorageWriteError } from "../../../src/storage/stores";
+import { TEST_CLIENT_ID, TEST_ISSUER_URI } from "../constants";
+import { getAccessToken, getClientParams, getIdToken, getTokenParams } from "../helpers";
+
+class AsyncMapStore implements Store {
+  readonly values = new Map<string, string>();
+  readonly writes: string[] = [];
+
+  async get(key: string) {
+    await Bun.sleep(1);
+    return this.values.get(key) ?? null;
+  }
+  async save(key: string, data: string) {
+    await Bun.sleep(1);
+    this.values.set(key, data);
+    this.writes.push(`save ${key}`);
+  }
+  async delete(key: string) {
+    await Bun.sleep(1);
+    this.values.delete(key);
+    this.writes.push(`delete ${key}`);
+  }
+}
 
 describe("StorageManager store implementations", () => {
-  const storageTypes: Array<"memory" | "localstorage"> = ["memory", "localstorage"];
+  const storageTypes: Array<"memory" | "localstorage" | "sessionstorage"> = [
+    "memory",
+    "localstorage",
+    "sessionstorage",
+  ];
+
+  afterEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
 
   it.each(storageTypes)("%s: performs basic CRUD via StorageManager", (storageType) => {
     const sm = new StorageManager("test-client", storageType);
@@ -10,15 +44,147 @@ describe("StorageManager store implementations", () => {
     const key1 = Bun.randomUUIDv7();
     const key2 = Bun.randomUUIDv7();
 
-    sm.saveClientParams({ nonce: key1, codeVerifier: key2, redirectUri: "https://x.com", state: "s" });
-    expect(sm.getClientParams()?.nonce).toBe(key1);
-    expect(sm.getClientParams()?.codeVerifier).toBe(key2);
+    sm.savePendingAuthorization(
+      { nonce: key1, codeVerifier: key2, redirectUri: "https://x.com", state: "s" },
+      getTokenParams(),
+    );
+    expect(sm.getPendingAuthorization("s")?.clientParams.nonce).toBe(key1);
+    expect(sm.getPendingAuthorization("s")?.clientParams.codeVerifier).toBe(key2);
 
     sm.saveIdaasSessionToken(key1);
     expect(sm.getIdaasSessionToken()).toBe(key1);
 
     sm.remove();
-    expect(sm.getClientParams()).toBeUndefined();
+    expect(sm.getPendingAuthorization("s")).toBeUndefined();
     expect(sm.getIdaasSessionToken()).toBeUndefined();
   });
+
+  it("sessionstorage: writes to sessionStorage only", () => {
+    const sm = new StorageManager("test-client", "sessionstorage");
+
+    sm.saveIdaasSessionToken("session-token");
+
+    expect(sessionStorage.getItem("entrust.test-client.idaasSessionToken")).toBe("session-token");
+    expect(localStorage.length).toBe(0);
+  });
+
+  describe("custom storage", () => {
+    it("loads values persisted before it was created", async () => {
+      const store = new AsyncMapStore();
+      const accessToken = getAccessToken();
+      store.values.set("entrust.test-client.accessTokens", JSON.stringify([accessToken]));
+
+      const sm = new StorageManager("test-client", "memory", store);
+      await sm.ready();
+
+      expect(sm.getAccessTokens()).toStrictEqual([accessToken]);
+    });
+
+    it("notifies subscribers once stored values are loaded", async () => {
+      const sm = new StorageManager("test-client", "memory", new AsyncMapStore());
+      const listener = jest.fn();
+      sm.subscribe(listener);
+
+      await sm.ready();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("serves reads synchronously and writes through in order", async () => {
+      const store = new AsyncMapStore();
+      const sm = new StorageManager("test-client", "memory", store);
+      await sm.ready();
+
+      const clientParams = getClientParams();
+      sm.savePendingAuthorization(clientParams, getTokenParams());
+      expect(sm.getPendingAuthorization(clientParams.state)?.tokenParams).toStrictEqual(getTokenParams());
+      sm.removePendingAuthorization(clientParams.state);
+      expect(sm.getPendingAuthorization(clientParams.state)).toBeUndefined();
+
+      await sm.flush();
+
+      expect(store.writes).toEqual([
+        "save entrust.test-client.pendingAuthorizations",
+        "delete entrust.test-client.pendingAuthorizations",
+      ]);
+      expect(store.values.size).toBe(0);
+    });
+
+    it("keeps values written while loading", async () => {
+      const store = new AsyncMapStore();
+      store.values.set("entrust.test-client.idaasSessionToken", "stale");
+
+      const sm = new StorageManager("test-client", "memory", store);
+      sm.saveIdaasSessionToken("fresh");
+      await sm.ready();
+
+      expect(sm.getIdaasSessionToken()).toBe("fresh");
+    });
+
+    it("rejects flush() when a write failed", async () => {
+      const store: Store = {
+        get: () => null,
+        save: () => Promise.reject(new Error("quota exceeded")),
+        delete: () => undefined,
+      };
+      const sm = new StorageManager("test-client", "memory", store);
+      await sm.ready();
+
+      sm.saveIdaasSessionToken("session-token");
+
+      const flush = sm.flush();
+      await expect(flush).rejects.toBeInstanceOf(StorageWriteError);
+      await expect(flush).rejects.toHaveProperty("cause.message", "quota exceeded");
+      // The failure is reported once
+      await sm.flush();
+    });
+
+    it("rejects ready() when the store cannot be read", async () => {
+      const store: Store = {
+        get: () => Promise.reject(new Error("read failed")),
+        save: () => undefined,
+        delete: () => undefined,
+      };
+
+      const sm = new StorageManager("test-client", "memory", store);
+
+      await expect(sm.ready()).rejects.toThrow("read failed");
+    });
+
+    it("accepts synchronous adapters", async () => {
+      const values = new Map<string, string>();
+      const store: Store = {
+        get: (key) => values.get(key) ?? null,
+        save: (key, data) => {
+          values.set(key, data);
+        },
+        delete: (key) => {
+          values.delete(key);
+        },
+      };
+
+      const sm = new StorageManager("test-client", "memory", store);
+      await sm.ready();
+      sm.saveIdToken(getIdToken());
+      await sm.flush();
+
+      expect(values.has("entrust.test-client.idToken")).toBe(true);
+    });
+
+    it("is used by IdaasClient in place of storageType", async () => {
+      const store = new AsyncMapStore();
+      store.values.set(`entrust.${TEST_CLIENT_ID}.idToken`, JSON.stringify(getIdToken()));
+
+      const client = new IdaasClient({
+        issuerUrl: TEST_ISSUER_URI,
+        clientId: TEST_CLIENT_ID,
+        storageType: "localstorage",
+        storage: store,
+      });
+      await client.ready();
+
+      expect(client.isAuthenticated()).toBe(true);
+      expect(localStorage.length).toBe(0);
+    });
+  });
 });
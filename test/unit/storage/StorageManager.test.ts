@@ -1,4 +1,4 @@
-import { afterEach, describe, expect, test } from "bun:test";
+import { afterEach, describe, expect, jest, spyOn, test } from "bun:test";
 import { StorageManager } from "../../../src/storage/StorageManager";
 import { getAccessToken, getClientParams, getIdToken, getTokenParams } from "../helpers";
 
@@ -123,35 +123,67 @@ describe("StorageManager", () => {
     });
   });
 
-  describe("token param storage", () => {
-    test("returns undefined if no token params stored", () => {
-      expect(storageManager.getTokenParams()).toBeUndefined();
+  describe("pending authorization storage", () => {
+    test("returns undefined if no authorization request is pending for the state", () => {
+      storageManager.savePendingAuthorization(getClientParams(), getTokenParams());
+
+      expect(storageManager.getPendingAuthorization("unknown-state")).toBeUndefined();
     });
 
-    test("saves and returns the stored token params", () => {
+    test("saves and returns the pending authorization requests by state", () => {
+      const clientParams = getClientParams();
+      const otherClientParams = getClientParams();
       const tokenParams = getTokenParams();
 
-      storageManager.saveTokenParams(tokenParams);
-
-      const result = storageManager.getTokenParams();
+      storageManager.savePendingAuthorization(clientParams, tokenParams);
+      storageManager.savePendingAuthorization(otherClientParams, { ...tokenParams, scope: "other" });
 
-      expect(result).toStrictEqual(tokenParams);
+      expect(storageManager.getPendingAuthorization(clientParams.state)).toMatchObject({ clientParams, tokenParams });
+      expect(storageManager.getPendingAuthorization(otherClientParams.state)?.tokenParams.scope).toBe("other");
+      expect(storageManager.getPendingAuthorizations()).toHaveLength(2);
     });
-  });
 
-  describe("client param storage", () => {
-    test("returns undefined if no client params stored", () => {
-      expect(storageManager.getClientParams()).toBeUndefined();
+    test("removes the pending authorization request of a state", () => {
+      const clientParams = getClientParams();
+      storageManager.savePendingAuthorization(clientParams, getTokenParams());
+      storageManager.savePendingAuthorization(getClientParams(), getTokenParams());
+
+      storageManager.removePendingAuthorization(clientParams.state);
+
+      expect(storageManager.getPendingAuthorization(clientParams.state)).toBeUndefined();
+      expect(storageManager.getPendingAuthorizations()).toHaveLength(1);
     });
 
-    test("saves and returns the stored client params", () => {
-      const clientParams = getClientParams();
+    describe("expiry", () => {
+      afterEach(() => {
+        jest.restoreAllMocks();
+      });
+
+      const expirePendingAuthorizations = () => {
+        const now = Date.now();
+        spyOn(Date, "now").mockImplementation(() => now + 2 * 60 * 60 * 1000);
+      };
+
+      test("does not return expired pending authorization requests", () => {
+        const clientParams = getClientParams();
+        storageManager.savePendingAuthorization(clientParams, getTokenParams());
 
-      storageManager.saveClientParams(clientParams);
+        expirePendingAuthorizations();
 
-      const result = storageManager.getClientParams();
+        expect(storageManager.getPendingAuthorization(clientParams.state)).toBeUndefined();
+      });
 
-      expect(result).toStrictEqual(clientParams);
+      test("removes expired pending authorization requests and returns their DPoP key refs", () => {
+        storageManager.savePendingAuthorization(getClientParams(), { ...getTokenParams(), dpopKeyRef: "expired-ref" });
+        storageManager.savePendingAuthorization(getClientParams(), getTokenParams());
+
+        expirePendingAuthorizations();
+        const clientParams = getClientParams();
+        storageManager.savePendingAuthorization(clientParams, getTokenParams());
+
+        expect(storageManager.removeExpiredPendingAuthorizations()).toEqual(["expired-ref"]);
+        expect(storageManager.getPendingAuthorizations()).toEqual([expect.objectContaining({ clientParams })]);
+      });
     });
   });
 
@@ -198,19 +230,114 @@ describe("StorageManager", () => {
 
   test("remove() clears storage", () => {
     storageManager.saveAccessToken(getAccessToken());
-    storageManager.saveClientParams(getClientParams());
+    storageManager.savePendingAuthorization(getClientParams(), getTokenParams());
     storageManager.saveIdToken(getIdToken());
     storageManager.saveIdaasSessionToken("testing-session-token");
-    storageManager.saveTokenParams(getTokenParams());
 
     storageManager.remove();
 
     expect(storageManager.getAccessTokens().length).toBe(0);
-    expect(storageManager.getClientParams()).toBeUndefined();
+    expect(storageManager.getPendingAuthorizations()).toEqual([]);
     expect(storageManager.getIdToken()).toBeUndefined();
     expect(storageManager.getIdaasSessionToken()).toBeUndefined();
-    expect(storageManager.getTokenParams()).toBeUndefined();
 
     expect(localStorage.length).toBe(0);
   });
+
+  test("remove() clears the pending authorization request stored by earlier versions", () => {
+    localStorage.setItem(`entrust.${CLIENT_ID}.clientParams`, JSON.stringify(getClientParams()));
+    localStorage.setItem(`entrust.${CLIENT_ID}.tokenParams`, JSON.stringify(getTokenParams()));
+
+    storageManager.remove();
+
+    expect(localStorage.length).toBe(0);
+  });
+
+  describe("session change sync", () => {
+    test("notifies other managers sharing the storage", async () => {
+      const otherTab = new StorageManager(CLIENT_ID, "localstorage");
+      const onSessionChange = jest.fn();
+      const onTokensChanged = jest.fn();
+      otherTab.onSessionChange(onSessionChange);
+      otherTab.subscribe(onTokensChanged);
+
+      storageManager.broadcastSessionChange("logout");
+      await Bun.sleep(10);
+
+      expect(onSessionChange).toHaveBeenCalledWith("logout");
+      expect(onTokensChanged).toHaveBeenCalledTimes(1);
+    });
+
+    test("does not notify managers of another client", async () => {
+      const otherClient = new StorageManager("other_client_id", "localstorage");
+      const onSessionChange = jest.fn();
+      otherClient.onSessionChange(onSessionChange);
+
+      storageManager.broadcastSessionChange("login");
+      await Bun.sleep(10);
+
+      expect(onSessionChange).not.toHaveBeenCalled();
+    });
+
+    test("does not broadcast from memory storage", async () => {
+      const memoryManager = new StorageManager(CLIENT_ID, "memory");
+      const otherTab = new StorageManager(CLIENT_ID, "localstorage");
+      const onSessionChange = jest.fn();
+      otherTab.onSessionChange(onSessionChange);
+
+      memoryManager.broadcastSessionChange("login");
+      await Bun.sleep(10);
+
+      expect(onSessionChange).not.toHaveBeenCalled();
+    });
+
+    test("stops notifying removed listeners", async () => {
+      const otherTab = new StorageManager(CLIENT_ID, "localstorage");
+      const onSessionChange = jest.fn();
+      const removeListener = otherTab.onSessionChange(onSessionChange);
+      removeListener();
+
+      storageManager.broadcastSessionChange("refresh");
+      await Bun.sleep(10);
+
+      expect(onSessionChange).not.toHaveBeenCalled();
+    });
+
+    test("stops listening to other tabs once disposed", async () => {
+      const otherTab = new StorageManager(CLIENT_ID, "localstorage");
+      const onSessionChange = jest.fn();
+      otherTab.onSessionChange(onSessionChange);
+      const spyOnClose = spyOn(BroadcastChannel.prototype, "close");
+
+      otherTab.dispose();
+      storageManager.broadcastSessionChange("refresh");
+      await Bun.sleep(10);
+
+      expect(spyOnClose).toHaveBeenCalledTimes(1);
+      expect(onSessionChange).not.toHaveBeenCalled();
+      spyOnClose.mockRestore();
+    });
+
+    test("falls back to storage events when BroadcastChannel is unavailable", () => {
+      const broadcastChannel = globalThis.BroadcastChannel;
+      Reflect.deleteProperty(globalThis, "BroadcastChannel");
+
+      try {
+        const otherTab = new StorageManager(CLIENT_ID, "localstorage");
+        const onSessionChange = jest.fn();
+        otherTab.onSessionChange(onSessionChange);
+
+        window.dispatchEvent(
+          new StorageEvent("storage", {
+            key: `entrust.${CLIENT_ID}.sessionEvent`,
+            newValue: JSON.stringify({ type: "refresh" }),
+          }),
+        );
+
+        expect(onSessionChange).toHaveBeenCalledWith("refresh");
+      } finally {
+        globalThis.BroadcastChannel = broadcastChannel;
+      }
+    });
+  });
 });
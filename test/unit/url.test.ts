@@ -76,6 +76,8 @@ describe("generateAuthorizationUrl", () => {
     expect(params.max_age).toBeUndefined();
     expect(params.acr_values).toBeUndefined();
     expect(params.audience).toBeUndefined();
+    expect(params.resource).toBeUndefined();
+    expect(result.usedResource).toEqual([]);
     expect(params.response_mode).toBeUndefined();
     expect(params.redirect_uri).toBeUndefined();
   });
@@ -106,6 +108,88 @@ describe("generateAuthorizationUrl", () => {
     expect(result.usedScope).toBe("profile openid offline_access");
   });
 
+  it("uses the requested prompt instead of prompt=consent", async () => {
+    const result = await generateAuthorizationUrl({
+      baseUrl: authorizationEndpoint,
+      clientId: "abc",
+      authorizationParams: { prompt: "none" },
+      tokenOptions: {
+        useRefreshToken: true,
+      },
+    });
+
+    const { u } = parse(result.url);
+    expect(u.searchParams.getAll("prompt")).toEqual(["none"]);
+  });
+
+  it("adds the standard authorization request params", async () => {
+    const claims = { id_token: { email: { essential: true } }, userinfo: { name: null } };
+    const result = await generateAuthorizationUrl({
+      baseUrl: authorizationEndpoint,
+      clientId: "abc",
+      authorizationParams: {
+        prompt: "login select_account",
+        loginHint: "user@example.com",
+        idTokenHint: "id.token.hint",
+        uiLocales: "fr-CA en",
+        display: "popup",
+        claims,
+      },
+      tokenOptions: {},
+    });
+
+    const { params } = parse(result.url);
+    expect(params.prompt).toBe("login select_account");
+    expect(params.login_hint).toBe("user@example.com");
+    expect(params.id_token_hint).toBe("id.token.hint");
+    expect(params.ui_locales).toBe("fr-CA en");
+    expect(params.display).toBe("popup");
+    expect(JSON.parse(params.claims as string)).toEqual(claims);
+  });
+
+  it("adds extra params", async () => {
+    const result = await generateAuthorizationUrl({
+      baseUrl: authorizationEndpoint,
+      clientId: "abc",
+      authorizationParams: { extraParams: { organization: "acme", theme: "dark" } },
+      tokenOptions: {},
+    });
+
+    const { params } = parse(result.url);
+    expect(params.organization).toBe("acme");
+    expect(params.theme).toBe("dark");
+  });
+
+  it("rejects extra params that override parameters set by the SDK", async () => {
+    for (const name of ["state", "nonce", "code_challenge", "redirect_uri", "prompt"]) {
+      await expect(
+        generateAuthorizationUrl({
+          baseUrl: authorizationEndpoint,
+          clientId: "abc",
+          authorizationParams: { extraParams: { [name]: "attacker-controlled" } },
+          tokenOptions: {},
+        }),
+      ).rejects.toThrow(`The "${name}" authorization parameter cannot be set through extraParams`);
+    }
+  });
+
+  it("adds one resource param per resource indicator", async () => {
+    const result = await generateAuthorizationUrl({
+      baseUrl: authorizationEndpoint,
+      clientId: "abc",
+      tokenOptions: {
+        resource: ["https://api.example.com/orders", "https://api.example.com/billing"],
+      },
+    });
+
+    const { u } = parse(result.url);
+    expect(u.searchParams.getAll("resource")).toEqual([
+      "https://api.example.com/orders",
+      "https://api.example.com/billing",
+    ]);
+    expect(result.usedResource).toEqual(["https://api.example.com/orders", "https://api.example.com/billing"]);
+  });
+
   it("uses issuer/authorizejwt base URL for jwt flow", async () => {
     const result = await generateAuthorizationUrl({
       baseUrl: `${issuer}/authorizejwt`,
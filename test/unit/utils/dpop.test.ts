@@ -1,4 +1,4 @@
-import { beforeEach, describe, expect, it } from "bun:test";
+import { beforeEach, describe, expect, it, jest } from "bun:test";
 import { decodeJwt, decodeProtectedHeader, type JWK } from "jose";
 import { type DPoPAlg, generateDpopKeyMaterial, generateDpopProofJwt } from "../../../src/utils/dpop";
 
@@ -79,6 +79,16 @@ describe("DPoP Key Material and Proof Generation", () => {
 
       expect(material1.jkt).not.toBe(material2.jkt);
     });
+
+    it("generates the key pair with the provided crypto", async () => {
+      const generateKey = jest.fn((...args: Parameters<SubtleCrypto["generateKey"]>) =>
+        crypto.subtle.generateKey(...args),
+      );
+
+      await generateDpopKeyMaterial("ES256", { subtle: { generateKey } } as unknown as Crypto);
+
+      expect(generateKey).toHaveBeenCalledWith({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+    });
   });
 
   describe("generateDpopProofJwt", () => {
@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, jest, test } from "bun:test";
+import { withLock } from "../../../src/utils/locks";
+
+describe("withLock", () => {
+  afterEach(() => {
+    Reflect.deleteProperty(navigator, "locks");
+  });
+
+  test("runs the callback when the Web Locks API is unavailable", async () => {
+    const result = await withLock("test-lock", async () => "result");
+
+    expect(result).toBe("result");
+  });
+
+  test("serializes callbacks for the same lock when the Web Locks API is unavailable", async () => {
+    const events: string[] = [];
+    const run = (id: string) =>
+      withLock("test-lock", async () => {
+        events.push(`start ${id}`);
+        await Bun.sleep(5);
+        events.push(`end ${id}`);
+        if (id === "first") {
+          throw new Error("first failed");
+        }
+      });
+
+    const results = await Promise.allSettled([run("first"), run("second")]);
+
+    expect(events).toEqual(["start first", "end first", "start second", "end second"]);
+    expect(results.map((result) => result.status)).toEqual(["rejected", "fulfilled"]);
+  });
+
+  test("runs the callback inside an exclusive Web Lock when available", async () => {
+    const request = jest.fn(async (_name: string, _options: LockOptions, callback: () => Promise<unknown>) => {
+      return await callback();
+    });
+    Object.defineProperty(navigator, "locks", { configurable: true, value: { request } });
+
+    const result = await withLock("test-lock", async () => "result");
+
+    expect(result).toBe("result");
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(request.mock.calls[0]?.[0]).toBe("test-lock");
+    expect(request.mock.calls[0]?.[1]).toStrictEqual({ mode: "exclusive" });
+  });
+});
@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
+import { reportError } from "../../../src/utils/reportError";
+
+describe("reportError", () => {
+  const descriptor = Object.getOwnPropertyDescriptor(globalThis, "reportError");
+
+  afterEach(() => {
+    if (descriptor) {
+      Object.defineProperty(globalThis, "reportError", descriptor);
+    }
+  });
+
+  test("dispatches the error with the runtime's reportError", () => {
+    const spyOnReportError = spyOn(globalThis, "reportError").mockImplementation(() => {});
+    const error = new Error("listener failed");
+
+    reportError(error);
+
+    expect(spyOnReportError).toHaveBeenCalledWith(error);
+    spyOnReportError.mockRestore();
+  });
+
+  test("logs the error when the runtime has no reportError", async () => {
+    Reflect.deleteProperty(globalThis, "reportError");
+    const spyOnConsoleError = spyOn(console, "error").mockImplementation(() => {});
+    const spyOnSetTimeout = spyOn(globalThis, "setTimeout");
+    const error = new Error("listener failed");
+
+    reportError(error);
+
+    expect(spyOnConsoleError).toHaveBeenCalledWith(error);
+    // Not rethrown, an uncaught exception would end a Node.js process
+    expect(spyOnSetTimeout).not.toHaveBeenCalled();
+    spyOnConsoleError.mockRestore();
+    spyOnSetTimeout.mockRestore();
+  });
+});
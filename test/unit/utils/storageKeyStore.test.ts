@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { loadStorageEncryptionKey } from "../../../src/utils/storageKeyStore";
+import { blockIndexedDb, fakeIndexedDb } from "../helpers";
+
+describe("storage key store", () => {
+  let restoreIndexedDb: (() => void) | undefined;
+
+  afterEach(() => {
+    restoreIndexedDb?.();
+    restoreIndexedDb = undefined;
+  });
+
+  test("creates a non-extractable key once and loads it afterwards", async () => {
+    const { stores, restore } = fakeIndexedDb();
+    restoreIndexedDb = restore;
+
+    const key = await loadStorageEncryptionKey("test-namespace");
+
+    expect(key.extractable).toBe(false);
+    expect([...key.usages].sort()).toEqual(["decrypt", "encrypt"]);
+    expect(stores.get("storage-keys")?.get("test-namespace")).toBe(key);
+    expect(await loadStorageEncryptionKey("test-namespace")).toBe(key);
+    expect(await loadStorageEncryptionKey("other-namespace")).not.toBe(key);
+  });
+
+  test("requires IndexedDB when it cannot be opened", async () => {
+    restoreIndexedDb = blockIndexedDb();
+
+    const error = await loadStorageEncryptionKey("test-namespace").catch((e) => e);
+
+    expect(error.message).toStartWith("Encrypted storage requires IndexedDB support");
+    expect(error.cause.cause.message).toBe("IndexedDB blocked");
+  });
+
+  test("keeps the cause of other failures", async () => {
+    const quotaExceeded = new DOMException("The quota has been exceeded.", "QuotaExceededError");
+    restoreIndexedDb = fakeIndexedDb({ failWrites: quotaExceeded }).restore;
+
+    const error = await loadStorageEncryptionKey("test-namespace").catch((e) => e);
+
+    expect(error.message).toBe("Failed to load the storage encryption key");
+    expect(error.cause).toBe(quotaExceeded);
+  });
+});